@@ -3,11 +3,65 @@ import {
   Plus, Download, Image as ImageIcon, Microscope, Settings2, 
   AlertCircle, Sliders, Scissors, Type, ChevronDown, ChevronRight,
   Maximize2, MoveHorizontal, Layout, Zap, GripHorizontal, X,
-  RotateCcw, RotateCw, Minus, PanelTopClose, PanelTopOpen
+  RotateCcw, RotateCw, Minus, PanelTopClose, PanelTopOpen, Ruler, Palette, ChevronUp, LayoutGrid, ZoomIn, Eraser,
+  MoveUpRight, Navigation2, Asterisk, Circle, Contrast,
+  ChartScatter, FileSpreadsheet, Dices, Save, FolderOpen, History as HistoryIcon, FolderInput, Loader2
 } from 'lucide-react';
 import { RowControl } from './components/RowControl';
-import { ProcessedRow, ProcessingConfig } from './types';
-import { decodeTiff, processRow } from './utils/imageProcessing';
+import { BatchImportDialog } from './components/BatchImportDialog';
+import { ExportDialog } from './components/ExportDialog';
+import { AnnotationLayer } from './components/AnnotationLayer';
+import { ChannelHistogram } from './components/ChannelHistogram';
+import { Annotation, AnnotationKind, BackgroundMethod, ChannelConfig, ChannelSlot, DisplayRange, DisplayRangeMode, HeaderPlacement, HistoryState, InsetConfig, IntensityMode, Interpolation, LayoutConfig, PanelCorner, PanelId, PanelLetterConfig, PreprocessConfig, ProcessedRow, ProcessingConfig, RawImage, RoiStrategy, RowColocalization, StackSelection } from './types';
+import { addPngTextChunks, setPngDpi } from './utils/pngText';
+import { ColocalizationInputs, colocalizationCsv, getColocalizationInputs } from './utils/colocalization';
+import { buildProvenance, provenanceAsciiJson, provenanceText, ProvenanceRecord, SOFTWARE } from './utils/provenance';
+import { randomSeed } from './utils/random';
+import { DEFAULT_CONFIG } from './utils/config';
+import { isProjectFile, openProject, Project, PROJECT_EXTENSION, saveProject } from './utils/project';
+import { collectDroppedFiles, containsFolder, isTiffFile, ProposedRow } from './utils/batchImport';
+import { clearSession, loadSession, SavedSession, saveSession } from './utils/session';
+import { clearRegistrationEstimates, staleRegistrations, withEstimate } from './utils/registration';
+import { LUT_PRESETS, MAX_CHANNELS, createEmptyChannel, createEmptyRow, getAvailablePanels, getPanelLabel, getPanels, getRowImages, isRowComplete, lutName } from './utils/channels';
+import { mergeHistograms, mergeRanges, resolveRoiStrategy, resolveUmPerPixel, ROI_STRATEGIES, rowClippedFraction } from './utils/imageProcessing';
+import { RenderRowArgs, rowRenderArgs } from './utils/imageJobs';
+import { colocalizationInWorker, decodeTiffInWorker, projectStackInWorker, registerInWorker, renderRowInWorker, roiRangesInWorker } from './utils/workerPool';
+import { buildFigure, DEFAULT_EXPORT_SETTINGS, drawFigure, ExportSettings, exportScale, FigureRow, figureSize, figureToPdf, figureToSvg } from './utils/figureExport';
+import { encodeTiff } from './utils/tiffWriter';
+import { encodePng } from './utils/pngWriter';
+import { canvasPixels } from './utils/canvas';
+import { isPreprocessActive } from './utils/preprocess';
+import { ANNOTATION_KINDS, AnnotationStyle, DEFAULT_ANNOTATION_STYLE } from './utils/annotations';
+
+// Stable per-image ids so memoized work can be keyed on which images are loaded
+const imageKeys = new WeakMap<RawImage, number>();
+let nextImageKey = 1;
+const imageKey = (img: RawImage | null): number => {
+  if (!img) return 0;
+  if (!imageKeys.has(img)) imageKeys.set(img, nextImageKey++);
+  return imageKeys.get(img)!;
+};
+
+// Render inputs each canvas was produced from, to tell current renders from stale ones
+const renderedKeys = new WeakMap<HTMLCanvasElement, string>();
+const renderKey = (images: RawImage[], args: RenderRowArgs) => `${images.map(imageKey).join(':')}|${JSON.stringify(args)}`;
+
+const ANNOTATION_ICONS: Record<AnnotationKind, React.ElementType> = {
+  arrow: MoveUpRight,
+  arrowhead: Navigation2,
+  asterisk: Asterisk,
+  circle: Circle,
+  text: Type
+};
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
 
 // Helper component for collapsible sections
 const ConfigSection = ({ 
@@ -128,27 +182,24 @@ const DraggablePanel = ({
 };
 
 export default function App() {
-  const [config, setConfig] = useState<ProcessingConfig>({
-    targetWidth: 494,
-    targetHeight: 246,
-    targetIntensity: 200,
-    padding: 10,
-    randomness: 0.05,
-    clipBottom: 25,
-    columnLabels: ["Channel 1", "Channel 2", "Merge"],
-    showLabels: true,
-    rowLabelFontSize: 24,
-    columnLabelFontSize: 24,
-    fontFamily: 'sans-serif'
-  });
+  const [config, setConfig] = useState<ProcessingConfig>(DEFAULT_CONFIG);
 
   const [rows, setRows] = useState<ProcessedRow[]>([]);
   
   // History State
-  const [history, setHistory] = useState<{
-    past: Array<{rows: ProcessedRow[], config: ProcessingConfig}>,
-    future: Array<{rows: ProcessedRow[], config: ProcessingConfig}>
-  }>({ past: [], future: [] });
+  const [history, setHistory] = useState<HistoryState>({ past: [], future: [] });
+
+  // Background rendering: progress (0-1) of rows being rendered, the pending
+  // job per row, and linked ranges tagged with the inputs they were measured for
+  const [renderProgress, setRenderProgress] = useState<Record<string, number>>({});
+  const renderJobs = useRef(new Map<string, { key: string, controller: AbortController }>());
+  // Pending stack projection and registration per row channel ("<row id>:<channel>")
+  const projectJobs = useRef(new Map<string, AbortController>());
+  const registerJobs = useRef(new Map<string, { key: string, controller: AbortController }>());
+  // Colocalization statistics per row, tagged with the inputs they were measured for
+  const [colocStats, setColocStats] = useState<Record<string, { key: string, stats: RowColocalization }>>({});
+  const colocJobs = useRef(new Map<string, { key: string, controller: AbortController }>());
+  const [linkedRanges, setLinkedRanges] = useState<{ signature: string, ranges: DisplayRange[] | null } | null>(null);
 
   // UI State
   const [sidebarWidth, setSidebarWidth] = useState(400);
@@ -156,17 +207,37 @@ export default function App() {
   const [sections, setSections] = useState({
     geometry: true,
     processing: true,
-    typography: true
+    channels: true,
+    preprocessing: false,
+    typography: true,
+    layout: false,
+    insets: false,
+    scaleBar: false,
+    colocalization: false
   });
   const [panelPos, setPanelPos] = useState({ x: window.innerWidth - 340, y: 70 });
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const batchInputRef = useRef<HTMLInputElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const [batchFiles, setBatchFiles] = useState<File[] | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [showExport, setShowExport] = useState(false);
+  const [showClipping, setShowClipping] = useState(false);
+  const [preprocessChannel, setPreprocessChannel] = useState(0);
+  const [annotationTool, setAnnotationTool] = useState<AnnotationKind | null>(null);
+  const [annotationStyle, setAnnotationStyle] = useState<AnnotationStyle>(DEFAULT_ANNOTATION_STYLE);
+  // Autosave stays off until any previous session has been restored or
+  // dismissed, so it cannot overwrite the session being offered
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(null);
+  const [autosaveReady, setAutosaveReady] = useState(false);
 
   // History Management
   const pushToHistory = useCallback(() => {
     setHistory(prev => {
         // Create a snapshot. We strip processedCanvas to save memory/storage, 
-        // as it can be regenerated from imgData + config.
+        // as it can be regenerated from the channel images + config.
         const currentSnapshot = {
-            rows: rows.map(r => ({ ...r, processedCanvas: null })),
+            rows: rows.map(r => ({ ...r, processedCanvas: null, renderInfo: null })),
             config: { ...config }
         };
         const newPast = [...prev.past, currentSnapshot];
@@ -187,7 +258,7 @@ export default function App() {
     
     // Save current to future
     const currentSnapshot = {
-        rows: rows.map(r => ({ ...r, processedCanvas: null })),
+        rows: rows.map(r => ({ ...r, processedCanvas: null, renderInfo: null })),
         config: { ...config }
     };
     
@@ -208,7 +279,7 @@ export default function App() {
     const newFuture = history.future.slice(1);
     
     const currentSnapshot = {
-        rows: rows.map(r => ({ ...r, processedCanvas: null })),
+        rows: rows.map(r => ({ ...r, processedCanvas: null, renderInfo: null })),
         config: { ...config }
     };
 
@@ -221,6 +292,19 @@ export default function App() {
     setRows(next.rows);
   };
 
+  // Preprocessing is edited one channel at a time
+  const preprocessIdx = Math.min(preprocessChannel, config.channelCount - 1);
+  const preprocess = config.channels[preprocessIdx].preprocess;
+  const setPreprocess = <K extends keyof PreprocessConfig>(stage: K, updates: Partial<PreprocessConfig[K]>) =>
+    updateChannelConfig(preprocessIdx, { preprocess: { ...preprocess, [stage]: { ...preprocess[stage], ...updates } } });
+
+  const updateChannelConfig = (idx: number, updates: Partial<ChannelConfig>) => {
+    setConfig(prev => ({
+      ...prev,
+      channels: prev.channels.map((c, i) => i === idx ? { ...c, ...updates } : c)
+    }));
+  };
+
   // Resizing Logic
   const startResizing = useCallback(() => setIsResizing(true), []);
   const stopResizing = useCallback(() => setIsResizing(false), []);
@@ -244,33 +328,72 @@ export default function App() {
   useEffect(() => {
     if (rows.length === 0) {
       // No history push for initial load
-      const newRow: ProcessedRow = {
-        id: crypto.randomUUID(),
-        file1: null,
-        file2: null,
-        imgData1: null,
-        imgData2: null,
-        processedCanvas: null,
-        timestamp: Date.now(),
-        rowLabel: ''
-      };
-      setRows([newRow]);
+      setRows([createEmptyRow()]);
     }
   }, []);
 
+  // Offer the autosaved session from a previous visit, if any
+  useEffect(() => {
+    loadSession()
+      .then(session => {
+        if (session) setSavedSession(session);
+        else setAutosaveReady(true);
+      })
+      .catch(() => setAutosaveReady(true));
+  }, []);
+
+  // Autosave a moment after the workspace settles
+  useEffect(() => {
+    if (!autosaveReady) return;
+    const timer = setTimeout(() => {
+      saveSession(rows, config, history).catch(e => console.warn('Autosave failed', e));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [rows, config, history, autosaveReady]);
+
+  const handleRestoreSession = async () => {
+    if (!savedSession) return;
+    try {
+      applyProject(await savedSession.restore());
+    } catch (e) {
+      alert(`Failed to restore the previous session: ${e instanceof Error ? e.message : e}`);
+    }
+    setSavedSession(null);
+    setAutosaveReady(true);
+  };
+
+  const handleDiscardSession = async () => {
+    setSavedSession(null);
+    await clearSession().catch(() => {});
+    setAutosaveReady(true);
+  };
+
   const handleAddRow = () => {
     pushToHistory();
-    const newRow: ProcessedRow = {
-      id: crypto.randomUUID(),
-      file1: null,
-      file2: null,
-      imgData1: null,
-      imgData2: null,
-      processedCanvas: null,
-      timestamp: Date.now(),
-      rowLabel: ''
-    };
-    setRows(prev => [...prev, newRow]);
+    setRows(prev => [...prev, createEmptyRow()]);
+  };
+
+  // All rows of a batch import land in one undo step. Empty rows nobody has
+  // touched yet are replaced rather than left above the imported ones.
+  const handleBatchImport = (proposed: ProposedRow[], channelCount: number) => {
+    pushToHistory();
+    const created = proposed.map(p => ({ row: { ...createEmptyRow(), rowLabel: p.label }, files: p.files }));
+    setRows(prev => [
+      ...prev.filter(r => r.rowLabel || r.channels.some(c => c.file)),
+      ...created.map(c => c.row)
+    ]);
+    if (channelCount > config.channelCount) {
+      setConfig(prev => ({ ...prev, channelCount: Math.min(channelCount, MAX_CHANNELS) }));
+    }
+    created.forEach(({ row, files }) => files.forEach((file, c) => {
+      if (file) handleLoadChannelFile(row.id, c, file);
+    }));
+    setBatchFiles(null);
+  };
+
+  const openBatchImport = (files: File[]) => {
+    if (files.some(isTiffFile)) setBatchFiles(files);
+    else alert('No TIFF files found.');
   };
 
   const handleRemoveRow = (id: string) => {
@@ -278,165 +401,434 @@ export default function App() {
     setRows(prev => prev.filter(r => r.id !== id));
   };
 
-  const handleUpdateRow = async (id: string, updates: Partial<ProcessedRow>) => {
-    // Don't push history here, handled in wrapper or specific calls to avoid dups
-    setRows(prev => prev.map(r => {
-      if (r.id === id) {
-        return { ...r, ...updates };
-      }
-      return r;
-    }));
-
-    const row = rows.find(r => r.id === id);
-    if (!row) return;
+  const replaceChannel = (row: ProcessedRow, channelIdx: number, slot: ChannelSlot): ChannelSlot[] =>
+    row.channels.map((c, i) => i === channelIdx ? slot : c);
 
-    if (updates.file1 && updates.file1 !== row.file1) {
-      try {
-        const data = await decodeTiff(updates.file1);
-        setRows(prev => prev.map(r => r.id === id ? { ...r, imgData1: data } : r));
-      } catch (e) {
-        alert("Failed to decode TIFF 1. Ensure it is a valid format.");
-      }
-    }
+  const handleLoadChannelFile = async (id: string, channelIdx: number, file: File) => {
+    // Don't push history here, handled in wrapper or specific calls to avoid dups
+    setRows(prev => prev.map(r => r.id === id ? { ...r, channels: replaceChannel(r, channelIdx, { ...createEmptyChannel(), file }) } : r));
 
-    if (updates.file2 && updates.file2 !== row.file2) {
-      try {
-        const data = await decodeTiff(updates.file2);
-        setRows(prev => prev.map(r => r.id === id ? { ...r, imgData2: data } : r));
-      } catch (e) {
-        alert("Failed to decode TIFF 2. Ensure it is a valid format.");
-      }
+    try {
+      const { stack, selection, image } = await decodeTiffInWorker(file);
+      const slot: ChannelSlot = { ...createEmptyChannel(), file, stack, selection, image };
+      setRows(prev => prev.map(r => {
+        // Ignore results for a file that has since been replaced
+        if (r.id !== id || r.channels[channelIdx].file !== file) return r;
+        const channels = replaceChannel(r, channelIdx, slot);
+        return { ...r, channels: channelIdx === 0 ? clearRegistrationEstimates(channels) : channels, processedCanvas: null };
+      }));
+    } catch (e) {
+      setRows(prev => prev.map(r => r.id === id && r.channels[channelIdx].file === file ? { ...r, channels: replaceChannel(r, channelIdx, createEmptyChannel()) } : r));
+      alert(`Failed to decode TIFF ${channelIdx + 1}. Ensure it is a valid format.`);
     }
   };
 
+  // Rotate channel slots by one (a plain swap for two-channel rows). The
+  // reference channel changes, so registration is measured again.
   const handleSwap = (id: string) => {
     pushToHistory();
     setRows(prev => prev.map(r => {
       if (r.id === id) {
+        const used = r.channels.slice(0, config.channelCount).map(c => ({ ...c, estimatedShift: null, shift: null }));
         return {
           ...r,
-          file1: r.file2,
-          file2: r.file1,
-          imgData1: r.imgData2,
-          imgData2: r.imgData1
+          channels: [...used.slice(1), used[0], ...r.channels.slice(config.channelCount)],
+          processedCanvas: null
         };
       }
       return r;
     }));
   };
 
-  // Main processing loop - Updates when Config changes
+  // Linked display ranges depend only on the loaded images and the crop
+  // geometry, so key them on image identity rather than on every row edit
+  const imageSignature = rows.map(r => {
+    const roi = r.roiOverride ? `#${r.roiOverride.x},${r.roiOverride.y},${r.roiOverride.w},${r.roiOverride.h}` : '';
+    return r.channels.map(c => {
+      const shift = c.shift ? `@${c.shift.dx},${c.shift.dy},${c.shift.rotationDeg}` : '';
+      return `${imageKey(c.image)}${shift}`;
+    }).join(':') + roi + (r.roiStrategy ?? '');
+  }).join('|');
+  const rangeSignature = config.intensityMode === 'per-image'
+    ? null
+    : [
+        imageSignature, config.channelCount, config.targetWidth, config.targetHeight, config.clipBottom, config.roiStrategy,
+        // Preprocessing and range modes change each crop's range; µm radii depend on each row's calibration
+        JSON.stringify(config.channels.slice(0, config.channelCount).map(c => [c.preprocess, c.rangeMode, c.saturated, c.manualRange])),
+        rows.map(resolveUmPerPixel).join(',')
+      ].join('/');
   useEffect(() => {
-    setRows(prevRows => {
-      let hasChanges = false;
-      const newRows = prevRows.map((row, index) => {
-        if (row.imgData1 && row.imgData2) {
-            const isFirstRow = index === 0;
-            // Always regenerate logic to check if we need update (processRow is relatively fast for single row)
-            // Ideally we check if config changed, but this effect runs on config change.
-            const newCanvas = processRow(row.imgData1, row.imgData2, config, row.rowLabel, isFirstRow);
-            if (row.processedCanvas !== newCanvas) {
-                hasChanges = true;
-                return { ...row, processedCanvas: newCanvas };
-            }
-        }
-        return row;
-      });
-      return hasChanges ? newRows : prevRows;
+    if (rangeSignature === null) return;
+    const controller = new AbortController();
+    const complete = rows.filter(r => isRowComplete(r, config.channelCount));
+    Promise.all(complete.map(r => roiRangesInWorker(
+      getRowImages(r, config.channelCount) as RawImage[],
+      { config, roiOverride: r.roiOverride, roiStrategy: resolveRoiStrategy(r, config), umPerPixel: resolveUmPerPixel(r) },
+      { signal: controller.signal }
+    )))
+      .then(perRow => setLinkedRanges({ signature: rangeSignature, ranges: mergeRanges(perRow, config.channelCount) }))
+      .catch(e => { if (!controller.signal.aborted) console.error('Failed to measure display ranges', e); });
+    return () => controller.abort();
+  }, [rangeSignature]);
+  const dataRanges = linkedRanges && linkedRanges.signature === rangeSignature ? linkedRanges.ranges : null;
+  const displayRanges = config.intensityMode === 'linked-manual'
+    ? config.channels.slice(0, config.channelCount).map(c => c.manualRange)
+    : dataRanges;
+  // Auto-linked rows wait for fresh ranges rather than rendering twice
+  const rangesReady = config.intensityMode !== 'linked-auto' || linkedRanges?.signature === rangeSignature;
+  const renderedInfo = rows.filter(r => r.processedCanvas && r.renderInfo).map(r => r.renderInfo!);
+  const nonlinear = config.channels.slice(0, config.channelCount).some(c => c.gamma !== 1);
+  const renderingCount = Object.keys(renderProgress).length;
+  const previewSize = figureSize(config, rows.filter(r => r.processedCanvas && r.renderInfo), 1);
+
+  const endRender = (id: string) => {
+    renderJobs.current.delete(id);
+    setRenderProgress(prev => {
+      if (!(id in prev)) return prev;
+      const { [id]: _, ...rest } = prev;
+      return rest;
     });
-  }, [config]); 
+  };
 
-  // Restoration Repair Loop - Updates when Rows change (e.g. undo/redo) and canvas is missing
+  const renderArgs = (row: ProcessedRow, index: number, overlays = true, scale = 1, highlightClipping = false) =>
+    rowRenderArgs(row, index, config, displayRanges, overlays, scale, highlightClipping);
+
+  const cancelRender = (id: string) => {
+    renderJobs.current.get(id)?.controller.abort();
+    endRender(id);
+  };
+
+  // Rows render in the worker pool. A row is sent again only when one of its
+  // render inputs changes, and a newer request cancels the stale one.
   useEffect(() => {
-    const rowsNeedingProcess = rows.some((r, i) => r.imgData1 && r.imgData2 && !r.processedCanvas);
-    if (rowsNeedingProcess) {
-        setRows(prev => prev.map((r, i) => {
-            if (r.imgData1 && r.imgData2 && !r.processedCanvas) {
-                return { ...r, processedCanvas: processRow(r.imgData1, r.imgData2, config, r.rowLabel, i === 0) };
-            }
-            return r;
-        }));
+    const jobs = renderJobs.current;
+    const live = new Set(rows.filter(r => isRowComplete(r, config.channelCount)).map(r => r.id));
+    [...jobs.keys()].forEach(id => { if (!live.has(id)) cancelRender(id); });
+
+    // Channel count grew past what these rows have loaded
+    if (rows.some(r => r.processedCanvas && !live.has(r.id))) {
+      setRows(prev => prev.map(r => r.processedCanvas && !isRowComplete(r, config.channelCount) ? { ...r, processedCanvas: null, renderInfo: null } : r));
     }
+    if (!rangesReady) return;
+
+    // Numbered by position among the complete rows, which are the ones the
+    // figure shows: row 0 carries the headers
+    rows.filter(row => live.has(row.id)).forEach((row, index) => {
+      const images = getRowImages(row, config.channelCount) as RawImage[];
+      const args = renderArgs(row, index, true, 1, showClipping);
+      const key = renderKey(images, args);
+      const pending = jobs.get(row.id);
+      if (pending ? pending.key === key : row.processedCanvas && renderedKeys.get(row.processedCanvas) === key) return;
+
+      pending?.controller.abort();
+      const controller = new AbortController();
+      jobs.set(row.id, { key, controller });
+      setRenderProgress(prev => ({ ...prev, [row.id]: 0 }));
+      renderRowInWorker(images, args, {
+        signal: controller.signal,
+        onProgress: done => { if (!controller.signal.aborted) setRenderProgress(prev => ({ ...prev, [row.id]: done })); }
+      })
+        .then(({ canvas, info }) => {
+          renderedKeys.set(canvas, key);
+          setRows(prev => prev.map(r => r.id === row.id ? { ...r, processedCanvas: canvas, renderInfo: info } : r));
+        })
+        .catch(e => { if (!controller.signal.aborted) console.error(`Failed to render row ${index + 1}`, e); })
+        .finally(() => { if (jobs.get(row.id)?.controller === controller) endRender(row.id); });
+    });
+  }, [rows, config, displayRanges, rangesReady, showClipping]);
+
+  // The preview is the montage itself, composed from the rendered rows
+  useEffect(() => {
+    const canvas = previewRef.current;
+    if (!canvas) return;
+    const figureRows = rows
+      .filter(r => r.processedCanvas && r.renderInfo)
+      .map(r => ({ raster: canvasPixels(r.processedCanvas!), info: r.renderInfo!, label: r.rowLabel }));
+    drawFigure(canvas, figureRows, config, 1);
   }, [rows, config]);
 
-  const updateRowWithProcess = (id: string, updates: Partial<ProcessedRow>) => {
-      setRows(prev => {
-          const idx = prev.findIndex(r => r.id === id);
-          if (idx === -1) return prev;
-          
-          const oldRow = prev[idx];
-          const newRow = { ...oldRow, ...updates };
-          
-          if (newRow.imgData1 && newRow.imgData2) {
-              if (updates.imgData1 || updates.imgData2 || updates.rowLabel !== undefined) {
-                  newRow.processedCanvas = processRow(newRow.imgData1, newRow.imgData2, config, newRow.rowLabel, idx === 0);
-              }
-          }
-          
-          const newRows = [...prev];
-          newRows[idx] = newRow;
-          return newRows;
-      });
+  // Measure chromatic shift in the worker pool for channels of complete rows
+  // without a current estimate. A job is replaced when its images or search
+  // settings change, and dropped when the channel no longer needs it.
+  useEffect(() => {
+    const jobs = registerJobs.current;
+    const { allowRotation, maxRotationDeg, autoApply } = config.registration;
+    const wanted = new Set<string>();
+    rows.forEach(row => staleRegistrations(row, config).forEach(idx => {
+      const jobId = `${row.id}:${idx}`;
+      const reference = row.channels[0].image!;
+      const moving = row.channels[idx].image!;
+      const key = `${imageKey(reference)}:${imageKey(moving)}|${allowRotation}:${maxRotationDeg}`;
+      wanted.add(jobId);
+      const pending = jobs.get(jobId);
+      if (pending?.key === key) return;
+
+      pending?.controller.abort();
+      const controller = new AbortController();
+      jobs.set(jobId, { key, controller });
+      registerInWorker(reference, moving, { allowRotation, maxRotationDeg }, { signal: controller.signal })
+        .then(estimate => setRows(prev => prev.map(r => {
+          // Ignore estimates for images that have since been replaced
+          if (r.id !== row.id || r.channels[0].image !== reference || r.channels[idx].image !== moving) return r;
+          return { ...r, channels: replaceChannel(r, idx, withEstimate(r.channels[idx], estimate, autoApply)) };
+        })))
+        .catch(e => { if (!controller.signal.aborted) console.error(`Failed to register channel ${idx + 1}`, e); })
+        .finally(() => { if (jobs.get(jobId)?.controller === controller) jobs.delete(jobId); });
+    }));
+    [...jobs.entries()].forEach(([jobId, { controller }]) => {
+      if (wanted.has(jobId)) return;
+      controller.abort();
+      jobs.delete(jobId);
+    });
+  }, [rows, config]);
+
+  // Colocalization statistics are computed in the worker pool, again only
+  // when a row's registered pair or measured regions change
+  const colocalizationKey = ({ images, full, crop }: ColocalizationInputs) =>
+    `${images.map(imageKey).join(':')}|${JSON.stringify([full, crop])}`;
+  useEffect(() => {
+    const jobs = colocJobs.current;
+    const wanted = new Set<string>();
+    if (config.colocalization.enabled) rows.forEach(row => {
+      const inputs = getColocalizationInputs(row, config);
+      if (!inputs) return;
+      const key = colocalizationKey(inputs);
+      wanted.add(row.id);
+      const pending = jobs.get(row.id);
+      if (pending ? pending.key === key : colocStats[row.id]?.key === key) return;
+
+      pending?.controller.abort();
+      const controller = new AbortController();
+      jobs.set(row.id, { key, controller });
+      colocalizationInWorker(inputs.images, { full: inputs.full, crop: inputs.crop }, { signal: controller.signal })
+        .then(stats => setColocStats(prev => ({ ...prev, [row.id]: { key, stats } })))
+        .catch(e => { if (!controller.signal.aborted) console.error('Failed to measure colocalization', e); })
+        .finally(() => { if (jobs.get(row.id)?.controller === controller) jobs.delete(row.id); });
+    });
+    [...jobs.entries()].forEach(([id, { controller }]) => {
+      if (wanted.has(id)) return;
+      controller.abort();
+      jobs.delete(id);
+    });
+  }, [rows, config]);
+
+  // Statistics of a row's current inputs, or null until they are measured
+  const rowColocalization = (row: ProcessedRow): RowColocalization | null => {
+    const inputs = config.colocalization.enabled ? getColocalizationInputs(row, config) : null;
+    const entry = inputs && colocStats[row.id];
+    return entry && entry.key === colocalizationKey(inputs) ? entry.stats : null;
+  };
+
+  // Apply an edit to one row; the render effect picks up anything that changes its output
+  const updateRow = (id: string, updates: Partial<ProcessedRow> | ((row: ProcessedRow) => Partial<ProcessedRow>)) => {
+      setRows(prev => prev.map(r => r.id === id ? { ...r, ...(typeof updates === 'function' ? updates(r) : updates) } : r));
   };
 
   const handleUpdateRowSmart = (id: string, updates: Partial<ProcessedRow>) => {
       // Save history for discrete updates (text typing handled here, debouncing history might be needed for heavy typers 
       // but for scientific tool precise steps are better).
-      // However, we only push history if it's NOT a file load (file load is async and complex, handled separately or we push before)
-      // For text input, we push.
-      
-      // Note: For file drop, we handle history in the wrapper that calls this.
-      // For text input, we should probably push.
-      // To avoid duplicate history pushes, we rely on the caller or check update type.
       // Simply: Push history before any state change.
-      
+      pushToHistory();
+      updateRow(id, updates);
+  };
+
+  const handleAddAnnotation = (id: string, annotation: Annotation) => {
+      pushToHistory();
+      updateRow(id, row => ({ annotations: [...row.annotations, annotation] }));
+  };
+
+  const handleUpdateChannel = (id: string, channelIdx: number, updates: Partial<ChannelSlot>) => {
       pushToHistory();
 
-      if (updates.file1 || updates.file2) {
-          handleUpdateRow(id, updates); 
+      if (updates.file) {
+          handleLoadChannelFile(id, channelIdx, updates.file);
           return;
       }
-      updateRowWithProcess(id, updates);
+      updateRow(id, row => {
+          const slot = { ...row.channels[channelIdx], ...updates };
+          const channels = replaceChannel(row, channelIdx, slot);
+          const referenceChanged = channelIdx === 0 && slot.image !== row.channels[0].image;
+          return { channels: referenceChanged ? clearRegistrationEstimates(channels) : channels };
+      });
   };
 
-  const handleDownload = () => {
-    if (rows.length === 0) return;
-    const rowW = (config.targetWidth * 3) + (config.padding * 2);
-    const rowH = config.targetHeight;
-    const verticalGap = 10;
-    const validRows = rows.filter(r => r.processedCanvas);
+  // Slice / projection changes arrive on every slider tick (history is pushed
+  // once when the gesture starts). The selection shows at once; the stack is
+  // projected in the worker pool and a newer selection cancels the pending one.
+  const handleSelectionChange = (id: string, channelIdx: number, selection: StackSelection) => {
+      const stack = rows.find(r => r.id === id)?.channels[channelIdx].stack;
+      if (!stack) return;
+      updateRow(id, row => ({ channels: replaceChannel(row, channelIdx, { ...row.channels[channelIdx], selection }) }));
+
+      const jobKey = `${id}:${channelIdx}`;
+      projectJobs.current.get(jobKey)?.abort();
+      const controller = new AbortController();
+      projectJobs.current.set(jobKey, controller);
+      projectStackInWorker(stack, selection, { signal: controller.signal })
+        .then(image => updateRow(id, row => {
+          // Ignore projections of a selection that has since changed
+          const slot = row.channels[channelIdx];
+          if (slot.selection !== selection) return {};
+          const channels = replaceChannel(row, channelIdx, { ...slot, image, estimatedShift: null });
+          return { channels: channelIdx === 0 ? clearRegistrationEstimates(channels) : channels };
+        }))
+        .catch(e => { if (!controller.signal.aborted) console.error('Failed to project stack', e); })
+        .finally(() => { if (projectJobs.current.get(jobKey) === controller) projectJobs.current.delete(jobKey); });
+  };
+
+  // Rows at the export scale, numbered by their position in the exported
+  // figure, rendered again from the source unless the preview was drawn with
+  // exactly these inputs
+  const renderForExport = (validRows: ProcessedRow[], overlays: boolean, scale: number): Promise<FigureRow[]> =>
+    Promise.all(validRows.map(async (row, index) => {
+      const images = getRowImages(row, config.channelCount) as RawImage[];
+      const args = renderArgs(row, index, overlays, scale);
+      const { canvas, info } = renderedKeys.get(row.processedCanvas!) === renderKey(images, args)
+        ? { canvas: row.processedCanvas!, info: row.renderInfo! }
+        : await renderRowInWorker(images, args);
+      return { raster: canvasPixels(canvas), info, label: row.rowLabel };
+    }));
+
+  // Raster montage of the rendered rows, labels included
+  const composeRaster = async (validRows: ProcessedRow[], scale: number): Promise<HTMLCanvasElement> => {
+    const canvas = document.createElement('canvas');
+    drawFigure(canvas, await renderForExport(validRows, true, scale), config, scale);
+    return canvas;
+  };
+
+  // Vector montage: rows are rendered again without overlays, which are
+  // written as editable text and shapes instead
+  const composeVector = async (validRows: ProcessedRow[], scale: number) =>
+    buildFigure(await renderForExport(validRows, false, scale), config, scale);
+
+  const handleDownload = async () => {
+    const validRows = rows.filter(r => r.processedCanvas && r.renderInfo);
     if (validRows.length === 0) {
         alert("No complete rows to save.");
         return;
     }
-    const canvas = document.createElement('canvas');
-    canvas.width = rowW;
-    canvas.height = (rowH * validRows.length) + (verticalGap * (validRows.length - 1));
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    ctx.fillStyle = "#ffffff";
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-    validRows.forEach((row, idx) => {
-        if (row.processedCanvas) {
-            ctx.drawImage(row.processedCanvas, 0, idx * (rowH + verticalGap));
+    const clipped = validRows
+      .map((row, idx) => ({ row: idx + 1, label: row.rowLabel, percent: rowClippedFraction(row.renderInfo!) * 100 }))
+      .filter(r => r.percent > exportSettings.clipWarnPercent);
+    if (clipped.length > 0 && !window.confirm(
+      `These rows have more than ${exportSettings.clipWarnPercent}% clipped pixels in a channel:\n` +
+      clipped.map(r => `Row ${r.row}${r.label ? ` (${r.label})` : ''}: ${r.percent.toFixed(1)}%`).join('\n') +
+      '\n\nExport anyway?'
+    )) return;
+    const { format, dpi } = exportSettings;
+    const scale = exportScale(exportSettings, figureSize(config, validRows, 1).width);
+    setShowExport(false);
+    // Provenance of every transformation, embedded in the export and written
+    // alongside it as JSON and plain-text sidecars
+    const stamp = Date.now();
+    try {
+      let blob: Blob;
+      let record: ProvenanceRecord;
+      if (format === 'png' || format === 'tiff') {
+        const canvas = await composeRaster(validRows, scale);
+        record = await buildProvenance(validRows, config, { width: canvas.width, height: canvas.height, scale, dpi });
+        if (format === 'tiff') {
+          blob = encodeTiff(canvasPixels(canvas), { bitDepth: exportSettings.tiffBitDepth, dpi, software: SOFTWARE, description: provenanceAsciiJson(record) });
+        } else {
+          blob = await setPngDpi(await addPngTextChunks(await encodePng(canvasPixels(canvas)), {
+            'Software': SOFTWARE,
+            'Description': 'Provenance record of the processing applied to this figure (see the Provenance chunk)',
+            'Provenance': JSON.stringify(record)
+          }), dpi);
         }
+      } else {
+        const figure = await composeVector(validRows, scale);
+        record = await buildProvenance(validRows, config, { width: figure.width, height: figure.height, scale, dpi });
+        blob = format === 'svg'
+          ? new Blob([await figureToSvg(figure, JSON.stringify(record), dpi)], { type: 'image/svg+xml' })
+          : await figureToPdf(figure, { Creator: SOFTWARE, Producer: SOFTWARE, Provenance: JSON.stringify(record) }, dpi);
+      }
+      downloadBlob(blob, `montage_${stamp}.${format === 'tiff' ? 'tif' : format}`);
+      downloadBlob(new Blob([JSON.stringify(record, null, 2)], { type: 'application/json' }), `montage_${stamp}.provenance.json`);
+      downloadBlob(new Blob([provenanceText(record)], { type: 'text/plain' }), `montage_${stamp}.provenance.txt`);
+    } catch (e) {
+      alert(`Export failed: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  const applyProject = (project: Project) => {
+    setConfig(project.config);
+    setRows(project.rows);
+    setHistory(project.history);
+  };
+
+  const handleSaveProject = async () => {
+    try {
+      const blob = await saveProject(rows, config, history);
+      downloadBlob(blob, `figure_${Date.now()}${PROJECT_EXTENSION}`);
+    } catch (e) {
+      alert(`Failed to save project: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  // Replaces the whole workspace, including undo history, with the project
+  const handleOpenProject = async (file: File) => {
+    const hasWork = rows.some(r => r.channels.some(c => c.file));
+    if (hasWork && !window.confirm('Replace the current figure with this project?')) return;
+    try {
+      applyProject(await openProject(file));
+    } catch (e) {
+      alert(`Failed to open project: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  // Project files, folders and multiple TIFFs can be dropped anywhere outside
+  // a channel slot; the latter two open the batch import
+  const handleWindowDrop = async (e: React.DragEvent) => {
+    if (e.defaultPrevented) return;
+    e.preventDefault();
+    const file = e.dataTransfer.files?.[0];
+    if (file && e.dataTransfer.files.length === 1 && isProjectFile(file)) {
+      handleOpenProject(file);
+      return;
+    }
+    if (containsFolder(e.dataTransfer) || e.dataTransfer.files.length > 1) openBatchImport(await collectDroppedFiles(e.dataTransfer));
+  };
+
+  const setLayout = (updates: Partial<LayoutConfig>) =>
+    setConfig(prev => ({ ...prev, layout: { ...prev.layout, ...updates } }));
+
+  const setInsets = (updates: Partial<InsetConfig>) =>
+    setConfig(prev => ({ ...prev, insets: { ...prev.insets, ...updates } }));
+
+  // Swap a panel with its neighbour in the montage order
+  const movePanel = (panel: PanelId, delta: number) => {
+    pushToHistory();
+    setConfig(prev => {
+      const order = getAvailablePanels(prev);
+      const from = order.indexOf(panel);
+      const to = from + delta;
+      if (to < 0 || to >= order.length) return prev;
+      [order[from], order[to]] = [order[to], order[from]];
+      return { ...prev, layout: { ...prev.layout, panelOrder: order } };
     });
-    canvas.toBlob((blob) => {
-        if (blob) {
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `montage_${Date.now()}.png`;
-            a.click();
-            URL.revokeObjectURL(url);
-        }
-    }, 'image/png');
+  };
+
+  // Colocalization statistics of every complete row, labelled by condition.
+  // Rows still being measured are measured here rather than left out.
+  const handleExportCsv = async () => {
+    try {
+      const stats = await Promise.all(rows.map(row => {
+        const inputs = getColocalizationInputs(row, config);
+        return inputs && (rowColocalization(row) ?? colocalizationInWorker(inputs.images, { full: inputs.full, crop: inputs.crop }));
+      }));
+      downloadBlob(new Blob([colocalizationCsv(rows, config, stats)], { type: 'text/csv' }), `colocalization_${Date.now()}.csv`);
+    } catch (e) {
+      alert(`CSV export failed: ${e instanceof Error ? e.message : e}`);
+    }
   };
 
   return (
-    <div className="flex h-screen bg-neutral-950 text-neutral-200 overflow-hidden select-none relative">
+    <div 
+      className="flex h-screen bg-neutral-950 text-neutral-200 overflow-hidden select-none relative"
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={handleWindowDrop}
+    >
       
       {/* Floating Settings Inspector */}
       <DraggablePanel position={panelPos} onDrag={setPanelPos}>
@@ -483,10 +875,285 @@ export default function App() {
                             className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none transition-colors"
                         />
                     </div>
+                    <div>
+                        <label className="block text-[10px] text-neutral-500 mb-1">ROI Strategy</label>
+                        <select
+                           onFocus={pushToHistory}
+                           value={config.roiStrategy}
+                           onChange={(e) => setConfig(prev => ({ ...prev, roiStrategy: e.target.value as RoiStrategy }))}
+                           className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                        >
+                            {ROI_STRATEGIES.map(o => (
+                                <option key={o.value} value={o.value}>{o.label}</option>
+                            ))}
+                        </select>
+                        <p className="mt-1 text-[10px] text-neutral-600">Rows can override this next to their ROI readout.</p>
+                    </div>
                  </div>
               </ConfigSection>
 
-              {/* Group 2: Processing */}
+              {/* Group 2: Channels */}
+              <ConfigSection 
+                title="Channels & LUTs" 
+                icon={Palette}
+                isOpen={sections.channels} 
+                onToggle={() => setSections(p => ({...p, channels: !p.channels}))}
+              >
+                  <div className="space-y-3">
+                     <div>
+                        <label className="block text-[10px] text-neutral-500 mb-1">Channels per Row</label>
+                        <div className="grid grid-cols-5 gap-1">
+                            {Array.from({ length: MAX_CHANNELS }, (_, i) => i + 1).map(count => (
+                                <button
+                                   key={count}
+                                   onClick={() => { pushToHistory(); setConfig(prev => ({ ...prev, channelCount: count })); }}
+                                   className={`py-1 rounded text-xs border transition-colors ${config.channelCount === count ? 'bg-blue-600/20 border-blue-500 text-blue-300' : 'bg-neutral-800 border-neutral-700 text-neutral-500 hover:text-neutral-300'}`}
+                                >
+                                   {count}
+                                </button>
+                            ))}
+                        </div>
+                     </div>
+
+                     <div className="space-y-2 pt-2 border-t border-neutral-800">
+                        {config.channels.slice(0, config.channelCount).map((channel, idx) => (
+                            <div key={idx} className="flex items-center gap-2">
+                                <span className="text-[10px] text-neutral-500 w-6 flex-shrink-0">C{idx + 1}</span>
+                                <input 
+                                   type="text"
+                                   onFocus={pushToHistory}
+                                   value={channel.label}
+                                   onChange={(e) => updateChannelConfig(idx, { label: e.target.value })}
+                                   className="w-full min-w-0 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-[10px] text-neutral-300 focus:border-blue-500 outline-none"
+                                   placeholder={`Channel ${idx + 1}`}
+                                />
+                                <select 
+                                   onFocus={pushToHistory}
+                                   value={lutName(channel.color) === 'Custom' ? 'custom' : channel.color}
+                                   onChange={(e) => {
+                                       if (e.target.value !== 'custom') updateChannelConfig(idx, { color: e.target.value });
+                                   }}
+                                   className="w-24 flex-shrink-0 bg-neutral-800 border border-neutral-700 rounded px-1 py-1 text-[10px] text-neutral-200 focus:border-blue-500 outline-none"
+                                >
+                                    {LUT_PRESETS.map(preset => (
+                                        <option key={preset.color} value={preset.color}>{preset.name}</option>
+                                    ))}
+                                    <option value="custom">Custom</option>
+                                </select>
+                                <input 
+                                    type="color" 
+                                    onFocus={pushToHistory}
+                                    value={channel.color}
+                                    onChange={(e) => updateChannelConfig(idx, { color: e.target.value })}
+                                    className="w-7 h-[22px] flex-shrink-0 bg-neutral-800 border border-neutral-700 rounded cursor-pointer"
+                                    title="Custom LUT color"
+                                />
+                            </div>
+                        ))}
+                        {config.channelCount > 1 && (
+                            <div className="flex items-center gap-2">
+                                <span className="text-[10px] text-neutral-500 w-6 flex-shrink-0">M</span>
+                                <input 
+                                   type="text"
+                                   onFocus={pushToHistory}
+                                   value={config.mergeLabel}
+                                   onChange={(e) => setConfig(prev => ({ ...prev, mergeLabel: e.target.value }))}
+                                   className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-[10px] text-neutral-300 focus:border-blue-500 outline-none"
+                                   placeholder="Merge"
+                                />
+                            </div>
+                        )}
+                     </div>
+
+                     {config.channelCount > 1 && (
+                        <div className="space-y-2 pt-2 border-t border-neutral-800">
+                            <label className="block text-[10px] text-neutral-500">Channel Registration</label>
+                            {([
+                                ['autoApply', 'Apply estimates automatically'],
+                                ['allowRotation', 'Estimate rotation']
+                            ] as const).map(([key, label]) => (
+                                <div key={key} className="flex items-center justify-between">
+                                    <span className="text-[10px] text-neutral-500">{label}</span>
+                                    <button 
+                                       onClick={() => { pushToHistory(); setConfig(prev => ({ ...prev, registration: { ...prev.registration, [key]: !prev.registration[key] } })); }}
+                                       className={`w-8 h-4 rounded-full transition-colors relative ${config.registration[key] ? 'bg-blue-600' : 'bg-neutral-700'}`}
+                                    >
+                                       <div className={`absolute top-0.5 left-0.5 w-3 h-3 bg-white rounded-full transition-transform ${config.registration[key] ? 'translate-x-4' : 'translate-x-0'}`} />
+                                    </button>
+                                </div>
+                            ))}
+                            {config.registration.allowRotation && (
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-[10px] text-neutral-500">Max rotation (°)</span>
+                                    <input 
+                                        type="number" 
+                                        min="0.5" max="10" step="0.5"
+                                        onFocus={pushToHistory}
+                                        value={config.registration.maxRotationDeg}
+                                        onChange={(e) => setConfig(prev => ({ ...prev, registration: { ...prev.registration, maxRotationDeg: parseFloat(e.target.value) || 0 } }))}
+                                        className="w-16 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                                    />
+                                </div>
+                            )}
+                        </div>
+                     )}
+                  </div>
+              </ConfigSection>
+
+              {/* Group 3: Preprocessing */}
+              <ConfigSection 
+                title="Preprocessing" 
+                icon={Eraser}
+                isOpen={sections.preprocessing} 
+                onToggle={() => setSections(p => ({...p, preprocessing: !p.preprocessing}))}
+              >
+                  <div className="space-y-3">
+                     <div className="grid grid-cols-5 gap-1">
+                        {config.channels.slice(0, config.channelCount).map((channel, idx) => (
+                            <button
+                               key={idx}
+                               onClick={() => setPreprocessChannel(idx)}
+                               className={`py-1 rounded text-xs border transition-colors ${preprocessIdx === idx ? 'bg-blue-600/20 border-blue-500 text-blue-300' : 'bg-neutral-800 border-neutral-700 text-neutral-500 hover:text-neutral-300'}`}
+                               title={channel.label}
+                            >
+                               C{idx + 1}{isPreprocessActive(channel.preprocess) ? ' •' : ''}
+                            </button>
+                        ))}
+                     </div>
+                     <p className="text-[10px] text-neutral-500">Applied to every row before the crop is chosen and intensities are scaled, in this order.</p>
+
+                     {([
+                        ['offset', 'Subtract Offset'],
+                        ['background', 'Subtract Background'],
+                        ['median', 'Median Denoise'],
+                        ['gaussian', 'Gaussian Denoise'],
+                        ['unsharp', 'Unsharp Mask']
+                     ] as const).map(([stage, label]) => (
+                        <div key={stage} className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <label className="text-[10px] text-neutral-500">{label}</label>
+                                <button 
+                                   onClick={() => { pushToHistory(); setPreprocess(stage, { enabled: !preprocess[stage].enabled }); }}
+                                   className={`w-8 h-4 rounded-full transition-colors relative ${preprocess[stage].enabled ? 'bg-blue-600' : 'bg-neutral-700'}`}
+                                >
+                                   <div className={`absolute top-0.5 left-0.5 w-3 h-3 bg-white rounded-full transition-transform ${preprocess[stage].enabled ? 'translate-x-4' : 'translate-x-0'}`} />
+                                </button>
+                            </div>
+                            {stage === 'offset' && preprocess.offset.enabled && (
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-[10px] text-neutral-500">Offset (native units)</span>
+                                    <input 
+                                        type="number" 
+                                        min="0" step="any"
+                                        onFocus={pushToHistory}
+                                        value={preprocess.offset.value}
+                                        onChange={(e) => setPreprocess('offset', { value: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                        className="w-20 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                                    />
+                                </div>
+                            )}
+                            {stage === 'background' && preprocess.background.enabled && (
+                                <div className="grid grid-cols-2 gap-2">
+                                    <select 
+                                       onFocus={pushToHistory}
+                                       value={preprocess.background.method}
+                                       onChange={(e) => setPreprocess('background', { method: e.target.value as BackgroundMethod })}
+                                       className="col-span-2 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                                    >
+                                        <option value="rolling-ball">Rolling Ball</option>
+                                        <option value="sliding-paraboloid">Sliding Paraboloid</option>
+                                    </select>
+                                    <input 
+                                        type="number" 
+                                        min="1" step="any"
+                                        onFocus={pushToHistory}
+                                        value={preprocess.background.radius}
+                                        onChange={(e) => setPreprocess('background', { radius: Math.max(1, parseFloat(e.target.value) || 1) })}
+                                        className="bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                                        title="Radius"
+                                    />
+                                    <select 
+                                       onFocus={pushToHistory}
+                                       value={preprocess.background.unit}
+                                       onChange={(e) => setPreprocess('background', { unit: e.target.value as 'px' | 'um' })}
+                                       className="bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                                       title="Uncalibrated images use pixels"
+                                    >
+                                        <option value="px">px</option>
+                                        <option value="um">µm</option>
+                                    </select>
+                                </div>
+                            )}
+                            {stage === 'median' && preprocess.median.enabled && (
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-[10px] text-neutral-500">Radius (px)</span>
+                                    <input 
+                                        type="number" 
+                                        min="1" max="5" step="1"
+                                        onFocus={pushToHistory}
+                                        value={preprocess.median.radius}
+                                        onChange={(e) => setPreprocess('median', { radius: Math.max(1, Math.min(5, parseInt(e.target.value) || 1)) })}
+                                        className="w-20 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                                    />
+                                </div>
+                            )}
+                            {stage === 'gaussian' && preprocess.gaussian.enabled && (
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="text-[10px] text-neutral-500">Sigma (px)</span>
+                                    <input 
+                                        type="number" 
+                                        min="0.1" step="0.1"
+                                        onFocus={pushToHistory}
+                                        value={preprocess.gaussian.sigma}
+                                        onChange={(e) => setPreprocess('gaussian', { sigma: Math.max(0.1, parseFloat(e.target.value) || 0.1) })}
+                                        className="w-20 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                                    />
+                                </div>
+                            )}
+                            {stage === 'unsharp' && preprocess.unsharp.enabled && (
+                                <div className="grid grid-cols-2 gap-2">
+                                    <div>
+                                        <label className="block text-[10px] text-neutral-500 mb-1">Sigma (px)</label>
+                                        <input 
+                                            type="number" 
+                                            min="0.1" step="0.1"
+                                            onFocus={pushToHistory}
+                                            value={preprocess.unsharp.sigma}
+                                            onChange={(e) => setPreprocess('unsharp', { sigma: Math.max(0.1, parseFloat(e.target.value) || 0.1) })}
+                                            className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                                        />
+                                    </div>
+                                    <div>
+                                        <label className="block text-[10px] text-neutral-500 mb-1">Amount</label>
+                                        <input 
+                                            type="number" 
+                                            min="0" max="5" step="0.1"
+                                            onFocus={pushToHistory}
+                                            value={preprocess.unsharp.amount}
+                                            onChange={(e) => setPreprocess('unsharp', { amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+                                            className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                                        />
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                     ))}
+
+                     {config.channelCount > 1 && (
+                        <button
+                           onClick={() => {
+                               pushToHistory();
+                               setConfig(prev => ({ ...prev, channels: prev.channels.map(c => ({ ...c, preprocess })) }));
+                           }}
+                           className="w-full py-1 rounded bg-neutral-800 text-[10px] text-neutral-300 hover:bg-neutral-700 transition-colors"
+                        >
+                           Apply C{preprocessIdx + 1} settings to all channels
+                        </button>
+                     )}
+                  </div>
+              </ConfigSection>
+
+              {/* Group 4: Processing */}
               <ConfigSection 
                 title="Processing" 
                 icon={Zap}
@@ -504,6 +1171,122 @@ export default function App() {
                             className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
                         />
                     </div>
+                    <div>
+                        <label className="block text-[10px] text-neutral-500 mb-1">Display Range</label>
+                        <select 
+                           onFocus={pushToHistory}
+                           value={config.intensityMode}
+                           onChange={(e) => setConfig(prev => ({ ...prev, intensityMode: e.target.value as IntensityMode }))}
+                           className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                        >
+                            <option value="per-image">Per-image auto-normalize (not comparable)</option>
+                            <option value="linked-auto">Linked across rows (auto)</option>
+                            <option value="linked-manual">Linked across rows (manual)</option>
+                        </select>
+                        {config.intensityMode === 'per-image' && (
+                            <p className="mt-1 text-[10px] text-amber-500/80">Each crop is mapped by its own range.</p>
+                        )}
+                        <div className="mt-2 space-y-2">
+                            {config.channels.slice(0, config.channelCount).map((channel, c) => {
+                                const linkedManual = config.intensityMode === 'linked-manual';
+                                const editable = linkedManual || channel.rangeMode === 'manual';
+                                return (
+                                    <div key={c} className="p-2 rounded bg-neutral-800/40 border border-neutral-800 space-y-1.5">
+                                        <div className="flex items-center gap-2 text-[10px] text-neutral-500">
+                                            <div className="w-2.5 h-2.5 rounded-sm flex-shrink-0" style={{ backgroundColor: channel.color }} />
+                                            <span className="w-8 flex-shrink-0">Ch {c + 1}</span>
+                                            <select
+                                                onFocus={pushToHistory}
+                                                value={channel.rangeMode}
+                                                onChange={(e) => updateChannelConfig(c, { rangeMode: e.target.value as DisplayRangeMode })}
+                                                className="flex-1 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                                                title={linkedManual ? 'Sets where the linked range maps to' : undefined}
+                                            >
+                                                <option value="max">Max → target</option>
+                                                <option value="percentile">Saturate %</option>
+                                                <option value="manual">Manual</option>
+                                            </select>
+                                            {channel.gamma !== 1 && (
+                                                <span className="px-1.5 py-0.5 rounded bg-amber-900/40 text-amber-400 text-[9px]" title="Gamma is not 1: intensities are not mapped linearly">Nonlinear</span>
+                                            )}
+                                        </div>
+                                        {channel.rangeMode === 'percentile' && !linkedManual && (
+                                            <div className="flex items-center gap-2 text-[10px] text-neutral-500">
+                                                <span className="flex-1">Saturated pixels (%)</span>
+                                                <input
+                                                    type="number"
+                                                    min="0" max="50" step="0.05"
+                                                    onFocus={pushToHistory}
+                                                    value={channel.saturated}
+                                                    onChange={(e) => updateChannelConfig(c, { saturated: Math.max(0, Math.min(50, parseFloat(e.target.value) || 0)) })}
+                                                    className="w-16 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                                                />
+                                            </div>
+                                        )}
+                                        {editable ? (
+                                            <div className="flex items-center gap-2">
+                                                {(['min', 'max'] as const).map(bound => (
+                                                    <input 
+                                                        key={bound}
+                                                        type="number" 
+                                                        onFocus={pushToHistory}
+                                                        value={channel.manualRange[bound]}
+                                                        onChange={(e) => {
+                                                            const value = parseFloat(e.target.value) || 0;
+                                                            updateChannelConfig(c, { manualRange: { ...channel.manualRange, [bound]: value } });
+                                                        }}
+                                                        className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                                                        title={bound === 'min' ? 'Maps to black' : channel.rangeMode === 'max' ? 'Maps to target intensity' : 'Maps to white'}
+                                                    />
+                                                ))}
+                                            </div>
+                                        ) : config.intensityMode === 'linked-auto' && (
+                                            <div className="text-[10px] text-neutral-500">
+                                                Linked range{' '}
+                                                <span className="font-mono text-blue-400">
+                                                    {dataRanges ? `${Math.round(dataRanges[c].min)} – ${Math.round(dataRanges[c].max)}` : 'no complete rows'}
+                                                </span>
+                                            </div>
+                                        )}
+                                        <ChannelHistogram
+                                            histogram={mergeHistograms(renderedInfo.map(info => info.channels[c].histogram))}
+                                            applied={renderedInfo.map(info => info.channels[c].range)}
+                                            manual={editable ? channel.manualRange : null}
+                                            gamma={channel.gamma}
+                                            color={channel.color}
+                                            onManualStart={pushToHistory}
+                                            onManualChange={(manualRange) => updateChannelConfig(c, { manualRange })}
+                                        />
+                                        <div className="flex items-center gap-2 text-[10px] text-neutral-500">
+                                            <span className="flex-1">Gamma</span>
+                                            <input
+                                                type="number"
+                                                min="0.1" max="5" step="0.05"
+                                                onFocus={pushToHistory}
+                                                value={channel.gamma}
+                                                onChange={(e) => updateChannelConfig(c, { gamma: Math.max(0.1, Math.min(5, parseFloat(e.target.value) || 1)) })}
+                                                className="w-16 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                                            />
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                            {config.intensityMode === 'linked-manual' && dataRanges && (
+                                <button 
+                                    onClick={() => {
+                                        pushToHistory();
+                                        setConfig(prev => ({
+                                            ...prev,
+                                            channels: prev.channels.map((c, i) => dataRanges[i] ? { ...c, manualRange: { ...dataRanges[i] } } : c)
+                                        }));
+                                    }}
+                                    className="text-[10px] text-blue-400 hover:text-blue-300"
+                                >
+                                    Fill from data
+                                </button>
+                            )}
+                        </div>
+                    </div>
                     <div>
                         <label className="block text-[10px] text-neutral-500 mb-1 flex justify-between">
                             <span>Randomness Factor</span>
@@ -517,11 +1300,35 @@ export default function App() {
                             onChange={(e) => setConfig(prev => ({ ...prev, randomness: parseFloat(e.target.value) }))}
                             className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
                         />
+                        <p className="mt-1 text-[10px] text-neutral-600">
+                            {config.intensityMode === 'per-image' ? 'Applies to channels in Max → target mode.' : 'Not applied while the display range is linked.'}
+                        </p>
+                    </div>
+                    <div>
+                        <label className="block text-[10px] text-neutral-500 mb-1">Random Seed</label>
+                        <div className="flex gap-2">
+                            <input 
+                                type="number" 
+                                min="0" max="4294967295" step="1"
+                                onFocus={pushToHistory}
+                                value={config.seed}
+                                onChange={(e) => setConfig(prev => ({ ...prev, seed: (parseInt(e.target.value) || 0) >>> 0 }))}
+                                className="flex-1 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 font-mono focus:border-blue-500 outline-none"
+                            />
+                            <button
+                                onClick={() => { pushToHistory(); setConfig(prev => ({ ...prev, seed: randomSeed() })); }}
+                                className="flex items-center gap-1 px-2 py-1 rounded bg-neutral-800 border border-neutral-700 text-[10px] text-neutral-300 hover:bg-neutral-700"
+                                title="Draw a new seed"
+                            >
+                                <Dices size={12} /> Reroll
+                            </button>
+                        </div>
+                        <p className="mt-1 text-[10px] text-neutral-600">The same seed and inputs always render identical pixels.</p>
                     </div>
                   </div>
               </ConfigSection>
 
-              {/* Group 3: Typography */}
+              {/* Group 5: Typography */}
               <ConfigSection 
                 title="Typography & Labels" 
                 icon={Type}
@@ -589,22 +1396,428 @@ export default function App() {
                         </div>
                      </div>
 
-                     <div className="grid grid-cols-3 gap-2 pt-2 border-t border-neutral-800">
-                         {config.columnLabels.map((label, idx) => (
-                             <input 
-                                key={idx}
-                                type="text"
+                     <div>
+                        <label className="block text-[10px] text-neutral-500 mb-1">Panel Letters</label>
+                        <div className="flex gap-2">
+                           <select
+                              onFocus={pushToHistory}
+                              value={config.panelLetters.mode}
+                              onChange={(e) => setConfig(prev => ({ ...prev, panelLetters: { ...prev.panelLetters, mode: e.target.value as PanelLetterConfig['mode'] } }))}
+                              className="flex-1 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                           >
+                               <option value="none">None</option>
+                               <option value="panel">Per panel</option>
+                               <option value="row">Per condition</option>
+                           </select>
+                           <select
+                              onFocus={pushToHistory}
+                              disabled={config.panelLetters.mode === 'none'}
+                              value={config.panelLetters.lowercase ? 'lower' : 'upper'}
+                              onChange={(e) => setConfig(prev => ({ ...prev, panelLetters: { ...prev.panelLetters, lowercase: e.target.value === 'lower' } }))}
+                              className="w-20 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none disabled:opacity-50"
+                           >
+                               <option value="upper">A, B</option>
+                               <option value="lower">a, b</option>
+                           </select>
+                        </div>
+                     </div>
+
+                     {config.panelLetters.mode !== 'none' && (
+                        <div>
+                            <label className="block text-[10px] text-neutral-500 mb-1 flex justify-between">
+                                <span>Letter Size</span>
+                                <span className="text-neutral-400">{config.panelLetters.fontSize}px</span>
+                            </label>
+                            <input 
+                                type="range" 
+                                min="12" max="64" step="2"
+                                onPointerDown={pushToHistory}
+                                value={config.panelLetters.fontSize}
+                                onChange={(e) => setConfig(prev => ({ ...prev, panelLetters: { ...prev.panelLetters, fontSize: parseInt(e.target.value) } }))}
+                                className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                            />
+                        </div>
+                     )}
+                  </div>
+              </ConfigSection>
+
+              {/* Group 6: Layout */}
+              <ConfigSection 
+                title="Montage Layout" 
+                icon={LayoutGrid}
+                isOpen={sections.layout} 
+                onToggle={() => setSections(p => ({...p, layout: !p.layout}))}
+              >
+                  <div className="space-y-3">
+                     <div className="flex items-center justify-between">
+                        <label className="text-[10px] text-neutral-500">Conditions as Columns</label>
+                        <button 
+                           onClick={() => { pushToHistory(); setLayout({ transpose: !config.layout.transpose }); }}
+                           className={`w-8 h-4 rounded-full transition-colors relative ${config.layout.transpose ? 'bg-blue-600' : 'bg-neutral-700'}`}
+                        >
+                           <div className={`absolute top-0.5 left-0.5 w-3 h-3 bg-white rounded-full transition-transform ${config.layout.transpose ? 'translate-x-4' : 'translate-x-0'}`} />
+                        </button>
+                     </div>
+
+                     <div>
+                        <label className="block text-[10px] text-neutral-500 mb-1">Panels ({config.layout.transpose ? 'top to bottom' : 'left to right'})</label>
+                        <div className="space-y-1">
+                            {getAvailablePanels(config).map((panel, idx, all) => {
+                                const shown = getPanels(config);
+                                const visible = shown.includes(panel);
+                                return (
+                                    <div key={panel} className="flex items-center gap-2 bg-neutral-800/50 rounded px-2 py-1">
+                                        <input
+                                           type="checkbox"
+                                           checked={visible}
+                                           disabled={visible && shown.length === 1}
+                                           onChange={() => {
+                                               pushToHistory();
+                                               const hidden = config.layout.hiddenPanels;
+                                               setLayout({ hiddenPanels: hidden.includes(panel) ? hidden.filter(p => p !== panel) : [...hidden, panel] });
+                                           }}
+                                           className="accent-blue-500"
+                                           title={visible && shown.length === 1 ? 'At least one panel is shown' : undefined}
+                                        />
+                                        <span className={`flex-1 text-[10px] truncate ${visible ? 'text-neutral-300' : 'text-neutral-600'}`}>
+                                            {getPanelLabel(config, panel) || (panel === 'merge' ? 'Merge' : `Ch ${panel + 1}`)}
+                                        </span>
+                                        <button onClick={() => movePanel(panel, -1)} disabled={idx === 0} className="p-0.5 text-neutral-500 hover:text-white disabled:opacity-30" title="Move earlier">
+                                            <ChevronUp size={12} />
+                                        </button>
+                                        <button onClick={() => movePanel(panel, 1)} disabled={idx === all.length - 1} className="p-0.5 text-neutral-500 hover:text-white disabled:opacity-30" title="Move later">
+                                            <ChevronDown size={12} />
+                                        </button>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                     </div>
+
+                     <div className="grid grid-cols-3 gap-3">
+                        {([['gapX', 'Column Gap'], ['gapY', 'Row Gap'], ['margin', 'Margin']] as const).map(([field, label]) => (
+                            <div key={field}>
+                                <label className="block text-[10px] text-neutral-500 mb-1">{label} (px)</label>
+                                <input 
+                                    type="number" 
+                                    min="0"
+                                    onFocus={pushToHistory}
+                                    value={config.layout[field]}
+                                    onChange={(e) => setLayout({ [field]: Math.max(0, parseInt(e.target.value) || 0) })}
+                                    className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none transition-colors"
+                                />
+                            </div>
+                        ))}
+                     </div>
+
+                     <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-[10px] text-neutral-500 mb-1">Background</label>
+                            <input 
+                                type="color" 
+                                onFocus={pushToHistory}
+                                value={config.layout.background}
+                                onChange={(e) => setLayout({ background: e.target.value })}
+                                className="w-full h-[26px] bg-neutral-800 border border-neutral-700 rounded cursor-pointer"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-[10px] text-neutral-500 mb-1">Headers</label>
+                            <select 
+                               onFocus={pushToHistory}
+                               value={config.layout.headers}
+                               onChange={(e) => setLayout({ headers: e.target.value as HeaderPlacement })}
+                               className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                            >
+                                <option value="overlay">On Images</option>
+                                <option value="outside">Outside Images</option>
+                            </select>
+                        </div>
+                     </div>
+                  </div>
+              </ConfigSection>
+
+              {/* Group 7: Insets */}
+              <ConfigSection 
+                title="Insets" 
+                icon={ZoomIn}
+                isOpen={sections.insets} 
+                onToggle={() => setSections(p => ({...p, insets: !p.insets}))}
+              >
+                  <div className="space-y-3">
+                     <p className="text-[10px] text-neutral-500">Regions are added per row. Each is outlined on the main panels and shown magnified.</p>
+                     <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-[10px] text-neutral-500 mb-1">Placement</label>
+                            <select 
+                               onFocus={pushToHistory}
+                               value={config.insets.mode}
+                               onChange={(e) => setInsets({ mode: e.target.value as InsetConfig['mode'] })}
+                               className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                            >
+                                <option value="corner">Panel Corner</option>
+                                <option value="column">Extra Column</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-[10px] text-neutral-500 mb-1">Zoom (×)</label>
+                            <input 
+                                type="number" 
+                                min="1" step="0.5"
+                                onFocus={pushToHistory}
+                                value={config.insets.zoom}
+                                onChange={(e) => setInsets({ zoom: Math.max(1, parseFloat(e.target.value) || 1) })}
+                                className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none transition-colors"
+                            />
+                        </div>
+                        {config.insets.mode === 'corner' ? (
+                            <>
+                                <div>
+                                    <label className="block text-[10px] text-neutral-500 mb-1">Size (% of panel)</label>
+                                    <input 
+                                        type="number" 
+                                        min="5" max="100" step="5"
+                                        onFocus={pushToHistory}
+                                        value={Math.round(config.insets.size * 100)}
+                                        onChange={(e) => setInsets({ size: Math.max(5, Math.min(100, parseFloat(e.target.value) || 5)) / 100 })}
+                                        className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none transition-colors"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-[10px] text-neutral-500 mb-1">Corner</label>
+                                    <select 
+                                       onFocus={pushToHistory}
+                                       value={config.insets.corner}
+                                       onChange={(e) => setInsets({ corner: e.target.value as PanelCorner })}
+                                       className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                                    >
+                                        <option value="bottom-right">Bottom Right</option>
+                                        <option value="bottom-left">Bottom Left</option>
+                                        <option value="top-right">Top Right</option>
+                                        <option value="top-left">Top Left</option>
+                                    </select>
+                                </div>
+                            </>
+                        ) : (
+                            <div className="col-span-2">
+                                <label className="block text-[10px] text-neutral-500 mb-1">Magnified Panel</label>
+                                <select 
+                                   onFocus={pushToHistory}
+                                   value={String(config.insets.source)}
+                                   onChange={(e) => setInsets({ source: e.target.value === 'merge' ? 'merge' : parseInt(e.target.value) })}
+                                   className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                                >
+                                    {getAvailablePanels(config).map(panel => (
+                                        <option key={panel} value={String(panel)}>
+                                            {getPanelLabel(config, panel) || (panel === 'merge' ? 'Merge' : `Ch ${panel + 1}`)}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        )}
+                        <div>
+                            <label className="block text-[10px] text-neutral-500 mb-1">Border</label>
+                            <input 
+                                type="color" 
+                                onFocus={pushToHistory}
+                                value={config.insets.borderColor}
+                                onChange={(e) => setInsets({ borderColor: e.target.value })}
+                                className="w-full h-[26px] bg-neutral-800 border border-neutral-700 rounded cursor-pointer"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-[10px] text-neutral-500 mb-1">Border Width (px)</label>
+                            <input 
+                                type="number" 
+                                min="0"
+                                onFocus={pushToHistory}
+                                value={config.insets.borderWidth}
+                                onChange={(e) => setInsets({ borderWidth: Math.max(0, parseInt(e.target.value) || 0) })}
+                                className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none transition-colors"
+                            />
+                        </div>
+                        <div className="col-span-2">
+                            <label className="block text-[10px] text-neutral-500 mb-1">Interpolation</label>
+                            <select 
+                               onFocus={pushToHistory}
+                               value={config.insets.interpolation}
+                               onChange={(e) => setInsets({ interpolation: e.target.value as Interpolation })}
+                               className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                            >
+                                <option value="nearest">Nearest (show pixels)</option>
+                                <option value="bilinear">Bilinear (smooth)</option>
+                            </select>
+                        </div>
+                     </div>
+                  </div>
+              </ConfigSection>
+
+              {/* Group 8: Scale Bar */}
+              <ConfigSection 
+                title="Scale Bar" 
+                icon={Ruler}
+                isOpen={sections.scaleBar} 
+                onToggle={() => setSections(p => ({...p, scaleBar: !p.scaleBar}))}
+              >
+                  <div className="space-y-3">
+                     <div className="flex items-center justify-between">
+                        <label className="text-[10px] text-neutral-500">Show Scale Bar</label>
+                        <button 
+                           onClick={() => { pushToHistory(); setConfig(prev => ({ ...prev, scaleBar: { ...prev.scaleBar, enabled: !prev.scaleBar.enabled } })); }}
+                           className={`w-8 h-4 rounded-full transition-colors relative ${config.scaleBar.enabled ? 'bg-blue-600' : 'bg-neutral-700'}`}
+                        >
+                           <div className={`absolute top-0.5 left-0.5 w-3 h-3 bg-white rounded-full transition-transform ${config.scaleBar.enabled ? 'translate-x-4' : 'translate-x-0'}`} />
+                        </button>
+                     </div>
+
+                     <div className="grid grid-cols-2 gap-3">
+                        <div>
+                            <label className="block text-[10px] text-neutral-500 mb-1">Length (µm)</label>
+                            <input 
+                                type="number" 
+                                min="0" step="any"
                                 onFocus={pushToHistory}
-                                value={label}
-                                onChange={(e) => {
-                                    const newLabels = [...config.columnLabels] as [string, string, string];
-                                    newLabels[idx] = e.target.value;
-                                    setConfig(prev => ({ ...prev, columnLabels: newLabels }));
-                                }}
-                                className="bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-[10px] text-neutral-300 focus:border-blue-500 outline-none"
-                                placeholder={`Col ${idx + 1}`}
-                             />
-                         ))}
+                                value={config.scaleBar.lengthUm}
+                                onChange={(e) => setConfig(prev => ({ ...prev, scaleBar: { ...prev.scaleBar, lengthUm: parseFloat(e.target.value) || 0 } }))}
+                                className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none transition-colors"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-[10px] text-neutral-500 mb-1">Thickness (px)</label>
+                            <input 
+                                type="number" 
+                                min="1"
+                                onFocus={pushToHistory}
+                                value={config.scaleBar.thickness}
+                                onChange={(e) => setConfig(prev => ({ ...prev, scaleBar: { ...prev.scaleBar, thickness: parseInt(e.target.value) || 1 } }))}
+                                className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none transition-colors"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-[10px] text-neutral-500 mb-1">Position</label>
+                            <select 
+                               onFocus={pushToHistory}
+                               value={config.scaleBar.position}
+                               onChange={(e) => setConfig(prev => ({ ...prev, scaleBar: { ...prev.scaleBar, position: e.target.value as PanelCorner } }))}
+                               className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                            >
+                                <option value="bottom-right">Bottom Right</option>
+                                <option value="bottom-left">Bottom Left</option>
+                                <option value="top-right">Top Right</option>
+                                <option value="top-left">Top Left</option>
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-[10px] text-neutral-500 mb-1">Color</label>
+                            <input 
+                                type="color" 
+                                onFocus={pushToHistory}
+                                value={config.scaleBar.color}
+                                onChange={(e) => setConfig(prev => ({ ...prev, scaleBar: { ...prev.scaleBar, color: e.target.value } }))}
+                                className="w-full h-[26px] bg-neutral-800 border border-neutral-700 rounded cursor-pointer"
+                            />
+                        </div>
+                     </div>
+
+                     <div className="flex items-center justify-between">
+                        <label className="text-[10px] text-neutral-500">Show Length Text</label>
+                        <button 
+                           onClick={() => { pushToHistory(); setConfig(prev => ({ ...prev, scaleBar: { ...prev.scaleBar, showText: !prev.scaleBar.showText } })); }}
+                           className={`w-8 h-4 rounded-full transition-colors relative ${config.scaleBar.showText ? 'bg-blue-600' : 'bg-neutral-700'}`}
+                        >
+                           <div className={`absolute top-0.5 left-0.5 w-3 h-3 bg-white rounded-full transition-transform ${config.scaleBar.showText ? 'translate-x-4' : 'translate-x-0'}`} />
+                        </button>
+                     </div>
+
+                     {config.scaleBar.showText && (
+                        <div>
+                            <label className="block text-[10px] text-neutral-500 mb-1 flex justify-between">
+                                <span>Text Size</span>
+                                <span className="text-neutral-400">{config.scaleBar.fontSize}px</span>
+                            </label>
+                            <input 
+                                type="range" 
+                                min="10" max="48" step="2"
+                                onPointerDown={pushToHistory}
+                                value={config.scaleBar.fontSize}
+                                onChange={(e) => setConfig(prev => ({ ...prev, scaleBar: { ...prev.scaleBar, fontSize: parseInt(e.target.value) } }))}
+                                className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                            />
+                        </div>
+                     )}
+
+                     <div className="pt-2 border-t border-neutral-800">
+                        <label className="block text-[10px] text-neutral-500 mb-1">Draw On Panels</label>
+                        <div className="grid grid-cols-3 gap-2">
+                            {getPanels(config).map(panel => (
+                                <button
+                                   key={panel}
+                                   onClick={() => {
+                                       pushToHistory();
+                                       setConfig(prev => {
+                                           const panels: PanelId[] = prev.scaleBar.panels.includes(panel)
+                                               ? prev.scaleBar.panels.filter(p => p !== panel)
+                                               : [...prev.scaleBar.panels, panel];
+                                           return { ...prev, scaleBar: { ...prev.scaleBar, panels } };
+                                       });
+                                   }}
+                                   className={`px-2 py-1 rounded text-[10px] border truncate transition-colors ${config.scaleBar.panels.includes(panel) ? 'bg-blue-600/20 border-blue-500 text-blue-300' : 'bg-neutral-800 border-neutral-700 text-neutral-500'}`}
+                                >
+                                   {getPanelLabel(config, panel) || (panel === 'merge' ? 'Merge' : `Ch ${panel + 1}`)}
+                                </button>
+                            ))}
+                        </div>
+                     </div>
+                  </div>
+              </ConfigSection>
+
+              {/* Group 9: Colocalization */}
+              <ConfigSection 
+                title="Colocalization" 
+                icon={ChartScatter}
+                isOpen={sections.colocalization} 
+                onToggle={() => setSections(p => ({...p, colocalization: !p.colocalization}))}
+              >
+                  <div className="space-y-3">
+                     <div className="flex items-center justify-between">
+                        <label className="text-[10px] text-neutral-500">Compute Statistics</label>
+                        <button 
+                           onClick={() => { pushToHistory(); setConfig(prev => ({ ...prev, colocalization: { ...prev.colocalization, enabled: !prev.colocalization.enabled } })); }}
+                           className={`w-8 h-4 rounded-full transition-colors relative ${config.colocalization.enabled ? 'bg-blue-600' : 'bg-neutral-700'}`}
+                        >
+                           <div className={`absolute top-0.5 left-0.5 w-3 h-3 bg-white rounded-full transition-transform ${config.colocalization.enabled ? 'translate-x-4' : 'translate-x-0'}`} />
+                        </button>
+                     </div>
+
+                     <div className="grid grid-cols-2 gap-3">
+                        {(['channelA', 'channelB'] as const).map((field, i) => (
+                            <div key={field}>
+                                <label className="block text-[10px] text-neutral-500 mb-1">Channel {i === 0 ? 'A (x)' : 'B (y)'}</label>
+                                <select 
+                                   onFocus={pushToHistory}
+                                   value={config.colocalization[field]}
+                                   onChange={(e) => setConfig(prev => ({ ...prev, colocalization: { ...prev.colocalization, [field]: parseInt(e.target.value) } }))}
+                                   className="w-full bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-xs text-neutral-200 focus:border-blue-500 outline-none"
+                                >
+                                    {config.channels.slice(0, config.channelCount).map((channel, c) => (
+                                        <option key={c} value={c}>{channel.label || `Channel ${c + 1}`}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                     </div>
+                     {config.colocalization.enabled && config.colocalization.channelA === config.colocalization.channelB && (
+                        <p className="text-[10px] text-amber-500/80">Pick two different channels.</p>
+                     )}
+
+                     <div className="flex items-center justify-between">
+                        <label className="text-[10px] text-neutral-500">Show Cytofluorogram</label>
+                        <button 
+                           onClick={() => { pushToHistory(); setConfig(prev => ({ ...prev, colocalization: { ...prev.colocalization, showCytofluorogram: !prev.colocalization.showCytofluorogram } })); }}
+                           className={`w-8 h-4 rounded-full transition-colors relative ${config.colocalization.showCytofluorogram ? 'bg-blue-600' : 'bg-neutral-700'}`}
+                        >
+                           <div className={`absolute top-0.5 left-0.5 w-3 h-3 bg-white rounded-full transition-transform ${config.colocalization.showCytofluorogram ? 'translate-x-4' : 'translate-x-0'}`} />
+                        </button>
                      </div>
                   </div>
               </ConfigSection>
@@ -630,6 +1843,31 @@ export default function App() {
               </div>
               
               <div className="flex items-center gap-2">
+                  <input
+                    type="file"
+                    ref={projectInputRef}
+                    className="hidden"
+                    accept=".zip"
+                    onChange={(e) => {
+                      if (e.target.files?.[0]) handleOpenProject(e.target.files[0]);
+                      e.target.value = '';
+                    }}
+                  />
+                  <button 
+                    onClick={() => projectInputRef.current?.click()}
+                    className="p-1.5 text-neutral-400 hover:text-white transition-colors bg-neutral-800/50 rounded"
+                    title="Open Project (or drop a project file anywhere)"
+                  >
+                    <FolderOpen size={14} />
+                  </button>
+                  <button 
+                    onClick={handleSaveProject}
+                    className="p-1.5 text-neutral-400 hover:text-white transition-colors bg-neutral-800/50 rounded"
+                    title="Save Project"
+                  >
+                    <Save size={14} />
+                  </button>
+                  <div className="h-4 w-px bg-neutral-700"></div>
                   <button 
                     onClick={undo}
                     disabled={history.past.length === 0}
@@ -649,17 +1887,51 @@ export default function App() {
               </div>
             </div>
 
-            <button 
-                onClick={handleAddRow}
-                className="w-full flex items-center justify-center gap-2 bg-neutral-100 text-neutral-900 px-3 py-2 rounded-md font-medium hover:bg-white transition-colors text-xs shadow-lg shadow-white/10"
-            >
-              <Plus size={14} />
-              Add Experiment Row
-            </button>
+            <div className="flex gap-2">
+              <button 
+                  onClick={handleAddRow}
+                  className="flex-1 flex items-center justify-center gap-2 bg-neutral-100 text-neutral-900 px-3 py-2 rounded-md font-medium hover:bg-white transition-colors text-xs shadow-lg shadow-white/10"
+              >
+                <Plus size={14} />
+                Add Experiment Row
+              </button>
+              <input
+                type="file"
+                ref={batchInputRef}
+                className="hidden"
+                multiple
+                {...{ webkitdirectory: '' }}
+                onChange={(e) => {
+                  if (e.target.files?.length) openBatchImport(Array.from(e.target.files));
+                  e.target.value = '';
+                }}
+              />
+              <button 
+                  onClick={() => batchInputRef.current?.click()}
+                  className="flex items-center justify-center gap-2 bg-neutral-800 text-neutral-200 px-3 py-2 rounded-md font-medium hover:bg-neutral-700 transition-colors text-xs"
+                  title="Import a folder of single-channel TIFFs, paired into rows by filename (or drop the folder anywhere)"
+              >
+                <FolderInput size={14} />
+                Batch
+              </button>
+            </div>
         </div>
 
         {/* Row List */}
         <div className="flex-1 overflow-y-auto p-4 space-y-2 bg-neutral-950 custom-scrollbar">
+           {savedSession && (
+             <div className="flex items-center gap-3 p-3 mb-2 rounded-lg border border-blue-500/30 bg-blue-500/10 text-xs text-neutral-300">
+               <HistoryIcon size={16} className="text-blue-400 flex-shrink-0" />
+               <div className="flex-1">
+                 <p>Restore previous session?</p>
+                 <p className="text-[10px] text-neutral-500">
+                   {savedSession.rowCount} row{savedSession.rowCount === 1 ? '' : 's'}, autosaved {new Date(savedSession.savedAt).toLocaleString()}
+                 </p>
+               </div>
+               <button onClick={handleRestoreSession} className="px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-500">Restore</button>
+               <button onClick={handleDiscardSession} className="px-2 py-1 rounded bg-neutral-800 text-neutral-400 hover:bg-neutral-700">Discard</button>
+             </div>
+           )}
            {rows.length === 0 && (
              <div className="text-center py-20 text-neutral-600">
                 <ImageIcon className="mx-auto mb-4 opacity-20" size={48} />
@@ -672,9 +1944,16 @@ export default function App() {
                key={row.id} 
                row={row} 
                index={idx} 
+               config={config}
                onUpdate={handleUpdateRowSmart}
+               onUpdateChannel={handleUpdateChannel}
+               onSelectionStart={pushToHistory}
+               onSelectionChange={handleSelectionChange}
                onRemove={handleRemoveRow}
                onSwap={handleSwap}
+               renderProgress={renderProgress[row.id]}
+               clipWarnPercent={exportSettings.clipWarnPercent}
+               coloc={rowColocalization(row)}
              />
            ))}
         </div>
@@ -696,13 +1975,37 @@ export default function App() {
             Live Preview
           </h2>
           <div className="flex items-center gap-4">
+             <button
+                onClick={() => setShowClipping(v => !v)}
+                className={`flex items-center gap-1 px-2 py-1 rounded text-[10px] transition-colors ${showClipping ? 'bg-blue-600 text-white' : 'bg-neutral-800 text-neutral-400 hover:bg-neutral-700'}`}
+                title="Highlight pixels clipped at white (bright) or black (dim), in the complement of each panel's color; red on grey panels and the merge"
+             >
+               <Contrast size={12} />
+               Clipping
+             </button>
+             {nonlinear && (
+               <span className="px-2 py-0.5 rounded bg-amber-900/40 text-amber-400 text-[10px]" title="A channel's gamma is not 1: displayed intensities are not proportional to the data">
+                 Nonlinear display (γ)
+               </span>
+             )}
              <div className="text-xs text-neutral-500 flex items-center gap-1">
-                <AlertCircle size={12} />
-                <span>Auto-updating</span>
+                {renderingCount > 0 ? <Loader2 size={12} className="animate-spin" /> : <AlertCircle size={12} />}
+                <span>{renderingCount > 0 ? `Rendering ${renderingCount} row${renderingCount === 1 ? '' : 's'}…` : 'Auto-updating'}</span>
              </div>
+             {config.colocalization.enabled && (
+               <button 
+                  onClick={handleExportCsv}
+                  disabled={rows.filter(r => r.processedCanvas).length === 0}
+                  className="flex items-center gap-2 bg-neutral-800 text-neutral-200 px-3 py-1.5 rounded-lg text-xs font-medium hover:bg-neutral-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+               >
+                 <FileSpreadsheet size={14} />
+                 Export CSV
+               </button>
+             )}
              <button 
-                onClick={handleDownload}
-                disabled={rows.filter(r => r.processedCanvas).length === 0}
+                onClick={() => setShowExport(true)}
+                disabled={rows.filter(r => r.processedCanvas).length === 0 || renderingCount > 0}
+                title={renderingCount > 0 ? 'Wait for rendering to finish' : undefined}
                 className="flex items-center gap-2 bg-blue-600 text-white px-3 py-1.5 rounded-lg text-xs font-medium hover:bg-blue-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shadow-lg shadow-blue-900/20"
              >
                <Download size={14} />
@@ -711,38 +2014,101 @@ export default function App() {
           </div>
         </div>
         
+        {/* Annotation tools */}
+        <div className="px-4 py-2 border-b border-neutral-800 flex items-center gap-2 bg-neutral-900 text-xs text-neutral-400 flex-shrink-0">
+          <span className="text-[10px] text-neutral-500 mr-1">Annotate</span>
+          {ANNOTATION_KINDS.map(({ value, label }) => {
+            const Icon = ANNOTATION_ICONS[value];
+            return (
+              <button
+                key={value}
+                onClick={() => setAnnotationTool(tool => tool === value ? null : value)}
+                className={`p-1.5 rounded transition-colors ${annotationTool === value ? 'bg-blue-600 text-white' : 'hover:bg-neutral-800 hover:text-white'}`}
+                title={`${label} – ${value === 'arrow' || value === 'arrowhead' ? 'drag towards the target' : value === 'circle' ? 'drag from the centre' : 'click a panel'}`}
+              >
+                <Icon size={14} />
+              </button>
+            );
+          })}
+          {annotationTool && (
+            <>
+              <div className="h-4 w-px bg-neutral-700 mx-1"></div>
+              <input
+                type="color"
+                value={annotationStyle.color}
+                onChange={(e) => setAnnotationStyle(s => ({ ...s, color: e.target.value }))}
+                className="w-6 h-6 bg-transparent border-0 cursor-pointer"
+                title="Colour"
+              />
+              <input
+                type="number"
+                min="4"
+                value={annotationStyle.size}
+                onChange={(e) => setAnnotationStyle(s => ({ ...s, size: Math.max(4, parseInt(e.target.value) || 4) }))}
+                className="w-14 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-neutral-200 focus:border-blue-500 outline-none"
+                title="Size (px)"
+              />
+              {annotationTool === 'text' && (
+                <input
+                  type="text"
+                  value={annotationStyle.text}
+                  onChange={(e) => setAnnotationStyle(s => ({ ...s, text: e.target.value }))}
+                  placeholder="Text to place"
+                  className="w-40 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-neutral-200 placeholder-neutral-600 focus:border-blue-500 outline-none"
+                />
+              )}
+              <span className="text-[10px] text-neutral-600">Edit or remove marks in each row</span>
+            </>
+          )}
+        </div>
+
         {/* Preview Area */}
         <div className="flex-1 overflow-auto p-8 bg-neutral-200 flex flex-col items-center">
-          <div className="bg-white shadow-2xl p-8 min-h-[200px] w-full max-w-5xl flex flex-col gap-[10px] items-center transition-all">
+          <div className="bg-white shadow-2xl p-8 min-h-[200px] w-full max-w-5xl flex flex-col items-center transition-all">
              {rows.filter(r => r.processedCanvas).length === 0 && (
                 <div className="flex-1 flex flex-col items-center justify-center text-neutral-400 text-sm gap-2">
                     <Maximize2 className="opacity-20" size={32} />
                     <span className="italic">Preview will appear here</span>
                 </div>
              )}
-             {rows.map((row) => (
-               row.processedCanvas ? (
-                 <div key={row.id} className="relative group">
-                    <canvas 
-                        ref={node => {
-                            if (node && row.processedCanvas) {
-                                node.width = row.processedCanvas.width;
-                                node.height = row.processedCanvas.height;
-                                const ctx = node.getContext('2d');
-                                ctx?.drawImage(row.processedCanvas, 0, 0);
-                            }
-                        }}
-                        className="max-w-full h-auto shadow-sm"
-                    />
-                    <div className="absolute top-2 right-2 px-2 py-0.5 bg-black/50 text-white text-[10px] font-mono opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none rounded backdrop-blur-sm">
-                        {row.imgData1 ? `${row.imgData1.width}x${row.imgData1.height - config.clipBottom}` : 'N/A'}
-                    </div>
-                 </div>
-               ) : null
-             ))}
+             <div className={`relative group ${rows.some(r => r.processedCanvas) ? '' : 'hidden'}`}>
+                <canvas 
+                    ref={previewRef}
+                    className={`max-w-full h-auto shadow-sm transition-opacity ${renderingCount > 0 ? 'opacity-60' : ''}`}
+                />
+                <AnnotationLayer
+                    rows={rows.filter(r => r.processedCanvas && r.renderInfo)}
+                    config={config}
+                    tool={annotationTool}
+                    style={annotationStyle}
+                    onAdd={handleAddAnnotation}
+                />
+                <div className="absolute top-2 right-2 px-2 py-0.5 bg-black/50 text-white text-[10px] font-mono opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none rounded backdrop-blur-sm">
+                    {previewSize.width}x{previewSize.height}
+                </div>
+             </div>
           </div>
         </div>
       </div>
+
+      {batchFiles && (
+        <BatchImportDialog
+          files={batchFiles}
+          config={config}
+          onImport={handleBatchImport}
+          onClose={() => setBatchFiles(null)}
+        />
+      )}
+      {showExport && (
+        <ExportDialog
+          rows={rows.filter(r => r.processedCanvas && r.renderInfo)}
+          config={config}
+          settings={exportSettings}
+          onChange={setExportSettings}
+          onExport={handleDownload}
+          onClose={() => setShowExport(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { writeFile } from 'node:fs/promises';
+import { basename, extname, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { DEFAULT_EXPORT_SETTINGS, EXPORT_FORMATS, ExportFormat, ExportSettings } from '../utils/figureExport';
+import { UTIF_URL } from '../utils/imageProcessing';
+import { provenanceText } from '../utils/provenance';
+import { loadRows, manifestDir, readManifest, resolveConfig } from './manifest';
+import { renderFigure } from './render';
+import { loadUtif } from './utif';
+
+// Command-line montage export: reads a figure manifest, renders it with the
+// app's processing core and writes the figure plus its provenance sidecars.
+
+const USAGE = `Usage: figure <manifest.json|yaml> [options]
+
+Options:
+  -o, --out <file>     output file (default: output.file in the manifest, or the manifest name)
+  -f, --format <fmt>   ${EXPORT_FORMATS.map(f => f.value).join(', ')} (default: from the output file name)
+      --utif <file>    local copy of UTIF.js (default: the utif package, else ${UTIF_URL})
+  -h, --help           show this help
+`;
+
+const FORMAT_EXTENSIONS: Record<string, ExportFormat> = { '.png': 'png', '.tif': 'tiff', '.tiff': 'tiff', '.svg': 'svg', '.pdf': 'pdf' };
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      utif: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+  if (values.help || positionals.length !== 1) {
+    process.stdout.write(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+
+  const manifestPath = positionals[0];
+  const baseDir = manifestDir(manifestPath);
+  const manifest = await readManifest(manifestPath);
+  const { file: outFile, ...output } = manifest.output ?? {};
+  const named = values.out ?? (outFile ? resolve(baseDir, outFile) : null);
+  const format = (values.format ?? (named && FORMAT_EXTENSIONS[extname(named).toLowerCase()]) ?? output.format ?? 'png') as ExportFormat;
+  if (!EXPORT_FORMATS.some(f => f.value === format)) throw new Error(`Unknown format '${format}'`);
+  const out = named ?? `${basename(manifestPath, extname(manifestPath))}.${format === 'tiff' ? 'tif' : format}`;
+  const settings: ExportSettings = { ...DEFAULT_EXPORT_SETTINGS, ...output, format };
+
+  await loadUtif(values.utif);
+  const config = await resolveConfig(manifest, baseDir);
+  const rows = await loadRows(manifest, baseDir, config);
+  const { blob, record, warnings } = await renderFigure(rows, config, settings);
+  warnings.forEach(w => process.stderr.write(`Warning: ${w}\n`));
+
+  const stem = out.slice(0, out.length - extname(out).length);
+  await writeFile(out, new Uint8Array(await blob.arrayBuffer()));
+  await writeFile(`${stem}.provenance.json`, JSON.stringify(record, null, 2));
+  await writeFile(`${stem}.provenance.txt`, provenanceText(record));
+  process.stdout.write(`Wrote ${out} (${record.output.width} x ${record.output.height} px, ${record.rows.length} row(s))\n`);
+};
+
+main().catch(e => {
+  process.stderr.write(`Error: ${e instanceof Error ? e.message : e}\n`);
+  process.exitCode = 1;
+});
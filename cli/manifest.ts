@@ -0,0 +1,126 @@
+import { readFile, stat } from 'node:fs/promises';
+import { basename, dirname, resolve } from 'node:path';
+import { Annotation, ChannelSlot, ChannelTransform, InsetRegion, ProcessedRow, ProcessingConfig, RawStack, Rect, RoiStrategy, StackSelection } from '../types';
+import { DEFAULT_ANNOTATION_STYLE } from '../utils/annotations';
+import { createEmptyRow, MAX_CHANNELS } from '../utils/channels';
+import { withConfigDefaults } from '../utils/config';
+import { ExportSettings } from '../utils/figureExport';
+import { decodeTiff, defaultStackSelection, projectStack } from '../utils/imageProcessing';
+import { parseYaml } from './yaml';
+
+// Figure manifests: the rows of a montage as source file paths, labels and
+// per-row overrides, plus the processing config and output settings. Written
+// as JSON or YAML; relative paths are resolved against the manifest's folder.
+
+export interface ChannelSpec {
+  file: string;
+  selection?: Partial<StackSelection>; // plane or projection (0-based); defaults as in the app
+  shift?: ChannelTransform; // registration correction applied before the crop search
+}
+
+export interface RowSpec {
+  id?: string; // seeds the intensity jitter; defaults to row-<n>
+  label?: string;
+  channels: (string | ChannelSpec)[]; // channel 1 first
+  umPerPixel?: number; // calibration for files without metadata
+  roi?: Rect; // crop in source pixels instead of the auto ROI
+  roiStrategy?: RoiStrategy;
+  insets?: { cx: number, cy: number }[]; // centres as fractions of the crop
+  annotations?: (Partial<Annotation> & Pick<Annotation, 'kind' | 'x' | 'y'>)[];
+}
+
+export interface FigureManifest {
+  config?: Partial<ProcessingConfig> | string; // settings, or a path to a JSON/YAML file of them
+  output?: Partial<ExportSettings> & { file?: string };
+  rows: RowSpec[];
+}
+
+const parseFile = async (path: string): Promise<unknown> => {
+  const text = await readFile(path, 'utf8');
+  try {
+    return /\.ya?ml$/i.test(path) ? parseYaml(text) : JSON.parse(text);
+  } catch (e) {
+    throw new Error(`${path}: ${e instanceof Error ? e.message : e}`);
+  }
+};
+
+export const readManifest = async (path: string): Promise<FigureManifest> => {
+  const manifest = await parseFile(path) as FigureManifest;
+  if (!manifest || !Array.isArray(manifest.rows) || manifest.rows.length === 0) {
+    throw new Error(`${path}: a manifest needs a non-empty 'rows' list`);
+  }
+  manifest.rows.forEach((row, i) => {
+    if (!Array.isArray(row?.channels) || row.channels.length === 0) throw new Error(`${path}: row ${i + 1} has no channels`);
+    if (row.channels.length > MAX_CHANNELS) throw new Error(`${path}: row ${i + 1} has more than ${MAX_CHANNELS} channels`);
+  });
+  return manifest;
+};
+
+// Full config of a manifest. Without a channel count, every channel of the
+// widest row is used.
+export const resolveConfig = async (manifest: FigureManifest, baseDir: string): Promise<ProcessingConfig> => {
+  const saved = typeof manifest.config === 'string'
+    ? await parseFile(resolve(baseDir, manifest.config)) as Partial<ProcessingConfig>
+    : manifest.config ?? {};
+  return withConfigDefaults({
+    channelCount: Math.max(...manifest.rows.map(r => r.channels.length)),
+    ...saved
+  });
+};
+
+export const manifestDir = (path: string) => dirname(resolve(path));
+
+// Rows ready to render: every referenced file decoded once and projected.
+// Ids are deterministic so the same manifest renders the same jitter.
+export const loadRows = async (manifest: FigureManifest, baseDir: string, config: ProcessingConfig): Promise<ProcessedRow[]> => {
+  const stacks = new Map<string, Promise<{ file: File, stack: RawStack }>>();
+  const load = (path: string) => {
+    const full = resolve(baseDir, path);
+    if (!stacks.has(full)) {
+      stacks.set(full, Promise.all([readFile(full), stat(full)]).then(async ([bytes, info]) => {
+        const file = new File([bytes], basename(full), { lastModified: info.mtimeMs });
+        try {
+          return { file, stack: await decodeTiff(file) };
+        } catch (e) {
+          throw new Error(`${path}: ${e instanceof Error ? e.message : e}`);
+        }
+      }));
+    }
+    return stacks.get(full)!;
+  };
+
+  const loadSlot = async (spec: string | ChannelSpec): Promise<ChannelSlot> => {
+    const { file: path, selection: override, shift } = typeof spec === 'string' ? { file: spec } as ChannelSpec : spec;
+    const { file, stack } = await load(path);
+    const selection = { ...defaultStackSelection(stack), ...override };
+    return { file, stack, selection, image: projectStack(stack, selection), estimatedShift: null, shift: shift ?? null };
+  };
+
+  return Promise.all(manifest.rows.map(async (spec, i): Promise<ProcessedRow> => {
+    if (spec.channels.length < config.channelCount) {
+      throw new Error(`Row ${i + 1} has ${spec.channels.length} channel(s); the config uses ${config.channelCount}`);
+    }
+    const row = createEmptyRow();
+    const loaded = await Promise.all(spec.channels.map(loadSlot));
+    return {
+      ...row,
+      id: spec.id ?? `row-${i + 1}`,
+      rowLabel: spec.label ?? '',
+      calibrationOverride: spec.umPerPixel ?? null,
+      roiOverride: spec.roi ?? null,
+      roiStrategy: spec.roiStrategy ?? null,
+      insets: (spec.insets ?? []).map((inset, k): InsetRegion => ({ id: `inset-${k + 1}`, cx: inset.cx, cy: inset.cy })),
+      annotations: (spec.annotations ?? []).map((a, k): Annotation => ({
+        panel: 'merge',
+        tailX: a.x,
+        tailY: a.y,
+        text: '',
+        color: DEFAULT_ANNOTATION_STYLE.color,
+        size: DEFAULT_ANNOTATION_STYLE.size,
+        ...a,
+        id: a.id ?? `annotation-${k + 1}`
+      })),
+      channels: row.channels.map((slot, c) => loaded[c] ?? slot)
+    };
+  }));
+};
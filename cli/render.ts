@@ -0,0 +1,114 @@
+import { OverlayItem, ProcessedRow, ProcessingConfig, RawImage, RgbaImage } from '../types';
+import { getRowImages } from '../utils/channels';
+import {
+  buildFigure, composeFigure, ExportSettings, exportScale, figureHeaders, FigureRow, figureSize, figureToPdf, figureToSvg,
+  findUpscaling, UpscaleWarning
+} from '../utils/figureExport';
+import { computeLinkedRanges, getRowLayout, offsetOverlays, rowClippedFraction } from '../utils/imageProcessing';
+import { renderStrip, rowRenderArgs } from '../utils/imageJobs';
+import { addPngTextChunks, setPngDpi } from '../utils/pngText';
+import { encodePng } from '../utils/pngWriter';
+import { buildProvenance, provenanceAsciiJson, ProvenanceRecord, SOFTWARE } from '../utils/provenance';
+import { rasterizeOverlays } from '../utils/raster';
+import { estimateRowRegistration } from '../utils/registration';
+import { encodeTiff } from '../utils/tiffWriter';
+
+// The app's export path without a browser: the same registration, display
+// ranges, row rendering and figure layout, with overlay shapes rasterized in
+// place of canvas drawing. There is no font renderer, so PNG and TIFF output
+// is refused for figures with text; SVG and PDF keep text as text.
+
+export interface RenderedFigure {
+  blob: Blob;
+  record: ProvenanceRecord;
+  warnings: string[];
+}
+
+// Linked display ranges as the app derives them from its intensity mode
+const displayRanges = (rows: ProcessedRow[], config: ProcessingConfig) => {
+  if (config.intensityMode === 'linked-manual') return config.channels.slice(0, config.channelCount).map(c => c.manualRange);
+  if (config.intensityMode === 'per-image') return null;
+  return computeLinkedRanges(rows, config);
+};
+
+// Rows as the app renders them, at their position in the figure
+export const renderRows = (rows: ProcessedRow[], config: ProcessingConfig, scale: number): FigureRow[] => {
+  const linkedRanges = displayRanges(rows, config);
+  return rows.map((row, index) => {
+    const { strip, info } = renderStrip(getRowImages(row, config.channelCount) as RawImage[], rowRenderArgs(row, index, config, linkedRanges, true, scale));
+    return { raster: strip, info, label: row.rowLabel };
+  });
+};
+
+// Panel overlays of rendered rows, in strip pixels
+const stripOverlays = (row: FigureRow, config: ProcessingConfig, scale: number): OverlayItem[] => {
+  const { panelX } = getRowLayout(config, scale);
+  return row.info.overlays.flatMap((items, panelIdx) => offsetOverlays(items, panelX(panelIdx), 0));
+};
+
+// Text cannot be drawn without a font renderer, and a figure missing its
+// labels is not what was asked for: any label, header, scale bar length or
+// text annotation is an error for raster output
+const refuseText = (figureRows: FigureRow[], config: ProcessingConfig, scale: number) => {
+  const text = [...figureRows.flatMap(row => stripOverlays(row, config, scale)), ...figureHeaders(figureRows, config, scale)]
+    .filter(item => item.kind === 'text').length;
+  if (text > 0) {
+    throw new Error(`The figure has ${text} text item(s), which PNG and TIFF output from the command line cannot draw; export SVG or PDF, or turn labels, scale bar text and text annotations off`);
+  }
+};
+
+// Raster montage with overlay shapes painted in
+export const rasterFigure = (figureRows: FigureRow[], config: ProcessingConfig, scale: number): RgbaImage => {
+  refuseText(figureRows, config, scale);
+  figureRows.forEach(row => rasterizeOverlays(row.raster, stripOverlays(row, config, scale)));
+  const image = composeFigure(figureRows, config, scale);
+  rasterizeOverlays(image, figureHeaders(figureRows, config, scale));
+  return image;
+};
+
+const describeUpscaling = (warnings: UpscaleWarning[]) => warnings.map(w =>
+  `Row ${w.row}${w.label ? ` (${w.label})` : ''} is enlarged x${w.factor.toFixed(2)} beyond its source resolution`);
+
+// Register and render `rows` and encode the montage in the chosen format,
+// with its provenance record. Rows are first rendered at the configured panel
+// size, as the app's preview is, for the record and the checks, then again at
+// the export scale when a print width is set.
+export const renderFigure = async (rows: ProcessedRow[], config: ProcessingConfig, settings: ExportSettings): Promise<RenderedFigure> => {
+  rows = rows.map(row => ({ ...row, channels: estimateRowRegistration(row, config) }));
+  const preview = renderRows(rows, config, 1);
+  rows = rows.map((row, i) => ({ ...row, renderInfo: preview[i].info }));
+
+  const { format, dpi } = settings;
+  // Refused before the rows are rendered again at the export scale
+  if (format === 'png' || format === 'tiff') refuseText(preview, config, 1);
+  const scale = exportScale(settings, figureSize(config, rows, 1).width);
+  const figureRows = scale === 1 ? preview : renderRows(rows, config, scale);
+
+  const warnings = [
+    ...rows
+      .map((row, idx) => ({ row: idx + 1, label: row.rowLabel, percent: rowClippedFraction(row.renderInfo!) * 100 }))
+      .filter(r => r.percent > settings.clipWarnPercent)
+      .map(r => `Row ${r.row}${r.label ? ` (${r.label})` : ''} has ${r.percent.toFixed(1)}% clipped pixels in a channel`),
+    ...describeUpscaling(findUpscaling(rows, config, scale))
+  ];
+
+  if (format === 'png' || format === 'tiff') {
+    const image = rasterFigure(figureRows, config, scale);
+    const record = await buildProvenance(rows, config, { width: image.width, height: image.height, scale, dpi });
+    const blob = format === 'tiff'
+      ? encodeTiff(image, { bitDepth: settings.tiffBitDepth, dpi, software: SOFTWARE, description: provenanceAsciiJson(record) })
+      : await setPngDpi(await addPngTextChunks(await encodePng(image), {
+          'Software': SOFTWARE,
+          'Description': 'Provenance record of the processing applied to this figure (see the Provenance chunk)',
+          'Provenance': JSON.stringify(record)
+        }), dpi);
+    return { blob, record, warnings };
+  }
+
+  const figure = buildFigure(figureRows, config, scale);
+  const record = await buildProvenance(rows, config, { width: figure.width, height: figure.height, scale, dpi });
+  const blob = format === 'svg'
+    ? new Blob([await figureToSvg(figure, JSON.stringify(record), dpi)], { type: 'image/svg+xml' })
+    : await figureToPdf(figure, { Creator: SOFTWARE, Producer: SOFTWARE, Provenance: JSON.stringify(record) }, dpi);
+  return { blob, record, warnings };
+};
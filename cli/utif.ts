@@ -0,0 +1,26 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { UTIF_URL } from '../utils/imageProcessing';
+
+// The decoder is looked up as on the page, as globalThis.UTIF. It comes from a
+// local copy of the script when given, then the utif package (a dev
+// dependency pinned to the version the app loads), then the CDN build.
+export const loadUtif = async (path: string | undefined) => {
+  if (globalThis.UTIF) return;
+  if (!path) {
+    try {
+      globalThis.UTIF = createRequire(import.meta.url)('utif');
+      return;
+    } catch {
+      // Not installed; fall back to the CDN
+    }
+  }
+  // UTIF is a plain script that registers itself as self.UTIF
+  const source = path ? await readFile(path, 'utf8') : await fetch(UTIF_URL, { signal: AbortSignal.timeout(30_000) }).then(res => {
+    if (!res.ok) throw new Error(`Could not fetch UTIF.js (${res.status}); pass a local copy with --utif`);
+    return res.text();
+  });
+  (globalThis as { self?: unknown }).self ??= globalThis;
+  new Function(source)();
+  if (!globalThis.UTIF) throw new Error('UTIF.js did not register itself');
+};
@@ -0,0 +1,181 @@
+// The subset of YAML that figure manifests need: block maps and sequences,
+// flow collections on one line ([a, b], {x: 1}), quoted and plain scalars,
+// and comments. Anchors, tags, multi-document files and block scalars
+// (| and >) are not supported and fail with the line number.
+
+interface Line {
+  number: number; // 1-based, for error messages
+  indent: number;
+  text: string;
+}
+
+const fail = (line: number, message: string): never => {
+  throw new Error(`YAML line ${line}: ${message}`);
+};
+
+// Strip a comment that starts outside quotes (after whitespace or at the start)
+const stripComment = (text: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+};
+
+const plainScalar = (text: string): unknown => {
+  if (text === '' || text === '~' || text === 'null') return null;
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  return text;
+};
+
+// Parse one flow value starting at `pos`; returns it and the position after it
+const parseFlow = (text: string, pos: number, line: number): [unknown, number] => {
+  const skip = (p: number) => {
+    while (p < text.length && /\s/.test(text[p])) p++;
+    return p;
+  };
+  pos = skip(pos);
+  const ch = text[pos];
+  if (ch === '[' || ch === '{') {
+    const close = ch === '[' ? ']' : '}';
+    const list: unknown[] = [];
+    const map: Record<string, unknown> = {};
+    pos = skip(pos + 1);
+    while (text[pos] !== close) {
+      if (pos >= text.length) fail(line, `missing '${close}'`);
+      if (ch === '[') {
+        const [value, next] = parseFlow(text, pos, line);
+        list.push(value);
+        pos = next;
+      } else {
+        const [key, afterKey] = parseFlow(text, pos, line);
+        if (text[afterKey] !== ':') fail(line, "expected ':' in flow map");
+        const [value, next] = parseFlow(text, afterKey + 1, line);
+        map[String(key)] = value;
+        pos = next;
+      }
+      pos = skip(pos);
+      if (text[pos] === ',') pos = skip(pos + 1);
+      else if (text[pos] !== close) fail(line, `expected ',' or '${close}'`);
+    }
+    return [ch === '[' ? list : map, pos + 1];
+  }
+  if (ch === '"' || ch === "'") {
+    const end = text.indexOf(ch, pos + 1);
+    if (end < 0) fail(line, 'unterminated string');
+    const raw = text.slice(pos + 1, end);
+    return [ch === '"' ? JSON.parse(`"${raw}"`) : raw, skip(end + 1)];
+  }
+  let end = pos;
+  while (end < text.length && !/[,\]}]/.test(text[end]) && !(text[end] === ':' && /\s|$/.test(text[end + 1] ?? ''))) end++;
+  return [plainScalar(text.slice(pos, end).trim()), end];
+};
+
+// Block context value: plain scalars run to the end of the line, commas included
+const parseInline = (text: string, line: number): unknown => {
+  if (!/^["'[{]/.test(text)) return plainScalar(text);
+  const [value, end] = parseFlow(text, 0, line);
+  if (end < text.length && text.slice(end).trim() !== '') fail(line, `unexpected '${text.slice(end).trim()}'`);
+  return value;
+};
+
+// Position of the ':' that ends a map key, or -1 when the text is no map entry
+const keySeparator = (text: string): number => {
+  if (text.startsWith('[') || text.startsWith('{')) return -1;
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ':' && (i + 1 === text.length || text[i + 1] === ' ')) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const isSequenceItem = (text: string) => text === '-' || text.startsWith('- ');
+
+export const parseYaml = (source: string): unknown => {
+  const lines: Line[] = [];
+  source.split(/\r?\n/).forEach((raw, i) => {
+    if (raw.includes('\t') && /^\s*\t/.test(raw)) fail(i + 1, 'tabs cannot indent');
+    const text = stripComment(raw).trimEnd();
+    if (text.trim() === '' || text === '---') return;
+    const indent = text.length - text.trimStart().length;
+    lines.push({ number: i + 1, indent, text: text.trimStart() });
+  });
+  let pos = 0;
+
+  // Block node whose lines start at `indent`
+  const parseBlock = (indent: number): unknown => {
+    const first = lines[pos];
+    if (isSequenceItem(first.text)) return parseSequence(indent);
+    if (keySeparator(first.text) >= 0) return parseMap(indent);
+    pos++;
+    return parseInline(first.text, first.number);
+  };
+
+  // Value after `key:` or `-` with nothing else on the line: an indented
+  // block (or, for map values, a sequence at the key's own indent)
+  const parseNested = (indent: number, allowSameIndentSequence: boolean): unknown => {
+    const next = lines[pos];
+    if (!next) return null;
+    if (next.indent > indent) return parseBlock(next.indent);
+    if (allowSameIndentSequence && next.indent === indent && isSequenceItem(next.text)) return parseSequence(indent);
+    return null;
+  };
+
+  const parseSequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    while (pos < lines.length && lines[pos].indent === indent && isSequenceItem(lines[pos].text)) {
+      const line = lines[pos];
+      const rest = line.text.slice(1).trimStart();
+      if (rest === '') {
+        pos++;
+        items.push(parseNested(indent, false));
+      } else if (isSequenceItem(rest) || keySeparator(rest) >= 0) {
+        // "- key: value" opens a map (or "- - x" a sequence) indented to the item text
+        lines[pos] = { ...line, indent: indent + line.text.length - rest.length, text: rest };
+        items.push(parseBlock(lines[pos].indent));
+      } else {
+        pos++;
+        items.push(parseInline(rest, line.number));
+      }
+    }
+    if (pos < lines.length && lines[pos].indent > indent) fail(lines[pos].number, 'bad indentation');
+    return items;
+  };
+
+  const parseMap = (indent: number): Record<string, unknown> => {
+    const map: Record<string, unknown> = {};
+    while (pos < lines.length && lines[pos].indent === indent && !isSequenceItem(lines[pos].text)) {
+      const line = lines[pos];
+      const sep = keySeparator(line.text);
+      if (sep < 0) fail(line.number, "expected 'key: value'");
+      const key = String(parseInline(line.text.slice(0, sep), line.number));
+      const rest = line.text.slice(sep + 1).trim();
+      if (rest === '|' || rest === '>' || rest.startsWith('&') || rest.startsWith('!')) fail(line.number, `unsupported YAML '${rest}'`);
+      pos++;
+      map[key] = rest === '' ? parseNested(indent, true) : parseInline(rest, line.number);
+    }
+    if (pos < lines.length && lines[pos].indent > indent) fail(lines[pos].number, 'bad indentation');
+    return map;
+  };
+
+  if (lines.length === 0) return null;
+  const root = parseBlock(lines[0].indent);
+  if (pos < lines.length) fail(lines[pos].number, 'unexpected content');
+  return root;
+};
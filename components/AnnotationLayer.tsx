@@ -0,0 +1,108 @@
+import React, { useRef, useState } from 'react';
+import { Annotation, AnnotationKind, ProcessedRow, ProcessingConfig } from '../types';
+import { getPanels } from '../utils/channels';
+import { AnnotationStyle, figureToSource, hitPanel, PanelHit } from '../utils/annotations';
+import { layoutRenderedRows } from '../utils/figureExport';
+
+interface AnnotationLayerProps {
+  rows: ProcessedRow[]; // rendered rows, in montage order
+  config: ProcessingConfig;
+  tool: AnnotationKind | null;
+  style: AnnotationStyle;
+  onAdd: (rowId: string, annotation: Annotation) => void;
+}
+
+interface DragState {
+  hit: PanelHit;
+  startX: number;
+  startY: number;
+}
+
+// Shorter drags count as a click: the mark is placed without a direction
+const CLICK_DISTANCE = 3;
+
+// Placement surface over the preview canvas, in figure pixels like the
+// montage underneath. Press on a panel to place a mark; arrows are dragged
+// from tail to tip and circles from centre to rim. Inactive without a tool.
+export const AnnotationLayer: React.FC<AnnotationLayerProps> = ({ rows, config, tool, style, onAdd }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [draft, setDraft] = useState<{ x1: number, y1: number, x2: number, y2: number } | null>(null);
+  const layout = layoutRenderedRows(config, rows, 1);
+
+  // Client coordinates -> figure pixels
+  const toFigure = (e: React.PointerEvent) => {
+    const ctm = svgRef.current?.getScreenCTM();
+    if (!ctm) return { x: 0, y: 0 };
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    return { x: p.x, y: p.y };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!tool || (tool === 'text' && !style.text.trim())) return;
+    const p = toFigure(e);
+    const hit = hitPanel(layout, getPanels(config), p.x, p.y);
+    if (!hit) return;
+    (e.target as Element).setPointerCapture(e.pointerId);
+    dragRef.current = { hit, startX: p.x, startY: p.y };
+    setDraft({ x1: p.x, y1: p.y, x2: p.x, y2: p.y });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = toFigure(e);
+    setDraft({ x1: drag.startX, y1: drag.startY, x2: p.x, y2: p.y });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !tool) return;
+    dragRef.current = null;
+    setDraft(null);
+    const row = rows[drag.hit.row];
+    const end = toFigure(e);
+    const dragged = Math.hypot(end.x - drag.startX, end.y - drag.startY) >= CLICK_DISTANCE;
+    const start = figureToSource(row.renderInfo!, drag.hit.cell, drag.startX, drag.startY);
+    const other = dragged ? figureToSource(row.renderInfo!, drag.hit.cell, end.x, end.y) : start;
+    // Arrows point at where the drag ends; everything else sits where it began
+    const [point, tail] = tool === 'arrow' || tool === 'arrowhead' ? [other, start] : [start, other];
+    onAdd(row.id, {
+      id: crypto.randomUUID(),
+      kind: tool,
+      panel: drag.hit.panel,
+      x: point.x,
+      y: point.y,
+      tailX: tail.x,
+      tailY: tail.y,
+      text: tool === 'text' ? style.text.trim() : '',
+      color: style.color,
+      size: style.size
+    });
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${layout.width} ${layout.height}`}
+      preserveAspectRatio="xMidYMid meet"
+      className={`absolute inset-0 w-full h-full ${tool ? 'cursor-crosshair' : 'pointer-events-none'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {draft && tool === 'circle' && (
+        <circle
+          cx={draft.x1} cy={draft.y1} r={Math.hypot(draft.x2 - draft.x1, draft.y2 - draft.y1)}
+          fill="none" stroke={style.color} strokeWidth={1.5} strokeDasharray="4 3" vectorEffect="non-scaling-stroke"
+        />
+      )}
+      {draft && (tool === 'arrow' || tool === 'arrowhead') && (
+        <line
+          x1={draft.x1} y1={draft.y1} x2={draft.x2} y2={draft.y2}
+          stroke={style.color} strokeWidth={1.5} strokeDasharray="4 3" vectorEffect="non-scaling-stroke"
+        />
+      )}
+    </svg>
+  );
+};
@@ -0,0 +1,167 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FolderInput, X } from 'lucide-react';
+import { ProcessingConfig } from '../types';
+import { MAX_CHANNELS } from '../utils/channels';
+import { compilePattern, isTiffFile, PAIRING_PATTERNS, pairFiles, ProposedRow } from '../utils/batchImport';
+
+interface BatchImportDialogProps {
+  files: File[];
+  config: ProcessingConfig;
+  onImport: (rows: ProposedRow[], channelCount: number) => void;
+  onClose: () => void;
+}
+
+const CUSTOM = 'custom';
+
+// Proposed rows from a folder / multi-file drop, editable before anything is
+// created: labels, per-channel file assignment and which rows to include
+export const BatchImportDialog: React.FC<BatchImportDialogProps> = ({ files, config, onImport, onClose }) => {
+  const [patternId, setPatternId] = useState(PAIRING_PATTERNS[0].id);
+  const [customSource, setCustomSource] = useState(PAIRING_PATTERNS[0].source);
+  const source = patternId === CUSTOM ? customSource : PAIRING_PATTERNS.find(p => p.id === patternId)!.source;
+  const pattern = useMemo(() => compilePattern(source), [source]);
+  const pairing = useMemo(() => pattern ? pairFiles(files, pattern) : null, [files, pattern]);
+
+  // Editable copy of the proposal, reset whenever the pattern changes
+  const [rows, setRows] = useState<ProposedRow[]>([]);
+  useEffect(() => setRows(pairing?.rows ?? []), [pairing]);
+
+  const tiffs = useMemo(() => files.filter(isTiffFile), [files]);
+  const channelCount = Math.max(1, pairing?.channelCount ?? 1);
+  const included = rows.filter(r => r.include && r.files.some(Boolean));
+
+  const updateRow = (idx: number, updates: Partial<ProposedRow>) =>
+    setRows(prev => prev.map((r, i) => i === idx ? { ...r, ...updates } : r));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-8" onClick={onClose}>
+      <div
+        className="bg-neutral-900 border border-neutral-700 rounded-xl shadow-2xl w-full max-w-4xl max-h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-neutral-800">
+          <h2 className="text-sm font-semibold text-neutral-200 flex items-center gap-2">
+            <FolderInput size={16} />
+            Batch Import — {tiffs.length} TIFF{tiffs.length === 1 ? '' : 's'}
+          </h2>
+          <button onClick={onClose} className="p-1 text-neutral-400 hover:text-white rounded">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-2 border-b border-neutral-800 text-xs">
+          <div className="flex items-center gap-2">
+            <label className="text-[10px] text-neutral-500 w-24 flex-shrink-0">Naming pattern</label>
+            <select
+              value={patternId}
+              onChange={(e) => setPatternId(e.target.value)}
+              className="flex-1 bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-neutral-200 outline-none focus:border-blue-500"
+            >
+              {PAIRING_PATTERNS.map(p => (
+                <option key={p.id} value={p.id}>{p.name} — e.g. {p.example}</option>
+              ))}
+              <option value={CUSTOM}>Custom regular expression…</option>
+            </select>
+          </div>
+          {patternId === CUSTOM && (
+            <div className="flex items-center gap-2">
+              <label className="text-[10px] text-neutral-500 w-24 flex-shrink-0">Expression</label>
+              <input
+                type="text"
+                value={customSource}
+                onChange={(e) => setCustomSource(e.target.value)}
+                spellCheck={false}
+                className={`flex-1 bg-neutral-800 border rounded px-2 py-1 font-mono text-neutral-200 outline-none ${pattern ? 'border-neutral-700 focus:border-blue-500' : 'border-red-500/60'}`}
+              />
+            </div>
+          )}
+          <p className="text-[10px] text-neutral-600">
+            Needs a <code>(?&lt;channel&gt;\d+)</code> group; an optional <code>(?&lt;label&gt;…)</code> group becomes the row label. Files that differ only in the channel number form one row.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 custom-scrollbar">
+          {!pattern ? (
+            <p className="text-xs text-red-400">Invalid expression, or no channel group.</p>
+          ) : rows.length === 0 ? (
+            <p className="text-xs text-neutral-500">No files match this pattern.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-[10px] text-neutral-500 text-left">
+                  <th className="pb-2 w-6"></th>
+                  <th className="pb-2 pr-2">Row label</th>
+                  {Array.from({ length: channelCount }, (_, c) => (
+                    <th key={c} className="pb-2 pr-2">{config.channels[c].label || `Channel ${c + 1}`}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, idx) => (
+                  <tr key={row.key} className={`border-t border-neutral-800 ${row.include ? '' : 'opacity-40'}`}>
+                    <td className="py-1.5">
+                      <input
+                        type="checkbox"
+                        checked={row.include}
+                        onChange={(e) => updateRow(idx, { include: e.target.checked })}
+                        className="accent-blue-500"
+                      />
+                    </td>
+                    <td className="py-1.5 pr-2">
+                      <input
+                        type="text"
+                        value={row.label}
+                        onChange={(e) => updateRow(idx, { label: e.target.value })}
+                        className="w-full bg-neutral-950/50 border border-neutral-800 rounded px-1.5 py-0.5 text-neutral-200 outline-none focus:border-blue-500/50"
+                      />
+                    </td>
+                    {Array.from({ length: channelCount }, (_, c) => (
+                      <td key={c} className="py-1.5 pr-2">
+                        <select
+                          value={row.files[c] ? tiffs.indexOf(row.files[c]!) : -1}
+                          onChange={(e) => {
+                            const pick = parseInt(e.target.value);
+                            updateRow(idx, { files: row.files.map((f, i) => i === c ? (pick >= 0 ? tiffs[pick] : null) : f) });
+                          }}
+                          className="w-full max-w-[14rem] bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 text-neutral-300 outline-none focus:border-blue-500"
+                        >
+                          <option value={-1}>— empty —</option>
+                          {tiffs.map((f, i) => (
+                            <option key={i} value={i}>{f.name}</option>
+                          ))}
+                        </select>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {pairing && pairing.unmatched.length > 0 && (
+            <p className="mt-3 text-[10px] text-amber-500/80">
+              Not placed: {pairing.unmatched.map(f => f.name).join(', ')}
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-4 border-t border-neutral-800 text-xs">
+          <span className="text-[10px] text-neutral-500">
+            {channelCount > config.channelCount && channelCount <= MAX_CHANNELS
+              ? `The channel count will change from ${config.channelCount} to ${channelCount}.`
+              : `${included.length} row${included.length === 1 ? '' : 's'} will be added as one undoable step.`}
+          </span>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-3 py-1.5 rounded-lg bg-neutral-800 text-neutral-300 hover:bg-neutral-700">Cancel</button>
+            <button
+              onClick={() => onImport(included, channelCount)}
+              disabled={included.length === 0}
+              className="px-3 py-1.5 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add {included.length} Row{included.length === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useRef } from 'react';
+import { DisplayRange, Histogram } from '../types';
+
+interface ChannelHistogramProps {
+  histogram: Histogram | null; // combined over the rendered rows
+  applied: DisplayRange[]; // range each rendered row was mapped with
+  manual: DisplayRange | null; // editable range, dragged by its handles
+  gamma: number;
+  color: string;
+  onManualStart: () => void;
+  onManualChange: (range: DisplayRange) => void;
+}
+
+const WIDTH = 256;
+const HEIGHT = 48;
+
+// Log-scaled histogram of a channel's crops with the display mapping drawn
+// over it: the ranges the rows used and the transfer curve (straight unless
+// gamma is set). A manual range can be dragged by its black and white points.
+export const ChannelHistogram: React.FC<ChannelHistogramProps> = ({ histogram, applied, manual, gamma, color, onManualStart, onManualChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<'min' | 'max' | null>(null);
+
+  if (!histogram) {
+    return <div className="h-12 flex items-center justify-center text-[10px] text-neutral-600 bg-neutral-950/50 rounded">No rendered rows</div>;
+  }
+
+  const span = histogram.max - histogram.min || 1;
+  const toX = (v: number) => (v - histogram.min) / span * WIDTH;
+  const peak = Math.log1p(Math.max(...histogram.counts));
+  const binWidth = WIDTH / histogram.counts.length;
+  const bars = histogram.counts
+    .map((n, i) => `H${(i * binWidth).toFixed(2)}V${(HEIGHT - (peak > 0 ? Math.log1p(n) / peak * HEIGHT : 0)).toFixed(2)}`)
+    .join('');
+
+  // Transfer curve from black to white point, over the manual range or the
+  // widest range any row used
+  const curveRange = manual ?? (applied.length > 0
+    ? { min: Math.min(...applied.map(r => r.min)), max: Math.max(...applied.map(r => r.max)) }
+    : null);
+  const curve = curveRange && Array.from({ length: 33 }, (_, i) => {
+    const t = i / 32;
+    return `${toX(curveRange.min + t * (curveRange.max - curveRange.min)).toFixed(2)},${(HEIGHT - Math.pow(t, gamma) * HEIGHT).toFixed(2)}`;
+  }).join(' ');
+
+  // Client x -> native value
+  const valueAt = (e: React.PointerEvent) => {
+    const box = svgRef.current!.getBoundingClientRect();
+    return histogram.min + Math.max(0, Math.min(1, (e.clientX - box.left) / box.width)) * span;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!manual) return;
+    const value = valueAt(e);
+    dragRef.current = Math.abs(value - manual.min) <= Math.abs(value - manual.max) ? 'min' : 'max';
+    (e.target as Element).setPointerCapture(e.pointerId);
+    onManualStart();
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const bound = dragRef.current;
+    if (!bound || !manual) return;
+    const value = valueAt(e);
+    onManualChange(bound === 'min'
+      ? { min: Math.min(value, manual.max - span / WIDTH), max: manual.max }
+      : { min: manual.min, max: Math.max(value, manual.min + span / WIDTH) });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className={`w-full h-12 bg-neutral-950/50 rounded ${manual ? 'cursor-ew-resize' : ''}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        <path d={`M0 ${HEIGHT}${bars}H${WIDTH}V${HEIGHT}Z`} fill={color} fillOpacity={0.5} />
+        {!manual && applied.map((range, i) => (
+          <g key={i} stroke="#a3a3a3" strokeOpacity={0.5}>
+            <line x1={toX(range.min)} x2={toX(range.min)} y1={0} y2={HEIGHT} vectorEffect="non-scaling-stroke" />
+            <line x1={toX(range.max)} x2={toX(range.max)} y1={0} y2={HEIGHT} vectorEffect="non-scaling-stroke" />
+          </g>
+        ))}
+        {manual && (['min', 'max'] as const).map(bound => (
+          <line
+            key={bound}
+            x1={toX(manual[bound])} x2={toX(manual[bound])} y1={0} y2={HEIGHT}
+            stroke="#60a5fa" strokeWidth={2} vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {curve && <polyline points={curve} fill="none" stroke="#fbbf24" strokeWidth={1} vectorEffect="non-scaling-stroke" />}
+      </svg>
+      <div className="flex justify-between text-[9px] font-mono text-neutral-600">
+        <span>{Math.round(histogram.min)}</span>
+        <span>{Math.round(histogram.max)}</span>
+      </div>
+    </div>
+  );
+};
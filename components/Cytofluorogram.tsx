@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import { ColocalizationStats, RawImage, Rect } from '../types';
+import { computeCytofluorogram } from '../utils/colocalization';
+
+interface CytofluorogramProps {
+  a: RawImage;
+  b: RawImage;
+  region: Rect;
+  stats: ColocalizationStats;
+  labelA: string;
+  labelB: string;
+}
+
+const BINS = 128;
+
+// Channel A (x) vs channel B (y) density on a log scale, with the Costes
+// thresholds drawn as dashed lines
+export const Cytofluorogram: React.FC<CytofluorogramProps> = ({ a, b, region, stats, labelA, labelB }) => {
+  const histogram = useMemo(
+    () => computeCytofluorogram(a, b, region, BINS),
+    [a, b, region.x, region.y, region.w, region.h]
+  );
+
+  const image = useMemo(() => {
+    const { counts } = histogram;
+    let maxCount = 0;
+    for (let i = 0; i < counts.length; i++) if (counts[i] > maxCount) maxCount = counts[i];
+    const scale = Math.log1p(maxCount) || 1;
+    const out = new ImageData(BINS, BINS);
+    for (let by = 0; by < BINS; by++) {
+      for (let bx = 0; bx < BINS; bx++) {
+        const v = Math.round((Math.log1p(counts[by * BINS + bx]) / scale) * 255);
+        // Flip vertically so B increases upwards
+        const o = ((BINS - 1 - by) * BINS + bx) * 4;
+        out.data[o] = v;
+        out.data[o + 1] = v;
+        out.data[o + 2] = v;
+        out.data[o + 3] = 255;
+      }
+    }
+    return out;
+  }, [histogram]);
+
+  const tx = (stats.thresholdA / histogram.maxA) * 100;
+  const ty = 100 - (stats.thresholdB / histogram.maxB) * 100;
+
+  return (
+    <div className="flex flex-col items-center gap-0.5 text-[9px] text-neutral-500">
+      <div className="relative w-24 h-24 border border-neutral-800">
+        <canvas
+          className="w-full h-full"
+          style={{ imageRendering: 'pixelated' }}
+          ref={(canvas) => {
+            if (canvas) {
+              canvas.width = BINS;
+              canvas.height = BINS;
+              canvas.getContext('2d')?.putImageData(image, 0, 0);
+            }
+          }}
+        />
+        {isFinite(tx) && isFinite(ty) && (
+          <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="absolute inset-0 w-full h-full pointer-events-none">
+            <line x1={tx} y1={0} x2={tx} y2={100} stroke="#fbbf24" strokeDasharray="3 2" vectorEffect="non-scaling-stroke" />
+            <line x1={0} y1={ty} x2={100} y2={ty} stroke="#fbbf24" strokeDasharray="3 2" vectorEffect="non-scaling-stroke" />
+          </svg>
+        )}
+      </div>
+      <span className="truncate max-w-24" title={`x: ${labelA}, y: ${labelB}`}>{labelA} vs {labelB}</span>
+    </div>
+  );
+};
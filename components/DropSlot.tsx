@@ -1,17 +1,39 @@
-import React, { useRef, useState } from 'react';
-import { Upload, X } from 'lucide-react';
+import React, { useMemo, useRef, useState } from 'react';
+import { Loader2, Upload, X } from 'lucide-react';
+import { ProjectionMode, RawImage, RawStack, Rect, StackSelection } from '../types';
+import { getSliceCount } from '../utils/imageProcessing';
+import { toPreviewImageData } from '../utils/canvas';
+import { RoiOverlay } from './RoiOverlay';
 
 interface DropSlotProps {
   file: File | null;
-  imageData: ImageData | null;
+  imageData: RawImage | null;
+  stack: RawStack | null;
+  selection: StackSelection | null;
   onDrop: (file: File) => void;
+  onSelectionStart: () => void; // once per edit, before its first change
+  onSelectionChange: (selection: StackSelection) => void;
   onRemove: () => void;
   label: string;
+  // Crop used for the current render, drawn over the preview when present
+  roi: Rect | null;
+  roiAspect: number;
+  roiIsManual: boolean;
+  onRoiChange: (roi: Rect) => void;
 }
 
-export const DropSlot: React.FC<DropSlotProps> = ({ file, imageData, onDrop, onRemove, label }) => {
+const PROJECTION_OPTIONS: { value: ProjectionMode, label: string }[] = [
+  { value: 'slice', label: 'Single slice' },
+  { value: 'max', label: 'Max intensity' },
+  { value: 'mean', label: 'Average' },
+  { value: 'sum', label: 'Sum' },
+  { value: 'sd', label: 'Std deviation' }
+];
+
+export const DropSlot: React.FC<DropSlotProps> = ({ file, imageData, stack, selection, onDrop, onSelectionStart, onSelectionChange, onRemove, label, roi, roiAspect, roiIsManual, onRoiChange }) => {
   const [isDragOver, setIsDragOver] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
+  const preview = useMemo(() => imageData ? toPreviewImageData(imageData) : null, [imageData]);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -30,6 +52,9 @@ export const DropSlot: React.FC<DropSlotProps> = ({ file, imageData, onDrop, onR
     }
   };
 
+  const sliceCount = stack ? getSliceCount(stack) : 1;
+  const showStackControls = !!(stack && selection && (sliceCount > 1 || stack.channels > 1));
+
   const handleClick = () => {
     if (!file) inputRef.current?.click();
   };
@@ -47,29 +72,121 @@ export const DropSlot: React.FC<DropSlotProps> = ({ file, imageData, onDrop, onR
       />
       
       {file && imageData ? (
-        <div className="relative aspect-square w-full h-full bg-neutral-900 border border-neutral-700 rounded-lg overflow-hidden">
-          <canvas 
-            className="w-full h-full object-contain"
-            ref={(canvas) => {
-                if (canvas && imageData) {
-                    canvas.width = imageData.width;
-                    canvas.height = imageData.height;
-                    const ctx = canvas.getContext('2d');
-                    ctx?.putImageData(imageData, 0, 0);
-                }
-            }}
-          />
-          <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
-            <button 
-              onClick={(e) => { e.stopPropagation(); onRemove(); }}
-              className="p-1 bg-red-500/80 text-white rounded-full hover:bg-red-600"
-            >
-              <X size={14} />
-            </button>
-          </div>
-          <div className="absolute bottom-0 left-0 right-0 bg-black/60 text-xs text-white p-1 truncate px-2">
-            {file.name}
+        <>
+          <div className="relative aspect-square w-full h-full bg-neutral-900 border border-neutral-700 rounded-lg overflow-hidden">
+            <canvas 
+              className="w-full h-full object-contain"
+              ref={(canvas) => {
+                  if (canvas && preview) {
+                      canvas.width = preview.width;
+                      canvas.height = preview.height;
+                      const ctx = canvas.getContext('2d');
+                      ctx?.putImageData(preview, 0, 0);
+                  }
+              }}
+            />
+            {roi && (
+              <RoiOverlay
+                width={imageData.width}
+                height={imageData.height}
+                roi={roi}
+                aspect={roiAspect}
+                isManual={roiIsManual}
+                onChange={onRoiChange}
+              />
+            )}
+            <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button 
+                onClick={(e) => { e.stopPropagation(); onRemove(); }}
+                className="p-1 bg-red-500/80 text-white rounded-full hover:bg-red-600"
+              >
+                <X size={14} />
+              </button>
+            </div>
+            <div className="absolute bottom-0 left-0 right-0 bg-black/60 text-xs text-white p-1 px-2 flex justify-between gap-2">
+              <span className="truncate">{file.name}</span>
+              <span className="text-neutral-400 font-mono flex-shrink-0">{imageData.bitDepth === 32 ? '32-bit float' : `${imageData.bitDepth}-bit`}</span>
+            </div>
           </div>
+          {showStackControls && stack && selection && (
+            <div className="mt-2 space-y-1.5 text-[10px] text-neutral-500">
+              <div className="flex gap-1.5">
+                {stack.channels > 1 && (
+                  <select
+                    value={selection.channel}
+                    onFocus={onSelectionStart}
+                    onChange={(e) => onSelectionChange({ ...selection, channel: parseInt(e.target.value) })}
+                    className="bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 text-neutral-300 outline-none focus:border-blue-500"
+                    title="Hyperstack channel"
+                  >
+                    {Array.from({ length: stack.channels }, (_, c) => (
+                      <option key={c} value={c}>C{c + 1}</option>
+                    ))}
+                  </select>
+                )}
+                <select
+                  value={selection.mode}
+                  onFocus={onSelectionStart}
+                  onChange={(e) => onSelectionChange({ ...selection, mode: e.target.value as ProjectionMode })}
+                  className="flex-1 bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 text-neutral-300 outline-none focus:border-blue-500"
+                >
+                  {PROJECTION_OPTIONS.map(o => (
+                    <option key={o.value} value={o.value}>{o.label}</option>
+                  ))}
+                </select>
+              </div>
+              {sliceCount > 1 && (selection.mode === 'slice' ? (
+                <label className="flex items-center gap-2">
+                  <span className="w-14 flex-shrink-0">Z {selection.slice + 1}/{sliceCount}</span>
+                  <input
+                    type="range"
+                    min={0} max={sliceCount - 1} step={1}
+                    onPointerDown={onSelectionStart}
+                    value={selection.slice}
+                    onChange={(e) => onSelectionChange({ ...selection, slice: parseInt(e.target.value) })}
+                    className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+                </label>
+              ) : (
+                <>
+                  <label className="flex items-center gap-2">
+                    <span className="w-14 flex-shrink-0">From {selection.start + 1}</span>
+                    <input
+                      type="range"
+                      min={0} max={sliceCount - 1} step={1}
+                      onPointerDown={onSelectionStart}
+                      value={selection.start}
+                      onChange={(e) => {
+                        const start = parseInt(e.target.value);
+                        onSelectionChange({ ...selection, start, end: Math.max(start, selection.end) });
+                      }}
+                      className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <span className="w-14 flex-shrink-0">To {selection.end + 1}</span>
+                    <input
+                      type="range"
+                      min={0} max={sliceCount - 1} step={1}
+                      onPointerDown={onSelectionStart}
+                      value={selection.end}
+                      onChange={(e) => {
+                        const end = parseInt(e.target.value);
+                        onSelectionChange({ ...selection, end, start: Math.min(end, selection.start) });
+                      }}
+                      className="w-full h-1 bg-neutral-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                    />
+                  </label>
+                </>
+              ))}
+            </div>
+          )}
+        </>
+      ) : file ? (
+        <div className="aspect-square w-full h-full rounded-lg border border-neutral-700 bg-neutral-900 flex flex-col items-center justify-center gap-2 px-2">
+          <Loader2 className="text-blue-400 animate-spin" size={24} />
+          <span className="text-xs text-neutral-400 font-medium">Decoding…</span>
+          <span className="text-[10px] text-neutral-500 truncate max-w-full">{file.name}</span>
         </div>
       ) : (
         <div
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Download, X } from 'lucide-react';
+import { ProcessedRow, ProcessingConfig } from '../types';
+import {
+  DPI_PRESETS, EXPORT_FORMATS, ExportFormat, ExportSettings, exportScale, figureSize, findUpscaling, MM_PER_INCH, WIDTH_PRESETS
+} from '../utils/figureExport';
+
+interface ExportDialogProps {
+  rows: ProcessedRow[]; // rendered rows, in montage order
+  config: ProcessingConfig;
+  settings: ExportSettings;
+  onChange: (settings: ExportSettings) => void;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const NATIVE = 'native';
+const CUSTOM = 'custom';
+
+const fieldClass = 'bg-neutral-800 border border-neutral-700 rounded px-2 py-1 text-neutral-200 outline-none focus:border-blue-500';
+
+// Format, printed width and resolution of the montage. The pixel size follows
+// from width x DPI; rows are re-rendered from the source at that size.
+export const ExportDialog: React.FC<ExportDialogProps> = ({ rows, config, settings, onChange, onExport, onClose }) => {
+  const [customWidth, setCustomWidth] = useState(
+    settings.widthMm !== null && !WIDTH_PRESETS.some(p => p.mm === settings.widthMm));
+  const [customDpi, setCustomDpi] = useState(!DPI_PRESETS.includes(settings.dpi));
+
+  const update = (updates: Partial<ExportSettings>) => onChange({ ...settings, ...updates });
+
+  const nativeWidth = figureSize(config, rows, 1).width;
+  const scale = exportScale(settings, nativeWidth);
+  const { width, height } = figureSize(config, rows, scale);
+  const mm = (px: number) => (px / settings.dpi * MM_PER_INCH).toFixed(1);
+  const upscaled = findUpscaling(rows, config, scale);
+  const valid = settings.dpi > 0 && (settings.widthMm === null || settings.widthMm > 0);
+
+  const widthChoice = settings.widthMm === null ? NATIVE : customWidth ? CUSTOM : String(settings.widthMm);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-8" onClick={onClose}>
+      <div
+        className="bg-neutral-900 border border-neutral-700 rounded-xl shadow-2xl w-full max-w-md max-h-full flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-neutral-800">
+          <h2 className="text-sm font-semibold text-neutral-200 flex items-center gap-2">
+            <Download size={16} />
+            Export Montage
+          </h2>
+          <button onClick={onClose} className="p-1 text-neutral-400 hover:text-white rounded">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-3 text-xs custom-scrollbar">
+          <div className="flex items-center gap-2">
+            <label className="text-[10px] text-neutral-500 w-24 flex-shrink-0">Format</label>
+            <select
+              value={settings.format}
+              onChange={(e) => update({ format: e.target.value as ExportFormat })}
+              className={`flex-1 ${fieldClass}`}
+            >
+              {EXPORT_FORMATS.map(f => (
+                <option key={f.value} value={f.value}>{f.label}</option>
+              ))}
+            </select>
+          </div>
+          {settings.format === 'tiff' && (
+            <div className="flex items-center gap-2">
+              <label className="text-[10px] text-neutral-500 w-24 flex-shrink-0">Bit depth</label>
+              <select
+                value={settings.tiffBitDepth}
+                onChange={(e) => update({ tiffBitDepth: parseInt(e.target.value) as 8 | 16 })}
+                className={`flex-1 ${fieldClass}`}
+              >
+                <option value={8}>8-bit RGB</option>
+                <option value={16}>16-bit RGB</option>
+              </select>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <label className="text-[10px] text-neutral-500 w-24 flex-shrink-0">Figure width</label>
+            <select
+              value={widthChoice}
+              onChange={(e) => {
+                const choice = e.target.value;
+                setCustomWidth(choice === CUSTOM);
+                if (choice === NATIVE) update({ widthMm: null });
+                else if (choice !== CUSTOM) update({ widthMm: parseFloat(choice) });
+                else update({ widthMm: settings.widthMm ?? parseFloat(mm(nativeWidth)) });
+              }}
+              className={`flex-1 ${fieldClass}`}
+            >
+              <option value={NATIVE}>Preview size ({nativeWidth} px)</option>
+              {WIDTH_PRESETS.map(p => (
+                <option key={p.mm} value={String(p.mm)}>{p.label} — {p.mm} mm</option>
+              ))}
+              <option value={CUSTOM}>Custom…</option>
+            </select>
+            {widthChoice === CUSTOM && (
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={settings.widthMm ?? ''}
+                onChange={(e) => update({ widthMm: parseFloat(e.target.value) || 0 })}
+                className={`w-20 ${fieldClass}`}
+                title="Width in millimetres"
+              />
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label className="text-[10px] text-neutral-500 w-24 flex-shrink-0">Resolution</label>
+            <select
+              value={customDpi ? CUSTOM : String(settings.dpi)}
+              onChange={(e) => {
+                const choice = e.target.value;
+                setCustomDpi(choice === CUSTOM);
+                if (choice !== CUSTOM) update({ dpi: parseInt(choice) });
+              }}
+              className={`flex-1 ${fieldClass}`}
+            >
+              {DPI_PRESETS.map(dpi => (
+                <option key={dpi} value={String(dpi)}>{dpi} DPI</option>
+              ))}
+              <option value={CUSTOM}>Custom…</option>
+            </select>
+            {customDpi && (
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={settings.dpi || ''}
+                onChange={(e) => update({ dpi: parseFloat(e.target.value) || 0 })}
+                className={`w-20 ${fieldClass}`}
+                title="Dots per inch"
+              />
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label className="text-[10px] text-neutral-500 w-24 flex-shrink-0">Clipping warning</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={0.1}
+              value={settings.clipWarnPercent}
+              onChange={(e) => update({ clipWarnPercent: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className={`w-20 ${fieldClass}`}
+              title="Ask before exporting rows with more clipped pixels than this in any channel"
+            />
+            <span className="text-[10px] text-neutral-500">% of a channel's pixels</span>
+          </div>
+
+          {valid && (
+            <div className="bg-neutral-950/50 border border-neutral-800 rounded p-2 text-[10px] text-neutral-400 space-y-0.5">
+              <div>Output: <span className="text-neutral-200 font-mono">{width} × {height} px</span> (×{scale.toFixed(2)} of preview)</div>
+              <div>Prints at {mm(width)} × {mm(height)} mm at {settings.dpi} DPI</div>
+            </div>
+          )}
+
+          {valid && upscaled.length > 0 && (
+            <div className="bg-amber-500/10 border border-amber-500/30 rounded p-2 text-[10px] text-amber-400 space-y-1">
+              <div className="flex items-center gap-1 font-medium">
+                <AlertTriangle size={12} />
+                Upscaling beyond the source resolution
+              </div>
+              <ul className="space-y-0.5 text-amber-400/80">
+                {upscaled.map(w => (
+                  <li key={w.row}>Row {w.row}{w.label ? ` (${w.label})` : ''}: ×{w.factor.toFixed(2)} — interpolated pixels, no added detail</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end gap-2 p-4 border-t border-neutral-800 text-xs">
+          <button onClick={onClose} className="px-3 py-1.5 rounded-lg bg-neutral-800 text-neutral-300 hover:bg-neutral-700">Cancel</button>
+          <button
+            onClick={onExport}
+            disabled={!valid || rows.length === 0}
+            className="px-3 py-1.5 rounded-lg bg-blue-600 text-white font-medium hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Export {EXPORT_FORMATS.find(f => f.value === settings.format)!.label.split(' ')[0]}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import { Rect } from '../types';
+import { fitRoi } from '../utils/imageProcessing';
+
+interface RoiOverlayProps {
+  width: number; // source image size, in pixels
+  height: number;
+  roi: Rect;
+  aspect: number; // targetWidth / targetHeight
+  isManual: boolean;
+  onChange: (roi: Rect) => void;
+}
+
+interface DragState {
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  origin: Rect;
+}
+
+// Crop rectangle drawn over a slot preview in source-pixel coordinates. The
+// viewBox matches the image, and 'meet' letterboxes it exactly like the
+// object-contain canvas underneath. Drag the body to move it or the corner
+// handle to resize; the new crop is only committed on release.
+export const RoiOverlay: React.FC<RoiOverlayProps> = ({ width, height, roi, aspect, isManual, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const [draft, setDraft] = useState<Rect | null>(null);
+  const shown = draft ?? roi;
+  const handle = Math.max(width, height) * 0.05;
+
+  // Client coordinates -> source pixels
+  const toImage = (e: React.PointerEvent) => {
+    const ctm = svgRef.current?.getScreenCTM();
+    if (!ctm) return { x: 0, y: 0 };
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    return { x: p.x, y: p.y };
+  };
+
+  const startDrag = (mode: DragState['mode']) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    const p = toImage(e);
+    dragRef.current = { mode, startX: p.x, startY: p.y, origin: roi };
+    setDraft(roi);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const p = toImage(e);
+    const dx = p.x - drag.startX;
+    const dy = p.y - drag.startY;
+    const { origin } = drag;
+
+    if (drag.mode === 'move') {
+      setDraft({
+        ...origin,
+        x: Math.min(width - origin.w, Math.max(0, origin.x + dx)),
+        y: Math.min(height - origin.h, Math.max(0, origin.y + dy))
+      });
+    } else {
+      // Follow whichever axis moved further, keeping the panel aspect ratio
+      let w = Math.max(origin.w + dx, (origin.h + dy) * aspect);
+      w = Math.max(8, Math.min(w, width - origin.x, (height - origin.y) * aspect));
+      setDraft({ x: origin.x, y: origin.y, w, h: w / aspect });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!dragRef.current) return;
+    dragRef.current = null;
+    if (draft) onChange(fitRoi(draft, width, height, aspect));
+    setDraft(null);
+  };
+
+  const color = isManual ? '#60a5fa' : '#fbbf24';
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+      className="absolute inset-0 w-full h-full pointer-events-none"
+    >
+      {/* Dim everything outside the crop */}
+      <path
+        d={`M0 0H${width}V${height}H0Z M${shown.x} ${shown.y}v${shown.h}h${shown.w}v${-shown.h}Z`}
+        fill="rgba(0,0,0,0.45)"
+        fillRule="evenodd"
+      />
+      <rect
+        x={shown.x} y={shown.y} width={shown.w} height={shown.h}
+        fill="transparent"
+        stroke={color}
+        strokeWidth={1.5}
+        strokeDasharray={isManual ? undefined : '4 3'}
+        vectorEffect="non-scaling-stroke"
+        className="pointer-events-auto cursor-move"
+        onPointerDown={startDrag('move')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      >
+        <title>{isManual ? 'Manual ROI – drag to move' : 'Auto ROI – drag to override'}</title>
+      </rect>
+      <rect
+        x={shown.x + shown.w - handle / 2} y={shown.y + shown.h - handle / 2} width={handle} height={handle}
+        fill={color}
+        className="pointer-events-auto cursor-nwse-resize"
+        onPointerDown={startDrag('resize')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      />
+    </svg>
+  );
+};
@@ -1,23 +1,74 @@
 import React from 'react';
-import { Trash2, GripVertical, ArrowLeftRight, Tag } from 'lucide-react';
+import { Trash2, GripVertical, ArrowLeftRight, Tag, Ruler, Crosshair, Crop, RotateCcw, ChartScatter, Loader2, ZoomIn, Plus, X, PenLine, Contrast } from 'lucide-react';
 import { DropSlot } from './DropSlot';
-import { ProcessedRow } from '../types';
+import { Cytofluorogram } from './Cytofluorogram';
+import { Annotation, ChannelSlot, ChannelTransform, ColocalizationStats, InsetRegion, ProcessedRow, ProcessingConfig, RoiStrategy, RowColocalization, StackSelection } from '../types';
+import { createEmptyChannel, getInsetLabel, getPanelLabel, lutName } from '../utils/channels';
+import { ANNOTATION_KINDS } from '../utils/annotations';
+import { ROI_STRATEGIES, rowClippedFraction } from '../utils/imageProcessing';
+import { getColocalizationPair } from '../utils/colocalization';
+
+const COLOC_COLUMNS: { key: keyof ColocalizationStats, label: string, title: string }[] = [
+  { key: 'pearson', label: 'r', title: "Pearson's correlation coefficient" },
+  { key: 'm1', label: 'M1', title: "Manders' M1 (Costes thresholds)" },
+  { key: 'm2', label: 'M2', title: "Manders' M2 (Costes thresholds)" },
+  { key: 'overlap', label: 'Ov', title: 'Overlap coefficient' },
+  { key: 'icq', label: 'ICQ', title: "Li's intensity correlation quotient" }
+];
+
+const formatStat = (v: number) => isFinite(v) ? v.toFixed(3) : '–';
 
 interface RowControlProps {
   row: ProcessedRow;
   index: number;
+  config: ProcessingConfig;
   onUpdate: (id: string, updates: Partial<ProcessedRow>) => void;
+  onUpdateChannel: (id: string, channelIdx: number, updates: Partial<ChannelSlot>) => void;
+  onSelectionStart: () => void; // before a slice / projection edit (once per slider drag)
+  onSelectionChange: (id: string, channelIdx: number, selection: StackSelection) => void;
   onRemove: (id: string) => void;
   onSwap: (id: string) => void;
+  renderProgress?: number; // 0-1 while a render of this row is in flight
+  clipWarnPercent: number; // clipping above this is flagged
+  coloc: RowColocalization | null; // current statistics, while colocalization is on
 }
 
-export const RowControl: React.FC<RowControlProps> = ({ row, index, onUpdate, onRemove, onSwap }) => {
+export const RowControl: React.FC<RowControlProps> = ({ row, index, config, onUpdate, onUpdateChannel, onSelectionStart, onSelectionChange, onRemove, onSwap, renderProgress, clipWarnPercent, coloc }) => {
+  const slots = row.channels.slice(0, config.channelCount);
+  const detected = slots.find(c => c.stack?.calibration)?.stack?.calibration ?? null;
+  const registrable = slots.length > 1 && slots.every(c => c.image);
+  const colocPair = coloc ? getColocalizationPair(row, config) : null;
+
+  const updateShift = (idx: number, field: keyof ChannelTransform, value: number) => {
+    const current = slots[idx].shift ?? { dx: 0, dy: 0, rotationDeg: 0 };
+    onUpdateChannel(row.id, idx, { shift: { ...current, [field]: isNaN(value) ? 0 : value } });
+  };
+
+  // Inset centres are edited as percentages of the crop
+  const updateInset = (id: string, field: 'cx' | 'cy', percent: number) => {
+    const value = isNaN(percent) ? 0.5 : Math.max(0, Math.min(100, percent)) / 100;
+    onUpdate(row.id, { insets: row.insets.map(inset => inset.id === id ? { ...inset, [field]: value } : inset) });
+  };
+  const updateAnnotation = (id: string, updates: Partial<Annotation>) => {
+    onUpdate(row.id, { annotations: row.annotations.map(a => a.id === id ? { ...a, ...updates } : a) });
+  };
+  const addInset = () => {
+    const inset: InsetRegion = { id: crypto.randomUUID(), cx: 0.5, cy: 0.5 };
+    onUpdate(row.id, { insets: [...row.insets, inset] });
+  };
+
   return (
     <div className="bg-neutral-900 border border-neutral-800 rounded-xl p-4 mb-4 shadow-sm transition-all hover:border-neutral-700">
       <div className="flex items-center justify-between mb-3">
         <div className="flex items-center gap-2">
           <GripVertical className="text-neutral-600 cursor-grab" size={16} />
           <h3 className="text-sm font-semibold text-neutral-300">Row {index + 1}</h3>
+          {renderProgress !== undefined && (
+            <span className="flex items-center gap-1 text-[10px] font-mono text-blue-400" title="Rendering">
+              <Loader2 size={12} className="animate-spin" />
+              {Math.round(renderProgress * 100)}%
+            </span>
+          )}
           
           <div className="h-4 w-px bg-neutral-700 mx-2"></div>
           
@@ -36,7 +87,8 @@ export const RowControl: React.FC<RowControlProps> = ({ row, index, onUpdate, on
           <button 
             onClick={() => onSwap(row.id)}
             className="p-1.5 text-neutral-400 hover:text-blue-400 hover:bg-blue-400/10 rounded transition-colors"
-            title="Swap Images"
+            title={config.channelCount > 2 ? "Rotate Channels" : "Swap Images"}
+            disabled={config.channelCount < 2}
           >
             <ArrowLeftRight size={16} />
           </button>
@@ -50,25 +102,275 @@ export const RowControl: React.FC<RowControlProps> = ({ row, index, onUpdate, on
         </div>
       </div>
 
-      <div className="flex gap-4">
-        <DropSlot 
-          file={row.file1} 
-          imageData={row.imgData1}
-          label="Channel 1 (Green)"
-          onDrop={(file) => onUpdate(row.id, { file1: file })}
-          onRemove={() => onUpdate(row.id, { file1: null, imgData1: null })}
-        />
-        
-        <div className="w-px bg-neutral-800 my-2"></div>
-
-        <DropSlot 
-          file={row.file2} 
-          imageData={row.imgData2}
-          label="Channel 2 (Red)"
-          onDrop={(file) => onUpdate(row.id, { file2: file })}
-          onRemove={() => onUpdate(row.id, { file2: null, imgData2: null })}
-        />
+      <div className={`flex ${config.channelCount > 3 ? 'gap-2' : 'gap-4'}`}>
+        {slots.map((slot, idx) => (
+          <React.Fragment key={idx}>
+            {idx > 0 && <div className="w-px bg-neutral-800 my-2"></div>}
+            <DropSlot 
+              file={slot.file} 
+              imageData={slot.image}
+              stack={slot.stack}
+              selection={slot.selection}
+              label={`${config.channels[idx].label || `Channel ${idx + 1}`} (${lutName(config.channels[idx].color)})`}
+              onDrop={(file) => onUpdateChannel(row.id, idx, { file })}
+              onSelectionStart={onSelectionStart}
+              onSelectionChange={(selection) => onSelectionChange(row.id, idx, selection)}
+              onRemove={() => onUpdateChannel(row.id, idx, createEmptyChannel())}
+              roi={row.renderInfo?.roi ?? null}
+              roiAspect={config.targetWidth / config.targetHeight}
+              roiIsManual={row.roiOverride !== null}
+              onRoiChange={(roi) => onUpdate(row.id, { roiOverride: roi })}
+            />
+          </React.Fragment>
+        ))}
       </div>
+
+      {row.renderInfo && (
+        <div className="flex items-center gap-2 mt-3 text-[10px] text-neutral-500">
+          <Crop size={12} className={row.roiOverride ? 'text-blue-400' : ''} />
+          <span>ROI</span>
+          <span className="font-mono text-neutral-400">
+            {row.renderInfo.roi.w}×{row.renderInfo.roi.h} at {row.renderInfo.roi.x}, {row.renderInfo.roi.y}
+          </span>
+          <select
+            value={row.roiStrategy ?? ''}
+            onChange={(e) => onUpdate(row.id, { roiStrategy: (e.target.value || null) as RoiStrategy | null })}
+            className="bg-neutral-800 border border-neutral-700 rounded px-1 py-0.5 text-neutral-300 outline-none focus:border-blue-500"
+            title={row.roiOverride ? 'Strategy used to score the manual crop' : 'Strategy used to pick the crop'}
+          >
+            <option value="">Default ({ROI_STRATEGIES.find(o => o.value === config.roiStrategy)?.label})</option>
+            {ROI_STRATEGIES.map(o => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
+          <span className="font-mono text-neutral-400" title={ROI_STRATEGIES.find(o => o.value === row.renderInfo!.roiStrategy)?.scoreLabel}>
+            score {row.renderInfo.roiScore.toPrecision(3)}
+          </span>
+          <span className="ml-auto text-neutral-600">{row.roiOverride ? 'manual' : 'auto (drag on a preview to adjust)'}</span>
+          {row.roiOverride && (
+            <button
+              onClick={() => onUpdate(row.id, { roiOverride: null })}
+              className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-neutral-800 text-neutral-400 hover:bg-neutral-700"
+              title="Return to the automatically chosen crop"
+            >
+              <RotateCcw size={10} /> Reset to auto
+            </button>
+          )}
+        </div>
+      )}
+
+      {row.renderInfo && (
+        <div className="flex items-center gap-2 mt-2 text-[10px] text-neutral-500">
+          <Contrast size={12} />
+          <span>Clipped</span>
+          <span
+            className={`font-mono ${rowClippedFraction(row.renderInfo) * 100 > clipWarnPercent ? 'text-amber-400' : 'text-neutral-400'}`}
+            title="Most clipped channel: pixels below black plus pixels at white"
+          >
+            {(rowClippedFraction(row.renderInfo) * 100).toFixed(2)}%
+          </span>
+          {row.renderInfo.channels.map((ch, c) => (
+            <span key={c} className="text-neutral-600" title={`${getPanelLabel(config, c)}: ${(ch.clipped.low * 100).toFixed(2)}% below black, ${(ch.clipped.high * 100).toFixed(2)}% at white`}>
+              C{c + 1} {((ch.clipped.low + ch.clipped.high) * 100).toFixed(1)}%
+            </span>
+          ))}
+        </div>
+      )}
+
+      {row.renderInfo && (
+        <div className="mt-3 space-y-1.5 text-[10px] text-neutral-500">
+          {row.insets.map((inset, i) => {
+            const rect = row.renderInfo!.insets[i];
+            return (
+              <div key={inset.id} className="flex items-center gap-1.5">
+                <ZoomIn size={12} className="text-blue-400" />
+                <span className="w-10 flex-shrink-0">{getInsetLabel(i)}</span>
+                {(['cx', 'cy'] as const).map(field => (
+                  <input
+                    key={field}
+                    type="number"
+                    min={0} max={100} step={1}
+                    value={Math.round(inset[field] * 1000) / 10}
+                    onChange={(e) => updateInset(inset.id, field, parseFloat(e.target.value))}
+                    className="w-14 bg-neutral-950/50 border border-neutral-800 rounded px-1 py-0.5 text-neutral-200 outline-none focus:border-blue-500/50"
+                    title={`Centre ${field === 'cx' ? 'X' : 'Y'}, % of the crop`}
+                  />
+                ))}
+                <span>%</span>
+                <span className="ml-auto font-mono text-neutral-600">
+                  {rect ? `${rect.w}×${rect.h} at ${rect.x}, ${rect.y}` : ''}
+                </span>
+                <button
+                  onClick={() => onUpdate(row.id, { insets: row.insets.filter(r => r.id !== inset.id) })}
+                  className="p-0.5 rounded text-neutral-500 hover:text-red-400 hover:bg-neutral-800"
+                  title="Remove inset"
+                >
+                  <X size={12} />
+                </button>
+              </div>
+            );
+          })}
+          <button
+            onClick={addInset}
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-neutral-800 text-neutral-400 hover:bg-neutral-700"
+            title="Magnify a region of this row's crop"
+          >
+            <Plus size={10} /> Add inset
+          </button>
+        </div>
+      )}
+
+      {row.annotations.length > 0 && (
+        <div className="mt-3 space-y-1.5 text-[10px] text-neutral-500">
+          {row.annotations.map(annotation => (
+            <div key={annotation.id} className="flex items-center gap-1.5">
+              <PenLine size={12} />
+              <span className="flex-shrink-0">
+                {ANNOTATION_KINDS.find(k => k.value === annotation.kind)?.label} on {getPanelLabel(config, annotation.panel) || (annotation.panel === 'merge' ? 'Merge' : `Ch ${annotation.panel + 1}`)}
+              </span>
+              {annotation.kind === 'text' && (
+                <input
+                  type="text"
+                  value={annotation.text}
+                  onChange={(e) => updateAnnotation(annotation.id, { text: e.target.value })}
+                  className="flex-1 min-w-0 bg-neutral-950/50 border border-neutral-800 rounded px-1.5 py-0.5 text-neutral-200 outline-none focus:border-blue-500/50"
+                />
+              )}
+              <input
+                type="color"
+                value={annotation.color}
+                onChange={(e) => updateAnnotation(annotation.id, { color: e.target.value })}
+                className="ml-auto w-4 h-4 bg-transparent border-0 cursor-pointer"
+                title="Colour"
+              />
+              <input
+                type="number"
+                min={4}
+                value={annotation.size}
+                onChange={(e) => updateAnnotation(annotation.id, { size: Math.max(4, parseInt(e.target.value) || 4) })}
+                className="w-12 bg-neutral-950/50 border border-neutral-800 rounded px-1 py-0.5 text-neutral-200 outline-none focus:border-blue-500/50"
+                title="Size (px)"
+              />
+              <button
+                onClick={() => onUpdate(row.id, { annotations: row.annotations.filter(a => a.id !== annotation.id) })}
+                className="p-0.5 rounded text-neutral-500 hover:text-red-400 hover:bg-neutral-800"
+                title="Remove annotation"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {slots.some(c => c.stack) && (
+        <div className="flex items-center gap-2 mt-3 text-[10px] text-neutral-500">
+          <Ruler size={12} />
+          <span>Pixel size</span>
+          <input
+            type="number"
+            min="0" step="any"
+            value={row.calibrationOverride ?? ''}
+            onChange={(e) => {
+              const value = parseFloat(e.target.value);
+              onUpdate(row.id, { calibrationOverride: isNaN(value) ? null : value });
+            }}
+            placeholder={detected ? detected.umPerPixel.toPrecision(4) : 'none'}
+            className="w-20 bg-neutral-950/50 border border-neutral-800 rounded px-1.5 py-0.5 text-neutral-200 placeholder-neutral-600 outline-none focus:border-blue-500/50"
+            title="Manual override in µm per pixel"
+          />
+          <span>µm/px</span>
+          <span className="ml-auto text-neutral-600">
+            {row.calibrationOverride && row.calibrationOverride > 0 ? 'manual' : detected ? `from ${detected.source.toUpperCase()} metadata` : 'no metadata'}
+          </span>
+        </div>
+      )}
+
+      {registrable && (
+        <div className="mt-3 space-y-1.5 text-[10px] text-neutral-500">
+          {slots.slice(1).map((slot, i) => {
+            const idx = i + 1;
+            const est = slot.estimatedShift;
+            return (
+              <div key={idx} className="flex items-center gap-1.5">
+                <Crosshair size={12} className={slot.shift ? 'text-blue-400' : ''} />
+                <span className="w-6 flex-shrink-0">C{idx + 1}</span>
+                {(['dx', 'dy', 'rotationDeg'] as const).map(field => (
+                  <input
+                    key={field}
+                    type="number"
+                    step={field === 'rotationDeg' ? 0.1 : 0.25}
+                    value={slot.shift ? Number(slot.shift[field].toFixed(2)) : ''}
+                    onChange={(e) => updateShift(idx, field, parseFloat(e.target.value))}
+                    placeholder={field === 'dx' ? 'dx' : field === 'dy' ? 'dy' : '°'}
+                    className="w-12 bg-neutral-950/50 border border-neutral-800 rounded px-1 py-0.5 text-neutral-200 placeholder-neutral-600 outline-none focus:border-blue-500/50"
+                    title={field === 'rotationDeg' ? 'Applied rotation (degrees)' : `Applied ${field} (source pixels)`}
+                  />
+                ))}
+                <span className="ml-auto font-mono text-neutral-600 truncate" title={est ? `Correlation peak ${est.peak.toFixed(2)}` : undefined}>
+                  {est ? `est ${est.dx.toFixed(1)}, ${est.dy.toFixed(1)}${est.withRotation ? `, ${est.rotationDeg.toFixed(1)}°` : ''}` : 'measuring…'}
+                </span>
+                {est && (
+                  <button
+                    onClick={() => onUpdateChannel(row.id, idx, { shift: { dx: est.dx, dy: est.dy, rotationDeg: est.rotationDeg } })}
+                    className="px-1.5 py-0.5 rounded bg-neutral-800 text-blue-400 hover:bg-neutral-700"
+                    title="Apply the estimated shift"
+                  >
+                    Use
+                  </button>
+                )}
+                {slot.shift && (
+                  <button
+                    onClick={() => onUpdateChannel(row.id, idx, { shift: null })}
+                    className="px-1.5 py-0.5 rounded bg-neutral-800 text-neutral-400 hover:bg-neutral-700"
+                    title="Remove correction"
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {coloc && (
+        <div className="flex items-start gap-3 mt-3 text-[10px] text-neutral-500">
+          <ChartScatter size={12} className="mt-0.5 flex-shrink-0" />
+          <table className="font-mono">
+            <thead>
+              <tr className="text-neutral-600">
+                <th className="pr-3 text-left font-normal">{config.channels[config.colocalization.channelA].label} / {config.channels[config.colocalization.channelB].label}</th>
+                {COLOC_COLUMNS.map(col => (
+                  <th key={col.key} className="px-1.5 text-right font-normal" title={col.title}>{col.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {([['Crop', coloc.crop], ['Full', coloc.full]] as const).map(([name, stats]) => stats && (
+                <tr key={name} className="text-neutral-400">
+                  <td className="pr-3 text-neutral-500">{name}</td>
+                  {COLOC_COLUMNS.map(col => (
+                    <td key={col.key} className="px-1.5 text-right">{formatStat(stats[col.key])}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {config.colocalization.showCytofluorogram && colocPair && coloc.crop && row.renderInfo && (
+            <div className="ml-auto">
+              <Cytofluorogram
+                a={colocPair[0]}
+                b={colocPair[1]}
+                region={row.renderInfo.roi}
+                stats={coloc.crop}
+                labelA={config.channels[config.colocalization.channelA].label}
+                labelB={config.channels[config.colocalization.channelB].label}
+              />
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
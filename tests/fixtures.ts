@@ -0,0 +1,177 @@
+import { ProcessedRow, RawImage } from '../types';
+import { createEmptyRow } from '../utils/channels';
+import { decodeTiff, defaultStackSelection, projectStack } from '../utils/imageProcessing';
+
+// Synthetic microscopy images for the regression suite. Every pixel is a pure
+// function of its coordinates, so fixtures are rebuilt identically on every
+// run instead of being stored as binary files.
+
+type Depth = 8 | 16;
+
+const MAX_VALUE: Record<Depth, number> = { 8: 255, 16: 65535 };
+
+const image = (width: number, height: number, depth: Depth, value: (x: number, y: number) => number): RawImage => {
+  const data = depth === 8 ? new Uint8Array(width * height) : new Uint16Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = Math.max(0, Math.min(MAX_VALUE[depth], Math.round(value(x, y))));
+    }
+  }
+  return { width, height, bitDepth: depth, data };
+};
+
+// Repeatable texture in [0, 1), so flat regions are not perfectly flat
+const texture = (x: number, y: number): number => {
+  let h = Math.imul(x + 1, 0x27d4eb2d) ^ Math.imul(y + 1, 0x165667b1);
+  h = Math.imul(h ^ (h >>> 15), 0x85ebca77);
+  return ((h ^ (h >>> 13)) >>> 0) / 4294967296;
+};
+
+interface PointSource {
+  x: number;
+  y: number;
+  amplitude: number;
+  sigma: number;
+}
+
+// Ramp from `from` to `to` along x, y or the diagonal
+const gradient = (width: number, height: number, depth: Depth, axis: 'x' | 'y' | 'diagonal', from: number, to: number) =>
+  image(width, height, depth, (x, y) => {
+    const t = axis === 'x' ? x / (width - 1) : axis === 'y' ? y / (height - 1) : (x + y) / (width + height - 2);
+    return from + (to - from) * t;
+  });
+
+// Gaussian spots on a textured background, optionally moved by (dx, dy)
+const pointSources = (
+  width: number,
+  height: number,
+  depth: Depth,
+  sources: PointSource[],
+  background: number,
+  dx = 0,
+  dy = 0
+) =>
+  image(width, height, depth, (x, y) => sources.reduce(
+    (sum, s) => sum + s.amplitude * Math.exp(-((x - s.x - dx) ** 2 + (y - s.y - dy) ** 2) / (2 * s.sigma ** 2)),
+    background * (0.5 + texture(x, y))
+  ));
+
+export interface Fixture {
+  name: string;
+  channels: RawImage[][]; // pages of each channel's TIFF, channel 1 first
+  umPerPixel: number | null; // calibration set on the row, for scale bars
+}
+
+const SPOTS: PointSource[] = [
+  { x: 28, y: 22, amplitude: 1, sigma: 4 },
+  { x: 66, y: 50, amplitude: 0.6, sigma: 6 },
+  { x: 80, y: 18, amplitude: 0.3, sigma: 3 }
+];
+
+const spots = (scale: number, sigmaScale = 1) => SPOTS.map(s => ({ ...s, amplitude: s.amplitude * scale, sigma: s.sigma * sigmaScale }));
+
+export const FIXTURES: Fixture[] = [
+  {
+    name: 'gradient-8bit',
+    channels: [[gradient(64, 48, 8, 'x', 5, 250)], [gradient(64, 48, 8, 'y', 240, 20)]],
+    umPerPixel: 0.5
+  },
+  {
+    name: 'points-16bit',
+    channels: [
+      [pointSources(96, 80, 16, spots(4000), 120)],
+      [pointSources(96, 80, 16, spots(2500, 1.5), 300)],
+      [pointSources(96, 80, 16, [{ x: 40, y: 60, amplitude: 60000, sigma: 5 }], 50)]
+    ],
+    umPerPixel: 0.25
+  },
+  {
+    // Channel 2 is channel 1 displaced, as with chromatic aberration
+    name: 'offset-channels',
+    channels: [[pointSources(96, 80, 8, spots(200), 12)], [pointSources(96, 80, 8, spots(180), 12, 5, -3)]],
+    umPerPixel: null
+  },
+  {
+    name: 'small',
+    channels: [[pointSources(9, 7, 8, [{ x: 4, y: 3, amplitude: 200, sigma: 1.5 }], 10)], [gradient(9, 7, 8, 'diagonal', 0, 255)]],
+    umPerPixel: null
+  },
+  {
+    // Odd dimensions and mixed bit depths
+    name: 'odd-size',
+    channels: [[pointSources(101, 67, 16, spots(1200, 0.8), 80)], [gradient(101, 67, 8, 'x', 30, 90)]],
+    umPerPixel: 0.8
+  },
+  {
+    // Three z-slices in channel 1; the default selection is their max projection
+    name: 'z-stack',
+    channels: [
+      [0, 1, 2].map(z => pointSources(48, 40, 8, [{ x: 12 + z * 12, y: 20, amplitude: 180, sigma: 3 }], 8)),
+      [pointSources(48, 40, 8, [{ x: 24, y: 20, amplitude: 220, sigma: 4 }], 8)]
+    ],
+    umPerPixel: null
+  }
+];
+
+// Uncompressed little-endian grayscale TIFF of one or more pages, the simplest
+// file every reader accepts
+export const encodeGrayTiff = (pages: RawImage[]): Uint8Array => {
+  const { width, height, bitDepth } = pages[0];
+  const tags = 10;
+  const ifdBytes = 2 + tags * 12 + 4;
+  const pixelBytes = width * height * (bitDepth / 8);
+  const pageBytes = ifdBytes + pixelBytes;
+  const out = new Uint8Array(8 + pages.length * pageBytes);
+  const view = new DataView(out.buffer);
+  out.set([0x49, 0x49]); // "II": little-endian
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  pages.forEach((page, p) => {
+    const offset = 8 + p * pageBytes;
+    const entries: [number, number, number][] = [ // tag, type (3 short, 4 long), value
+      [256, 4, width],
+      [257, 4, height],
+      [258, 3, bitDepth],
+      [259, 3, 1], // no compression
+      [262, 3, 1], // BlackIsZero
+      [273, 4, offset + ifdBytes],
+      [277, 3, 1],
+      [278, 4, height],
+      [279, 4, pixelBytes],
+      [284, 3, 1]
+    ];
+    view.setUint16(offset, tags, true);
+    entries.forEach(([tag, type, value], i) => {
+      const at = offset + 2 + i * 12;
+      view.setUint16(at, tag, true);
+      view.setUint16(at + 2, type, true);
+      view.setUint32(at + 4, 1, true);
+      if (type === 3) view.setUint16(at + 8, value, true);
+      else view.setUint32(at + 8, value, true);
+    });
+    view.setUint32(offset + 2 + tags * 12, p + 1 < pages.length ? offset + pageBytes : 0, true);
+    out.set(new Uint8Array(page.data.buffer, page.data.byteOffset, pixelBytes), offset + ifdBytes);
+  });
+  return out;
+};
+
+const tiffFile = (fixture: Fixture, c: number) =>
+  new File([encodeGrayTiff(fixture.channels[c])], `${fixture.name}_c${c + 1}.tif`, { lastModified: 0 });
+
+// A row of the fixture's channels, decoded from its TIFFs as the app would
+export const fixtureRow = async (fixture: Fixture): Promise<ProcessedRow> => {
+  const row = createEmptyRow();
+  const slots = await Promise.all(fixture.channels.map(async (_, c) => {
+    const file = tiffFile(fixture, c);
+    const stack = await decodeTiff(file);
+    const selection = defaultStackSelection(stack);
+    return { ...row.channels[c], file, stack, selection, image: projectStack(stack, selection) };
+  }));
+  return {
+    ...row,
+    id: fixture.name,
+    rowLabel: fixture.name,
+    calibrationOverride: fixture.umPerPixel,
+    channels: row.channels.map((slot, c) => slots[c] ?? slot)
+  };
+};
@@ -0,0 +1,154 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { inflateSync } from 'node:zlib';
+import { RgbaImage } from '../types';
+import { encodePng } from '../utils/pngWriter';
+
+// Golden outputs of the regression suite. Images are checked by a hash of
+// their pixels, with the reference kept next to the hashes as a PNG so a
+// failure can be inspected and, in tolerance mode, compared pixel by pixel.
+// Measured values (crops, ranges, overlay positions) are stored as JSON.
+
+export interface GoldenOptions {
+  dir: string;
+  update: boolean; // record the current outputs instead of checking them
+  tolerance: number | null; // allowed difference per 8-bit sample; null requires identical pixels
+}
+
+interface GoldenFile {
+  images: Record<string, { width: number, height: number, sha256: string }>;
+  values: Record<string, unknown>;
+}
+
+const INDEX = 'goldens.json';
+const ACTUAL = 'actual'; // failing outputs are written here for review
+
+// Relative difference numbers may have in tolerance mode (float results can
+// differ in the last digits between platforms)
+const VALUE_TOLERANCE = 1e-6;
+
+export const pixelHash = (image: RgbaImage): string =>
+  createHash('sha256').update(`${image.width}x${image.height}\n`).update(image.data).digest('hex');
+
+const fileName = (name: string) => `${name.replace(/[^\w.-]+/g, '_')}.png`;
+
+// Pixels of a PNG written by encodePng: 8-bit RGB, no row filters
+export const readPng = (bytes: Uint8Array): RgbaImage => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const idat: Uint8Array[] = [];
+  let width = 0;
+  let height = 0;
+  for (let offset = 8; offset < bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+    }
+    if (type === 'IDAT') idat.push(data);
+    offset += 12 + length;
+  }
+  const raw = inflateSync(Buffer.concat(idat));
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const row = y * (width * 3 + 1);
+    if (raw[row] !== 0) throw new Error('Reference PNG uses row filters');
+    for (let x = 0; x < width; x++) {
+      data.set(raw.subarray(row + 1 + x * 3, row + 4 + x * 3), (y * width + x) * 4);
+      data[(y * width + x) * 4 + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
+
+const imageDifference = (a: RgbaImage, b: RgbaImage): { max: number, pixels: number } => {
+  let max = 0;
+  let pixels = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    const d = Math.max(Math.abs(a.data[i] - b.data[i]), Math.abs(a.data[i + 1] - b.data[i + 1]), Math.abs(a.data[i + 2] - b.data[i + 2]));
+    if (d > 0) pixels++;
+    if (d > max) max = d;
+  }
+  return { max, pixels };
+};
+
+// First difference between two JSON values, as a path and description
+const valueDifference = (actual: unknown, expected: unknown, tolerant: boolean, path = ''): string | null => {
+  if (typeof actual === 'number' && typeof expected === 'number') {
+    const close = tolerant
+      ? Math.abs(actual - expected) <= VALUE_TOLERANCE * Math.max(1, Math.abs(expected))
+      : actual === expected;
+    return close ? null : `${path || '(value)'}: ${actual} != ${expected}`;
+  }
+  if (actual && expected && typeof actual === 'object' && typeof expected === 'object') {
+    if (Array.isArray(actual) !== Array.isArray(expected)) return `${path}: array and object`;
+    const keys = new Set([...Object.keys(actual), ...Object.keys(expected)]);
+    for (const key of keys) {
+      const diff = valueDifference((actual as any)[key], (expected as any)[key], tolerant, `${path}${Array.isArray(actual) ? `[${key}]` : `.${key}`}`);
+      if (diff) return diff;
+    }
+    return null;
+  }
+  return actual === expected ? null : `${path || '(value)'}: ${JSON.stringify(actual)} != ${JSON.stringify(expected)}`;
+};
+
+export const openGoldens = (options: GoldenOptions) => {
+  const indexPath = join(options.dir, INDEX);
+  const stored: GoldenFile = existsSync(indexPath) ? JSON.parse(readFileSync(indexPath, 'utf8')) : { images: {}, values: {} };
+  const recorded: GoldenFile = { images: {}, values: {} };
+  const missing = (name: string) =>
+    new Error(`No golden for '${name}'; record it with npm run test:update-goldens`);
+
+  // Throws with a description when the image does not match its golden
+  const checkImage = async (name: string, image: RgbaImage) => {
+    const sha256 = pixelHash(image);
+    if (options.update) {
+      recorded.images[name] = { width: image.width, height: image.height, sha256 };
+      mkdirSync(options.dir, { recursive: true });
+      writeFileSync(join(options.dir, fileName(name)), new Uint8Array(await (await encodePng(image)).arrayBuffer()));
+      return;
+    }
+    const golden = stored.images[name];
+    if (!golden) throw missing(name);
+    if (golden.sha256 === sha256) return;
+
+    let detail = `${image.width} x ${image.height} px, golden ${golden.width} x ${golden.height} px`;
+    const referencePath = join(options.dir, fileName(name));
+    if (golden.width === image.width && golden.height === image.height && existsSync(referencePath)) {
+      const { max, pixels } = imageDifference(image, readPng(readFileSync(referencePath)));
+      if (options.tolerance !== null && max <= options.tolerance) return;
+      detail = `${pixels} pixel(s) differ, by up to ${max}`;
+    }
+    mkdirSync(join(options.dir, ACTUAL), { recursive: true });
+    writeFileSync(join(options.dir, ACTUAL, fileName(name)), new Uint8Array(await (await encodePng(image)).arrayBuffer()));
+    throw new Error(`'${name}' changed: ${detail} (output written to ${join(options.dir, ACTUAL, fileName(name))})`);
+  };
+
+  const checkValues = (name: string, value: unknown) => {
+    const normalized = JSON.parse(JSON.stringify(value));
+    if (options.update) {
+      recorded.values[name] = normalized;
+      return;
+    }
+    if (!(name in stored.values)) throw missing(name);
+    const diff = valueDifference(normalized, stored.values[name], options.tolerance !== null);
+    if (diff) throw new Error(`'${name}' changed at ${diff}`);
+  };
+
+  // In update mode, replace the stored goldens with the recorded ones and
+  // drop reference images no test produced
+  const save = () => {
+    if (!options.update) return;
+    const sorted = (record: Record<string, unknown>) =>
+      Object.fromEntries(Object.keys(record).sort().map(key => [key, record[key]]));
+    mkdirSync(options.dir, { recursive: true });
+    writeFileSync(indexPath, JSON.stringify({ images: sorted(recorded.images), values: sorted(recorded.values) }, null, 2) + '\n');
+    const kept = new Set(Object.keys(recorded.images).map(fileName));
+    readdirSync(options.dir).filter(f => f.endsWith('.png') && !kept.has(f)).forEach(f => rmSync(join(options.dir, f)));
+    rmSync(join(options.dir, ACTUAL), { recursive: true, force: true });
+  };
+
+  return { checkImage, checkValues, save };
+};
@@ -0,0 +1,294 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { after, describe, test } from 'node:test';
+import { parseArgs } from 'node:util';
+import { OverlayItem, ProcessedRow, ProcessingConfig, RawImage, RgbaImage } from '../types';
+import { FigureManifest, loadRows } from '../cli/manifest';
+import { renderFigure, renderRows } from '../cli/render';
+import { loadUtif } from '../cli/utif';
+import { createEmptyRow, getPanels, getRowImages } from '../utils/channels';
+import { withConfigDefaults } from '../utils/config';
+import { DEFAULT_EXPORT_SETTINGS } from '../utils/figureExport';
+import { renderStrip, rowRenderArgs } from '../utils/imageJobs';
+import {
+  computeLinkedRanges, decodeTiff, findROI, getRowLayout, processRow, resolveRoiStrategy, resolveUmPerPixel, ROI_STRATEGIES
+} from '../utils/imageProcessing';
+import { layoutFigure } from '../utils/layout';
+import { cropRgba } from '../utils/raster';
+import { encodeGrayTiff, Fixture, FIXTURES, fixtureRow } from './fixtures';
+import { openGoldens, pixelHash, readPng } from './golden';
+
+// Golden-image regression suite for the processing core. Run with
+//   npm test                              check against tests/goldens
+//   npm test -- --tolerance 2             accept up to 2 levels per sample
+//   npm run test:update-goldens           record intended changes
+// Fixtures are decoded from TIFF with the utif dev dependency (or the copy
+// passed as --utif <UTIF.js>); the run fails when it cannot be loaded.
+
+const { values: args } = parseArgs({
+  options: {
+    update: { type: 'boolean', default: false },
+    tolerance: { type: 'string' },
+    utif: { type: 'string' }
+  }
+});
+
+const goldens = openGoldens({
+  dir: resolve('tests/goldens'),
+  update: args.update!,
+  tolerance: args.tolerance === undefined ? null : Number(args.tolerance)
+});
+after(goldens.save);
+
+await loadUtif(args.utif);
+const rows = new Map<string, ProcessedRow>();
+for (const fixture of FIXTURES) rows.set(fixture.name, await fixtureRow(fixture));
+const rowOf = (fixture: Fixture) => rows.get(fixture.name)!;
+
+// Small panels keep the goldens small; fixtures are shown whole, unclipped
+const configFor = (fixture: Fixture, overrides: Partial<ProcessingConfig> = {}): ProcessingConfig =>
+  withConfigDefaults({ targetWidth: 96, targetHeight: 64, clipBottom: 0, channelCount: fixture.channels.length, ...overrides });
+
+const render = (row: ProcessedRow, config: ProcessingConfig, linked = false) => processRow(
+  getRowImages(row, config.channelCount) as RawImage[], config, row.id, row.rowLabel, 0, resolveUmPerPixel(row),
+  linked ? computeLinkedRanges([row], config) : null, row.roiOverride, resolveRoiStrategy(row, config), row.insets, row.annotations
+);
+
+const panelImage = (strip: RgbaImage, config: ProcessingConfig, index: number): RgbaImage => {
+  const { panelW, panelH, panelX } = getRowLayout(config);
+  return cropRgba(strip, panelX(index), 0, panelW, panelH);
+};
+
+describe('decoding', () => {
+  for (const fixture of FIXTURES) {
+    test(fixture.name, async () => {
+      for (const [c, pages] of fixture.channels.entries()) {
+        const stack = await decodeTiff(new File([encodeGrayTiff(pages)], `c${c + 1}.tif`));
+        assert.equal(stack.pages.length, pages.length);
+        stack.pages.forEach((page, p) => {
+          assert.equal(page.bitDepth, pages[p].bitDepth);
+          assert.deepEqual([page.width, page.height], [pages[p].width, pages[p].height]);
+          assert.deepEqual(Array.from(page.data), Array.from(pages[p].data));
+        });
+      }
+    });
+  }
+});
+
+describe('ROI selection', () => {
+  for (const fixture of FIXTURES) {
+    test(fixture.name, () => {
+      const config = configFor(fixture);
+      const images = getRowImages(rowOf(fixture), config.channelCount) as RawImage[];
+      const aspect = config.targetWidth / config.targetHeight;
+      const picks = Object.fromEntries(ROI_STRATEGIES.map(({ value }) => {
+        const { roi, score } = findROI(images, value, aspect, config.clipBottom);
+        // Inside the image, at the panel shape to the pixel
+        assert.ok(roi.x >= 0 && roi.y >= 0 && roi.x + roi.w <= images[0].width && roi.y + roi.h <= images[0].height, `${value} crop outside the image`);
+        assert.ok(Math.abs(roi.w / aspect - roi.h) <= 1 || Math.abs(roi.h * aspect - roi.w) <= 1, `${value} crop off the panel aspect ratio`);
+        return [value, { roi, score }];
+      }));
+      goldens.checkValues(`roi/${fixture.name}`, picks);
+    });
+  }
+});
+
+// Display mappings per range mode, and with ranges linked across rows
+const SCALING_VARIANTS: Record<string, { channel?: object, config?: Partial<ProcessingConfig>, linked?: boolean }> = {
+  'max': {},
+  'percentile': { channel: { rangeMode: 'percentile', saturated: 1 } },
+  'manual': { channel: { rangeMode: 'manual', manualRange: { min: 10, max: 200 } } },
+  'gamma': { channel: { gamma: 0.6 } },
+  'linked-auto': { config: { intensityMode: 'linked-auto' }, linked: true }
+};
+
+describe('display scaling', () => {
+  for (const fixture of FIXTURES) {
+    test(fixture.name, async () => {
+      const measured: Record<string, unknown> = {};
+      for (const [variant, { channel, config: overrides, linked }] of Object.entries(SCALING_VARIANTS)) {
+        const base = configFor(fixture, overrides);
+        const config = { ...base, channels: base.channels.map(c => ({ ...c, ...channel })) };
+        const { strip, info } = render(rowOf(fixture), config, linked);
+        info.channels.forEach((ch, c) => {
+          assert.ok(ch.clipped.low + ch.clipped.high <= 1, `channel ${c + 1} clipped share out of range`);
+          if (variant === 'manual') assert.deepEqual(ch.range, { min: 10, max: 200 });
+          // Linked 'max' ranges keep the black point at 0, as per-image ones do
+          if (variant === 'max' || variant === 'linked-auto') assert.equal(ch.range.min, 0);
+        });
+        measured[variant] = info.channels.map(({ range, scale, gamma, jitter, clipped }) => ({ range, scale, gamma, jitter, clipped }));
+        await goldens.checkImage(`scaling/${fixture.name}/${variant}`, strip);
+      }
+      goldens.checkValues(`scaling/${fixture.name}`, measured);
+    });
+  }
+});
+
+const LUT_SETS = [
+  ['#00ff00', '#ff0000', '#0000ff'],
+  ['#ff00ff', '#00ffff', '#ffff00'],
+  ['#ffffff', '#ff0000', '#00ffff']
+];
+
+describe('merge colours', () => {
+  for (const fixture of FIXTURES) {
+    test(fixture.name, async () => {
+      for (const [set, colors] of LUT_SETS.entries()) {
+        const base = configFor(fixture);
+        const config = { ...base, channels: base.channels.map((c, i) => ({ ...c, color: colors[i % colors.length] })) };
+        const { strip } = render(rowOf(fixture), config);
+        const panels = getPanels(config);
+        const merge = panelImage(strip, config, panels.indexOf('merge'));
+        const channels = Array.from({ length: config.channelCount }, (_, c) => panelImage(strip, config, panels.indexOf(c)));
+        // Every LUT here has a full component, which gives back the channel's
+        // display value; the merge must be their clamped weighted sum (up to
+        // the rounding of each channel panel)
+        const weights = colors.slice(0, config.channelCount).map(hex => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16) / 255));
+        const full = weights.map(w => w.indexOf(1));
+        for (let i = 0; i < merge.data.length; i += 4) {
+          for (let k = 0; k < 3; k++) {
+            const expected = Math.min(255, channels.reduce((sum, panel, c) => sum + panel.data[i + full[c]] * weights[c][k], 0));
+            assert.ok(Math.abs(merge.data[i + k] - expected) <= config.channelCount, `merge sample ${i / 4}.${k} is ${merge.data[i + k]}, expected ${expected}`);
+          }
+        }
+        await goldens.checkImage(`merge/${fixture.name}/${set + 1}`, merge);
+      }
+    });
+  }
+});
+
+const textAndShapes = (items: OverlayItem[]) => items.map(item =>
+  item.kind === 'text'
+    ? { kind: item.kind, text: item.text, x: item.x, y: item.y, fontSize: item.fontSize, align: item.align, baseline: item.baseline }
+    : item);
+
+describe('label placement', () => {
+  for (const fixture of FIXTURES) {
+    test(fixture.name, () => {
+      const placements: Record<string, unknown> = {};
+      for (const position of ['bottom-right', 'top-left'] as const) {
+        const base = configFor(fixture, { targetWidth: 160, targetHeight: 120 });
+        const config = { ...base, scaleBar: { ...base.scaleBar, enabled: true, lengthUm: 5, position, panels: getPanels(base) } };
+        const { info } = render(rowOf(fixture), config);
+        const { panelW, panelH } = getRowLayout(config);
+        info.overlays.forEach((items, p) => items.forEach(item => {
+          // Anchors and shapes stay on their panel
+          assert.ok(item.x >= 0 && item.x <= panelW && item.y >= 0 && item.y <= panelH, `panel ${p + 1} ${item.kind} anchored off the panel`);
+          if (item.kind === 'rect') assert.ok(item.x + item.width <= panelW && item.y + item.height <= panelH, `panel ${p + 1} rect overflows`);
+        }));
+        placements[position] = info.overlays.map(textAndShapes);
+      }
+
+      // Headers outside the images sit in the bands around the panels
+      const config = configFor(fixture, { layout: { ...configFor(fixture).layout, headers: 'outside' } });
+      const layout = layoutFigure(config, [{ label: fixture.name, insetColumns: 0 }, { label: '', insetColumns: 0 }]);
+      layout.headers.forEach(item => {
+        assert.ok(item.x >= 0 && item.x <= layout.width && item.y >= 0 && item.y <= layout.height, `header '${'text' in item ? item.text : ''}' off the figure`);
+        const inCell = layout.cells.flat().some(cell =>
+          item.x > cell.x && item.x < cell.x + layout.panelW && item.y > cell.y && item.y < cell.y + layout.panelH);
+        if (item.kind === 'text' && item.align === 'left') assert.ok(!inCell, `row header '${item.text}' over a panel`);
+      });
+      placements.outside = { width: layout.width, height: layout.height, headers: textAndShapes(layout.headers) };
+      goldens.checkValues(`labels/${fixture.name}`, placements);
+    });
+  }
+
+  // Letters count panels condition by condition, or conditions, and go into
+  // the overlays as text so vector exports keep them editable
+  test('panel letters', () => {
+    const fixture = FIXTURES[0];
+    const row = rowOf(fixture);
+    const letters = (mode: ProcessingConfig['panelLetters']['mode'], rowIndex: number, lowercase = false) => {
+      const base = configFor(fixture, { showLabels: false });
+      const config = { ...base, panelLetters: { ...base.panelLetters, mode, lowercase } };
+      const { info } = renderStrip(getRowImages(row, config.channelCount) as RawImage[], rowRenderArgs(row, rowIndex, config, null));
+      return info.overlays.map(items => items.flatMap(item => item.kind === 'text' ? [item.text] : []));
+    };
+    assert.deepEqual(letters('none', 1), [[], [], []]);
+    assert.deepEqual(letters('panel', 1), [['D'], ['E'], ['F']]);
+    assert.deepEqual(letters('panel', 9, true), [['ab'], ['ac'], ['ad']]);
+    assert.deepEqual(letters('row', 1), [['B'], [], []]);
+  });
+});
+
+// Whole figures through the command-line export path, decoded back from PNG,
+// which is only written for figures without text
+const MONTAGES: Record<string, { config: Partial<ProcessingConfig>, widthMm?: number, edit?: (row: ProcessedRow, i: number) => ProcessedRow }> = {
+  'overlay-headers': {
+    config: { channelCount: 2, showLabels: false },
+    edit: (row, i) => i === 1
+      ? {
+          ...row,
+          insets: [{ id: 'inset', cx: 0.3, cy: 0.3 }],
+          annotations: [{ id: 'arrow', kind: 'arrow', panel: 'merge', x: 28, y: 22, tailX: 50, tailY: 8, text: '', color: '#ffffff', size: 16 }]
+        }
+      : row
+  },
+  'outside-headers-print': {
+    config: {
+      channelCount: 2,
+      showLabels: false,
+      layout: { ...withConfigDefaults({}).layout, headers: 'outside', transpose: true, background: '#000000' },
+      insets: { ...withConfigDefaults({}).insets, mode: 'column' }
+    },
+    widthMm: 60,
+    edit: (row, i) => i % 2 === 0 ? { ...row, insets: [{ id: 'inset', cx: 0.5, cy: 0.5 }] } : row
+  }
+};
+
+describe('montage', () => {
+  for (const [name, montage] of Object.entries(MONTAGES)) {
+    test(name, async () => {
+      const config = withConfigDefaults({ targetWidth: 96, targetHeight: 64, clipBottom: 0, ...montage.config });
+      const montageRows = FIXTURES.map((fixture, i) => montage.edit ? montage.edit(rowOf(fixture), i) : rowOf(fixture));
+      const { blob, record } = await renderFigure(montageRows, config, { ...DEFAULT_EXPORT_SETTINGS, widthMm: montage.widthMm ?? null });
+      const image = readPng(new Uint8Array(await blob.arrayBuffer()));
+      assert.deepEqual([image.width, image.height], [record.output.width, record.output.height]);
+      assert.equal(record.rows.length, FIXTURES.length);
+      await goldens.checkImage(`montage/${name}`, image);
+    });
+  }
+
+  test('text only in vector output', async () => {
+    const config = withConfigDefaults({ targetWidth: 96, targetHeight: 64, clipBottom: 0, channelCount: 2 });
+    const montageRows = FIXTURES.map(rowOf);
+    await assert.rejects(renderFigure(montageRows, config, DEFAULT_EXPORT_SETTINGS), /cannot draw/);
+    await assert.rejects(renderFigure(montageRows, config, { ...DEFAULT_EXPORT_SETTINGS, format: 'tiff' }), /cannot draw/);
+    const svg = await (await renderFigure(montageRows, config, { ...DEFAULT_EXPORT_SETTINGS, format: 'svg' })).blob.text();
+    FIXTURES.forEach(fixture => assert.ok(svg.includes(`>${fixture.name}</text>`), `${fixture.name}: row label missing`));
+  });
+});
+
+// The same rows rendered as the app does (rows with the app's random ids,
+// through its render job) and from a manifest of the fixtures' TIFFs that
+// carries those ids through the command line, with a random factor drawn for
+// every channel
+describe('app and command line', () => {
+  test('same rows render the same', async () => {
+    const config = withConfigDefaults({ targetWidth: 96, targetHeight: 64, clipBottom: 0, channelCount: 2, randomness: 0.05, seed: 1234 });
+    const dir = await mkdtemp(join(tmpdir(), 'figure-'));
+    try {
+      const appRows = FIXTURES.map(fixture => ({ ...rowOf(fixture), id: createEmptyRow().id }));
+      const manifest: FigureManifest = { rows: [] };
+      for (const [i, fixture] of FIXTURES.entries()) {
+        const files = fixture.channels.map((_, c) => `${fixture.name}_c${c + 1}.tif`);
+        await Promise.all(files.map((file, c) => writeFile(join(dir, file), encodeGrayTiff(fixture.channels[c]))));
+        manifest.rows.push({ id: appRows[i].id, label: fixture.name, umPerPixel: fixture.umPerPixel ?? undefined, channels: files });
+      }
+      const cliRows = renderRows(await loadRows(manifest, dir, config), config, 1);
+
+      FIXTURES.forEach((fixture, i) => {
+        const row = appRows[i];
+        const app = renderStrip(getRowImages(row, config.channelCount) as RawImage[], rowRenderArgs(row, i, config, null));
+        const cli = cliRows[i];
+        assert.ok(app.info.channels.every(ch => ch.jitter !== 1), `${fixture.name}: no random factor drawn`);
+        assert.deepEqual(cli.info.channels.map(ch => ch.jitter), app.info.channels.map(ch => ch.jitter), `${fixture.name}: random factors differ`);
+        assert.equal(pixelHash(cli.raster), pixelHash(app.strip), `${fixture.name}: pixels differ`);
+      });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,31 +1,341 @@
+// Native sample storage: 8-bit in Uint8Array, 12/16-bit in Uint16Array, float in Float32Array
+export type PixelArray = Uint8Array | Uint16Array | Float32Array;
+
+// Single-sample grayscale image kept at the bit depth it was acquired with.
+// Quantization to 8-bit only happens when a panel is rendered.
+export interface RawImage {
+  width: number;
+  height: number;
+  bitDepth: 8 | 12 | 16 | 32;
+  data: PixelArray;
+}
+
+// Opaque 8-bit RGBA pixels, row-major: what the processing core renders into.
+// ImageData has the same shape, so the browser hands these straight to a canvas.
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Physical pixel size, normalized to micrometres
+export interface PixelCalibration {
+  umPerPixel: number;
+  source: 'ome' | 'imagej' | 'tiff' | 'manual';
+  zSpacingUm?: number;
+}
+
+// All decoded pages of a TIFF. ImageJ hyperstacks store channels interleaved
+// (czt order), so plane z of channel c is pages[z * channels + c].
+export interface RawStack {
+  pages: RawImage[];
+  channels: number;
+  calibration: PixelCalibration | null;
+}
+
+export type ProjectionMode = 'slice' | 'max' | 'mean' | 'sum' | 'sd';
+
+// Which plane(s) of a stack feed processRow
+export interface StackSelection {
+  mode: ProjectionMode;
+  channel: number;
+  slice: number; // used when mode === 'slice'
+  start: number; // inclusive slice range for projections
+  end: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Native-unit intensities mapped to 0 and to targetIntensity respectively
+export interface DisplayRange {
+  min: number;
+  max: number;
+}
+
+// 'per-image' stretches each crop to its own max; the linked modes apply one
+// range per channel to every row so conditions stay quantitatively comparable
+export type IntensityMode = 'per-image' | 'linked-auto' | 'linked-manual';
+
+// How a channel's display range is found: 'max' stretches 0..max of the crop
+// to targetIntensity; 'percentile' clips a percentage of pixels, half at each
+// end, like ImageJ's Auto; 'manual' uses manualRange. The last two map the
+// top of the range to full white. Linked modes replace the per-crop range.
+export type DisplayRangeMode = 'max' | 'percentile' | 'manual';
+
+// Sample counts in equal-width bins spanning [min, max], native units
+export interface Histogram {
+  min: number;
+  max: number;
+  counts: number[];
+}
+
+// What processRow actually applied, kept for display and export records
+export interface ChannelRenderInfo {
+  range: DisplayRange;
+  jitter: number; // stochastic multiplier drawn for this render (1 = none)
+  scale: number; // display units (0-255) per native unit above range.min
+  gamma: number; // applied over the range after scaling; 1 = linear
+  histogram: Histogram; // the crop's samples before mapping
+  clipped: { low: number, high: number }; // fraction of panel pixels below black / at or above white
+}
+
+// How the automatic crop is chosen
+export type RoiStrategy = 'co-brightest' | 'representative' | 'colocalization' | 'focus' | 'center' | 'avoid-saturation';
+
+// Vector element drawn over the figure. Labels and scale bars are kept as data
+// so raster and vector exports draw the same thing.
+export type OverlayItem =
+  | { kind: 'rect', x: number, y: number, width: number, height: number, fill: string }
+  | { kind: 'frame', x: number, y: number, width: number, height: number, stroke: string, lineWidth: number } // stroked inside the rect
+  | { kind: 'line', x: number, y: number, dx: number, dy: number, stroke: string, lineWidth: number } // round caps
+  | { kind: 'polygon', x: number, y: number, points: number[], fill: string } // [dx0, dy0, dx1, dy1, ...] from (x, y)
+  | { kind: 'circle', x: number, y: number, radius: number, stroke: string, lineWidth: number }
+  | {
+      kind: 'text';
+      x: number;
+      y: number; // top edge, middle or bottom edge of the text, per `baseline`
+      text: string;
+      fontFamily: string;
+      fontSize: number;
+      bold: boolean;
+      fill: string;
+      align: 'left' | 'center';
+      baseline: 'top' | 'middle' | 'bottom';
+      shadow: boolean; // soft dark halo for legibility on bright images
+    };
+
+export interface RowRenderInfo {
+  roi: Rect;
+  roiStrategy: RoiStrategy; // strategy the crop was picked or scored with
+  roiScore: number; // that strategy's score for the crop (higher is better)
+  channels: ChannelRenderInfo[];
+  insets: Rect[]; // magnified regions, in source pixels
+  overlays: OverlayItem[][]; // per strip panel (displayed panels, then inset columns), in that panel's pixels
+}
+
+// Rigid correction applied to a channel: rotation about the image center,
+// then translation, in source pixels / degrees
+export interface ChannelTransform {
+  dx: number;
+  dy: number;
+  rotationDeg: number;
+}
+
+// Phase-correlation result against the row's first channel
+export interface ShiftEstimate extends ChannelTransform {
+  peak: number; // normalized correlation peak height (match confidence)
+  withRotation: boolean; // whether the rotation search was enabled
+  maxRotationDeg: number; // rotation limit of that search
+}
+
+// One source image slot of a row
+export interface ChannelSlot {
+  file: File | null;
+  stack: RawStack | null;
+  selection: StackSelection | null;
+  // Plane or projection selected from the stack; this is what gets processed
+  image: RawImage | null;
+  estimatedShift: ShiftEstimate | null; // null until measured
+  shift: ChannelTransform | null; // accepted / manual correction, applied before ROI search and merge
+}
+
+export interface RegistrationConfig {
+  autoApply: boolean; // use estimates without waiting for the user to accept them
+  allowRotation: boolean;
+  maxRotationDeg: number;
+}
+
+// Zoomed detail of a row's crop. The centre is a fraction of the crop in each
+// axis, so the inset follows the crop when it moves; its size follows from
+// the zoom factor.
+export interface InsetRegion {
+  id: string;
+  cx: number;
+  cy: number;
+}
+
+export type AnnotationKind = 'arrow' | 'arrowhead' | 'asterisk' | 'circle' | 'text';
+
+// Mark placed on one panel of a row. Points are in source pixels, so the mark
+// stays on the same structure when the crop or the panel size changes.
+export interface Annotation {
+  id: string;
+  kind: AnnotationKind;
+  panel: PanelId;
+  x: number; // arrow tip; centre of an asterisk or circle; left end of text
+  y: number;
+  tailX: number; // arrow tail; arrowheads point from here to the tip; a point on a circle's rim
+  tailY: number;
+  text: string; // text annotations only
+  color: string;
+  size: number; // font size, or arrowhead and asterisk size, in panel pixels
+}
+
 export interface ProcessedRow {
   id: string;
-  file1: File | null;
-  file2: File | null;
-  imgData1: ImageData | null;
-  imgData2: ImageData | null;
+  channels: ChannelSlot[]; // always MAX_CHANNELS slots; the first config.channelCount are used
   processedCanvas: HTMLCanvasElement | null;
+  renderInfo: RowRenderInfo | null;
   timestamp: number;
   rowLabel: string;
+  calibrationOverride: number | null; // µm per source pixel, for files without metadata
+  roiOverride: Rect | null; // hand-placed crop in source pixels; null uses the auto ROI
+  roiStrategy: RoiStrategy | null; // per-row choice; null follows config.roiStrategy
+  insets: InsetRegion[];
+  annotations: Annotation[];
+}
+
+// A panel of a row montage: a channel index or the merged overlay
+export type PanelId = number | 'merge';
+
+export type PanelCorner = 'bottom-right' | 'bottom-left' | 'top-right' | 'top-left';
+
+export interface ScaleBarConfig {
+  enabled: boolean;
+  lengthUm: number;
+  thickness: number;
+  position: PanelCorner;
+  color: string;
+  showText: boolean;
+  fontSize: number;
+  panels: PanelId[]; // panels that carry a bar
+}
+
+// Letters in the top-left corner of the panels, for figure legends: one per
+// displayed panel, counted condition by condition, or one per condition on
+// its first panel. Inset columns are not lettered.
+export interface PanelLetterConfig {
+  mode: 'none' | 'panel' | 'row';
+  fontSize: number;
+  lowercase: boolean;
+}
+
+// Where column and row headers go: over the top / left panels as before, or
+// in bands outside the images
+export type HeaderPlacement = 'overlay' | 'outside';
+
+// Arrangement of the montage. By default each condition (row of the sidebar)
+// is a figure row and its panels run across; transposed, conditions become
+// columns. Gaps and margin are in output pixels at scale 1.
+export interface LayoutConfig {
+  transpose: boolean;
+  panelOrder: PanelId[]; // preferred order; panels not listed follow in default order
+  hiddenPanels: PanelId[];
+  gapX: number; // between figure columns
+  gapY: number; // between figure rows
+  margin: number; // around the whole figure
+  background: string;
+  headers: HeaderPlacement;
+}
+
+export type Interpolation = 'nearest' | 'bilinear';
+
+// How inset regions are shown: magnified in a corner of every main panel, or
+// as extra panel columns after the displayed panels
+export interface InsetConfig {
+  mode: 'corner' | 'column';
+  zoom: number; // magnification relative to the main panels
+  size: number; // corner insets: fraction of the panel's width and height
+  corner: PanelCorner;
+  source: PanelId; // panel shown magnified in inset columns
+  borderColor: string; // outline boxes and inset borders
+  borderWidth: number;
+  interpolation: Interpolation;
+}
+
+// Per-channel settings shared by every row
+export type BackgroundMethod = 'rolling-ball' | 'sliding-paraboloid';
+
+// Corrections of a channel's source images before the crop is chosen and
+// intensities are scaled. Stages run in the order listed; lengths are in
+// source pixels except a background radius given in µm.
+export interface PreprocessConfig {
+  offset: { enabled: boolean, value: number }; // constant subtracted, native units
+  background: { enabled: boolean, method: BackgroundMethod, radius: number, unit: 'px' | 'um' };
+  median: { enabled: boolean, radius: number };
+  gaussian: { enabled: boolean, sigma: number };
+  unsharp: { enabled: boolean, sigma: number, amount: number };
+}
+
+export interface ChannelConfig {
+  label: string; // column header
+  color: string; // LUT end color (black -> color), hex
+  manualRange: DisplayRange; // used in 'linked-manual' mode and the 'manual' range mode
+  rangeMode: DisplayRangeMode;
+  saturated: number; // 'percentile': % of pixels clipped
+  gamma: number; // 1 = linear; anything else is a nonlinear adjustment
+  preprocess: PreprocessConfig;
+}
+
+// Colocalization of one channel pair over one region. Thresholds are in
+// native units; NaN marks a value that is undefined for the data.
+export interface ColocalizationStats {
+  pixels: number;
+  pearson: number;
+  m1: number; // Manders' M1 above the Costes thresholds
+  m2: number;
+  thresholdA: number; // Costes automatic thresholds
+  thresholdB: number;
+  overlap: number; // Manders' overlap coefficient
+  icq: number; // Li's intensity correlation quotient, -0.5 to 0.5
+}
+
+export interface RowColocalization {
+  full: ColocalizationStats; // whole frame above the bottom clip
+  crop: ColocalizationStats | null; // the rendered ROI, once the row has been rendered
+}
+
+export interface ColocalizationConfig {
+  enabled: boolean;
+  channelA: number;
+  channelB: number;
+  showCytofluorogram: boolean;
 }
 
 export interface ProcessingConfig {
   targetWidth: number;
   targetHeight: number;
   targetIntensity: number;
-  padding: number;
   randomness: number; // 0.0 to 1.0
+  seed: number; // uint32 seeding the randomness draws
+  intensityMode: IntensityMode;
   clipBottom: number; // Pixels to exclude from bottom
-  columnLabels: [string, string, string];
+  roiStrategy: RoiStrategy;
+  channelCount: number; // 1 to MAX_CHANNELS
+  channels: ChannelConfig[]; // always MAX_CHANNELS entries
+  mergeLabel: string;
+  registration: RegistrationConfig;
+  colocalization: ColocalizationConfig;
   rowLabelFontSize: number;
   columnLabelFontSize: number;
   fontFamily: string;
   showLabels: boolean;
+  panelLetters: PanelLetterConfig;
+  scaleBar: ScaleBarConfig;
+  layout: LayoutConfig;
+  insets: InsetConfig;
+}
+
+// Undo/redo entry; rows are stored without their rendered canvases
+export interface HistorySnapshot {
+  rows: ProcessedRow[];
+  config: ProcessingConfig;
+}
+
+export interface HistoryState {
+  past: HistorySnapshot[];
+  future: HistorySnapshot[];
 }
 
-// Global definition for the UTIF library loaded via CDN
+// Global definition for the UTIF library loaded via CDN, and the package name
+// and version the build defines (vite.config.ts)
 declare global {
-  interface Window {
-    UTIF: any;
-  }
+  var UTIF: any;
+  const __APP_NAME__: string;
+  const __APP_VERSION__: string;
 }
\ No newline at end of file
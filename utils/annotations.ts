@@ -0,0 +1,113 @@
+import { Annotation, AnnotationKind, OverlayItem, PanelId, Rect, RowRenderInfo } from '../types';
+import { FigureLayout } from './layout';
+
+// Annotation marks: stored on the row in source pixels, turned into overlay
+// items in panel pixels whenever the row is rendered, so they follow the crop
+// and come out the same in raster and vector exports.
+
+export const ANNOTATION_KINDS: { value: AnnotationKind, label: string }[] = [
+  { value: 'arrow', label: 'Arrow' },
+  { value: 'arrowhead', label: 'Arrowhead' },
+  { value: 'asterisk', label: 'Asterisk' },
+  { value: 'circle', label: 'Circle' },
+  { value: 'text', label: 'Text' }
+];
+
+// Style of newly placed annotations
+export interface AnnotationStyle {
+  color: string;
+  size: number;
+  text: string;
+}
+
+export const DEFAULT_ANNOTATION_STYLE: AnnotationStyle = { color: '#ffffff', size: 24, text: '' };
+
+// Filled triangle with its tip at (x, y), pointing along the unit vector (ux, uy)
+const head = (x: number, y: number, ux: number, uy: number, length: number, fill: string): OverlayItem => {
+  const halfWidth = length * 0.35;
+  return {
+    kind: 'polygon',
+    x,
+    y,
+    points: [0, 0, -ux * length - uy * halfWidth, -uy * length + ux * halfWidth, -ux * length + uy * halfWidth, -uy * length - ux * halfWidth],
+    fill
+  };
+};
+
+// Overlay items of one annotation in the pixels of a panel showing `roi` at
+// panelW x panelH. `scale` is the row's output scale.
+export const annotationOverlays = (
+  annotation: Annotation,
+  roi: Rect,
+  panelW: number,
+  panelH: number,
+  scale: number,
+  fontFamily: string
+): OverlayItem[] => {
+  const sx = panelW / roi.w;
+  const sy = panelH / roi.h;
+  const x = (annotation.x - roi.x) * sx;
+  const y = (annotation.y - roi.y) * sy;
+  const tailX = (annotation.tailX - roi.x) * sx;
+  const tailY = (annotation.tailY - roi.y) * sy;
+  const size = annotation.size * scale;
+  const lineWidth = Math.max(1, size / 8);
+  const { color } = annotation;
+
+  switch (annotation.kind) {
+    case 'arrow':
+    case 'arrowhead': {
+      // Without a tail to point from, arrows come in from the top right
+      const length = Math.hypot(x - tailX, y - tailY);
+      const [ux, uy] = length > 0 ? [(x - tailX) / length, (y - tailY) / length] : [-Math.SQRT1_2, Math.SQRT1_2];
+      const items: OverlayItem[] = [head(x, y, ux, uy, size, color)];
+      // The shaft stops inside the head so its round cap does not show at the tip
+      const shaft = length - size * 0.8;
+      if (annotation.kind === 'arrow' && shaft > 0) {
+        items.unshift({ kind: 'line', x: tailX, y: tailY, dx: ux * shaft, dy: uy * shaft, stroke: color, lineWidth });
+      }
+      return items;
+    }
+    case 'asterisk':
+      // Three strokes crossing at the centre
+      return [90, 30, 150].map(deg => {
+        const dx = Math.cos(deg * Math.PI / 180) * size / 2;
+        const dy = Math.sin(deg * Math.PI / 180) * size / 2;
+        return { kind: 'line', x: x - dx, y: y - dy, dx: dx * 2, dy: dy * 2, stroke: color, lineWidth: lineWidth * 1.5 };
+      });
+    case 'circle':
+      return [{ kind: 'circle', x, y, radius: Math.max(size / 4, Math.hypot(x - tailX, y - tailY)), stroke: color, lineWidth }];
+    case 'text':
+      return annotation.text ? [{
+        kind: 'text', x, y, text: annotation.text, fontFamily, fontSize: size,
+        bold: true, fill: color, align: 'left', baseline: 'middle', shadow: false
+      }] : [];
+  }
+};
+
+// Displayed panel under a point in figure pixels. Inset columns are not
+// annotated.
+export interface PanelHit {
+  row: number; // condition index in the figure
+  panel: PanelId;
+  cell: Rect; // the panel's place in the figure
+}
+
+export const hitPanel = (layout: FigureLayout, panels: PanelId[], fx: number, fy: number): PanelHit | null => {
+  for (let row = 0; row < layout.cells.length; row++) {
+    for (let p = 0; p < panels.length; p++) {
+      const cell = layout.cells[row][p];
+      if (fx >= cell.x && fx < cell.x + layout.panelW && fy >= cell.y && fy < cell.y + layout.panelH) {
+        return { row, panel: panels[p], cell: { x: cell.x, y: cell.y, w: layout.panelW, h: layout.panelH } };
+      }
+    }
+  }
+  return null;
+};
+
+// Figure pixels -> source pixels of the row rendered into `cell`. Points
+// outside the cell extrapolate, so a drag may end beyond the panel.
+export const figureToSource = (info: RowRenderInfo, cell: Rect, fx: number, fy: number): { x: number, y: number } => ({
+  x: info.roi.x + (fx - cell.x) * info.roi.w / cell.w,
+  y: info.roi.y + (fy - cell.y) * info.roi.h / cell.h
+});
@@ -0,0 +1,128 @@
+import { MAX_CHANNELS } from './channels';
+
+// Filename conventions for splitting a folder of single-channel TIFFs into
+// rows. Each pattern is a regular expression with a named `channel` group
+// (the channel number) and optionally a `label` group used as the row label.
+// Files whose names are identical apart from the channel token form one row;
+// the token is the `channel` group, or a wider `token` group when the name
+// carries more per-channel text (MetaMorph's wavelength names).
+export interface PairingPattern {
+  id: string;
+  name: string;
+  example: string;
+  source: string;
+}
+
+export const PAIRING_PATTERNS: PairingPattern[] = [
+  { id: 'leica', name: 'Leica LAS (_ch00, _ch01)', example: 'WT_Position001_ch00.tif', source: '^(?<label>.+?)_ch(?<channel>\\d+)' },
+  { id: 'c-suffix', name: 'Zeiss ZEN / generic (_C1, _C2)', example: 'KO-2_c1.tif', source: '^(?<label>.+?)[_-]c(?<channel>\\d+)' },
+  { id: 'imagej', name: 'ImageJ Split Channels (C1-, C2-)', example: 'C1-WT_01.tif', source: '^c(?<channel>\\d+)-(?<label>.+?)(?:\\.tiff?)?$' },
+  { id: 'metamorph', name: 'MetaMorph (_w1, _w2)', example: 'WT_w1DAPI_s1.TIF', source: '^.+?_(?<token>w(?<channel>\\d+)[^_.]*)' },
+  { id: 'nikon', name: 'Nikon NIS (…c1, …c2)', example: 'WTxy01c1.tif', source: '^(?<label>.+?)c(?<channel>\\d+)\\.tiff?$' }
+];
+
+export interface ProposedRow {
+  key: string; // filename with the channel token removed
+  label: string;
+  include: boolean;
+  files: (File | null)[]; // MAX_CHANNELS slots, in channel-number order
+}
+
+export interface Pairing {
+  rows: ProposedRow[];
+  unmatched: File[]; // TIFFs the pattern did not match, or duplicate channels
+  channelCount: number; // most channels found in any row
+}
+
+export const isTiffFile = (file: File): boolean => /\.tiff?$/i.test(file.name);
+
+// Case-insensitive, with match indices so the channel token can be cut out.
+// Returns null for invalid expressions or ones without a `channel` group.
+export const compilePattern = (source: string): RegExp | null => {
+  try {
+    const pattern = new RegExp(source, 'id');
+    return /\(\?<channel>/.test(source) ? pattern : null;
+  } catch {
+    return null;
+  }
+};
+
+const naturalCompare = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+// Row label from a filename fragment: no extension, no doubled or dangling separators
+const cleanLabel = (text: string) => text
+  .replace(/\.tiff?$/i, '')
+  .replace(/([_\-\s.])[_\-\s.]+/g, '$1')
+  .replace(/^[_\-\s.]+|[_\-\s.]+$/g, '');
+
+export const pairFiles = (files: File[], pattern: RegExp): Pairing => {
+  const groups = new Map<string, { label: string, channels: Map<number, File> }>();
+  const unmatched: File[] = [];
+
+  [...files].filter(isTiffFile).sort((a, b) => naturalCompare(a.name, b.name)).forEach(file => {
+    const match = pattern.exec(file.name);
+    const span = match?.indices?.groups?.token ?? match?.indices?.groups?.channel;
+    if (!match?.groups?.channel || !span) {
+      unmatched.push(file);
+      return;
+    }
+    const key = `${file.name.slice(0, span[0])}*${file.name.slice(span[1])}`;
+    const channel = parseInt(match.groups.channel, 10);
+    const group = groups.get(key) ?? { label: cleanLabel(match.groups.label ?? key.replace('*', '')), channels: new Map() };
+    if (group.channels.has(channel)) {
+      unmatched.push(file);
+      return;
+    }
+    group.channels.set(channel, file);
+    groups.set(key, group);
+  });
+
+  const rows = [...groups.entries()]
+    .sort(([a], [b]) => naturalCompare(a, b))
+    .map(([key, group]): ProposedRow => {
+      const ordered = [...group.channels.entries()].sort(([a], [b]) => a - b).map(([, file]) => file);
+      return {
+        key,
+        label: group.label,
+        include: true,
+        files: Array.from({ length: MAX_CHANNELS }, (_, c) => ordered[c] ?? null)
+      };
+    });
+
+  // Channels beyond MAX_CHANNELS cannot be placed
+  groups.forEach(group => {
+    const ordered = [...group.channels.entries()].sort(([a], [b]) => a - b);
+    ordered.slice(MAX_CHANNELS).forEach(([, file]) => unmatched.push(file));
+  });
+
+  const channelCount = Math.max(0, ...rows.map(r => r.files.filter(Boolean).length));
+  return { rows, unmatched, channelCount };
+};
+
+export const containsFolder = (data: DataTransfer): boolean =>
+  Array.from(data.items ?? [] as DataTransferItem[]).some(item => item.webkitGetAsEntry?.()?.isDirectory);
+
+// Every file in a drop, descending into dropped folders
+export const collectDroppedFiles = async (data: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(data.items ?? [] as DataTransferItem[])
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) return Array.from(data.files ?? []);
+
+  const files: File[] = [];
+  const walk = async (entry: FileSystemEntry): Promise<void> => {
+    if (entry.isFile) {
+      files.push(await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject)));
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns results in batches until an empty one
+      for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        if (batch.length === 0) break;
+        for (const child of batch) await walk(child);
+      }
+    }
+  };
+  for (const entry of entries) await walk(entry);
+  return files;
+};
@@ -0,0 +1,108 @@
+import { OverlayItem, ProcessingConfig, RawImage, RgbaImage, RowRenderInfo } from '../types';
+import { getRowLayout, offsetOverlays } from './imageProcessing';
+
+// Browser side of rendering: the core's RGBA pixels and overlay items onto
+// canvases, and image data for thumbnails.
+
+// Paint overlay items onto a 2D context
+export const drawOverlays = (ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, items: OverlayItem[]) => {
+  items.forEach(item => {
+    if (item.kind === 'frame') {
+      const half = item.lineWidth / 2;
+      ctx.strokeStyle = item.stroke;
+      ctx.lineWidth = item.lineWidth;
+      ctx.strokeRect(item.x + half, item.y + half, item.width - item.lineWidth, item.height - item.lineWidth);
+      return;
+    }
+    if (item.kind === 'line' || item.kind === 'circle') {
+      ctx.strokeStyle = item.stroke;
+      ctx.lineWidth = item.lineWidth;
+      ctx.lineCap = 'round';
+      ctx.beginPath();
+      if (item.kind === 'line') {
+        ctx.moveTo(item.x, item.y);
+        ctx.lineTo(item.x + item.dx, item.y + item.dy);
+      } else {
+        ctx.arc(item.x, item.y, item.radius, 0, Math.PI * 2);
+      }
+      ctx.stroke();
+      ctx.lineCap = 'butt';
+      return;
+    }
+    ctx.fillStyle = item.fill;
+    if (item.kind === 'polygon') {
+      ctx.beginPath();
+      for (let i = 0; i < item.points.length; i += 2) ctx.lineTo(item.x + item.points[i], item.y + item.points[i + 1]);
+      ctx.closePath();
+      ctx.fill();
+      return;
+    }
+    if (item.kind === 'rect') {
+      ctx.fillRect(item.x, item.y, item.width, item.height);
+      return;
+    }
+    ctx.font = `${item.bold ? 'bold ' : ''}${item.fontSize}px ${item.fontFamily}`;
+    ctx.textAlign = item.align;
+    ctx.textBaseline = item.baseline;
+    if (item.shadow) {
+      ctx.shadowColor = 'rgba(0,0,0,0.8)';
+      ctx.shadowBlur = 4;
+    }
+    ctx.fillText(item.text, item.x, item.y);
+    ctx.shadowBlur = 0;
+  });
+};
+
+// Write 0-255 display values into an opaque grayscale ImageData (the only
+// place intensities are quantized to 8-bit)
+export const toGrayImageData = (values: ArrayLike<number>, width: number, height: number): ImageData => {
+  const out = new ImageData(width, height);
+  for (let i = 0; i < width * height; i++) {
+    const v = Math.round(Math.max(0, Math.min(255, values[i])));
+    out.data[i * 4] = v;
+    out.data[i * 4 + 1] = v;
+    out.data[i * 4 + 2] = v;
+    out.data[i * 4 + 3] = 255;
+  }
+  return out;
+};
+
+// Min/max stretched 8-bit preview of a raw image (used for thumbnails only)
+export const toPreviewImageData = (img: RawImage): ImageData => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < img.data.length; i++) {
+    const v = img.data[i];
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  const range = max > min ? max - min : 1;
+  const values = new Float32Array(img.data.length);
+  for (let i = 0; i < img.data.length; i++) {
+    values[i] = ((img.data[i] - min) / range) * 255;
+  }
+  return toGrayImageData(values, img.width, img.height);
+};
+
+// Canvas pixels as an RGBA image, for the core to assemble figures from
+export const canvasPixels = (canvas: HTMLCanvasElement): RgbaImage =>
+  canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+
+// A rendered row strip on a canvas, with its overlays drawn in unless they
+// are left to a vector export
+export const stripToCanvas = (
+  strip: RgbaImage,
+  info: RowRenderInfo,
+  config: ProcessingConfig,
+  scale: number,
+  overlays: boolean
+): OffscreenCanvas => {
+  const canvas = new OffscreenCanvas(strip.width, strip.height);
+  const ctx = canvas.getContext('2d')!;
+  ctx.putImageData(new ImageData(strip.data, strip.width, strip.height), 0, 0);
+  if (overlays) {
+    const { panelX } = getRowLayout(config, scale);
+    info.overlays.forEach((items, panelIdx) => drawOverlays(ctx, offsetOverlays(items, panelX(panelIdx), 0)));
+  }
+  return canvas;
+};
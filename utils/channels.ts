@@ -0,0 +1,104 @@
+import { ChannelConfig, ChannelSlot, PanelId, ProcessedRow, ProcessingConfig, RawImage, RowRenderInfo } from '../types';
+import { getAlignedImage } from './registration';
+import { DEFAULT_PREPROCESS } from './preprocess';
+
+export const MAX_CHANNELS = 5;
+
+export const LUT_PRESETS: { name: string, color: string }[] = [
+  { name: 'Green', color: '#00ff00' },
+  { name: 'Red', color: '#ff0000' },
+  { name: 'Blue', color: '#0000ff' },
+  { name: 'Magenta', color: '#ff00ff' },
+  { name: 'Cyan', color: '#00ffff' },
+  { name: 'Yellow', color: '#ffff00' },
+  { name: 'Gray', color: '#ffffff' }
+];
+
+// Green/red first so two-channel rows look as they always have
+export const DEFAULT_CHANNEL_CONFIGS: ChannelConfig[] = [
+  { label: 'Channel 1', color: '#00ff00', manualRange: { min: 0, max: 255 }, rangeMode: 'max', saturated: 0.35, gamma: 1, preprocess: DEFAULT_PREPROCESS },
+  { label: 'Channel 2', color: '#ff0000', manualRange: { min: 0, max: 255 }, rangeMode: 'max', saturated: 0.35, gamma: 1, preprocess: DEFAULT_PREPROCESS },
+  { label: 'Channel 3', color: '#0000ff', manualRange: { min: 0, max: 255 }, rangeMode: 'max', saturated: 0.35, gamma: 1, preprocess: DEFAULT_PREPROCESS },
+  { label: 'Channel 4', color: '#ff00ff', manualRange: { min: 0, max: 255 }, rangeMode: 'max', saturated: 0.35, gamma: 1, preprocess: DEFAULT_PREPROCESS },
+  { label: 'Channel 5', color: '#00ffff', manualRange: { min: 0, max: 255 }, rangeMode: 'max', saturated: 0.35, gamma: 1, preprocess: DEFAULT_PREPROCESS }
+];
+
+// Preset name for a LUT color, or 'Custom'
+export const lutName = (color: string): string =>
+  LUT_PRESETS.find(p => p.color === color.toLowerCase())?.name ?? 'Custom';
+
+// '#rrggbb' -> [r, g, b] as 0-1 weights
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  if (isNaN(value)) return [1, 1, 1];
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+};
+
+export const createEmptyChannel = (): ChannelSlot => ({
+  file: null,
+  stack: null,
+  selection: null,
+  image: null,
+  estimatedShift: null,
+  shift: null
+});
+
+export const createEmptyChannels = (): ChannelSlot[] =>
+  Array.from({ length: MAX_CHANNELS }, createEmptyChannel);
+
+export const createEmptyRow = (): ProcessedRow => ({
+  id: crypto.randomUUID(),
+  channels: createEmptyChannels(),
+  processedCanvas: null,
+  renderInfo: null,
+  timestamp: Date.now(),
+  rowLabel: '',
+  calibrationOverride: null,
+  roiOverride: null,
+  roiStrategy: null,
+  insets: [],
+  annotations: []
+});
+
+// Images of the channels in use, in channel order, with each channel's
+// registration correction applied (null entries for empty slots)
+export const getRowImages = (row: ProcessedRow, channelCount: number): (RawImage | null)[] =>
+  row.channels.slice(0, channelCount).map(c => c.image ? getAlignedImage(c.image, c.shift) : null);
+
+export const isRowComplete = (row: ProcessedRow, channelCount: number): boolean =>
+  row.channels.slice(0, channelCount).every(c => c.image !== null);
+
+// Every panel a row can show, in the layout's order: listed panels first,
+// then the rest as every channel followed by the merge (when there is more
+// than one channel to overlay)
+export const getAvailablePanels = (config: ProcessingConfig): PanelId[] => {
+  const panels: PanelId[] = Array.from({ length: config.channelCount }, (_, i) => i);
+  if (config.channelCount > 1) panels.push('merge');
+  const listed = config.layout.panelOrder.filter(p => panels.includes(p));
+  return [...listed, ...panels.filter(p => !listed.includes(p))];
+};
+
+// Panels rendered for each row, in order. Hiding every panel shows them all
+// rather than an empty figure.
+export const getPanels = (config: ProcessingConfig): PanelId[] => {
+  const available = getAvailablePanels(config);
+  const shown = available.filter(p => !config.layout.hiddenPanels.includes(p));
+  return shown.length > 0 ? shown : available;
+};
+
+export const getPanelLabel = (config: ProcessingConfig, panel: PanelId): string =>
+  panel === 'merge' ? config.mergeLabel : config.channels[panel].label;
+
+// Header of the index-th inset column
+export const getInsetLabel = (index: number): string => `Inset ${index + 1}`;
+
+// Letter of the panel or condition at `index`: A to Z, then AA, AB, ...
+export const getPanelLetter = (config: ProcessingConfig, index: number): string => {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) letters = String.fromCharCode(65 + (n - 1) % 26) + letters;
+  return config.panelLetters.lowercase ? letters.toLowerCase() : letters;
+};
+
+// Inset panels a row adds after its displayed panels
+export const getInsetColumnCount = (config: ProcessingConfig, info: RowRenderInfo): number =>
+  config.insets.mode === 'column' ? info.insets.length : 0;
@@ -0,0 +1,186 @@
+import { ColocalizationStats, ProcessedRow, ProcessingConfig, RawImage, Rect, RowColocalization } from '../types';
+import { getRowImages, isRowComplete } from './channels';
+
+// Pixels of a region as two parallel float arrays (native units)
+const gatherPair = (a: RawImage, b: RawImage, region: Rect): [Float32Array, Float32Array] => {
+  const outA = new Float32Array(region.w * region.h);
+  const outB = new Float32Array(region.w * region.h);
+  let j = 0;
+  for (let y = region.y; y < region.y + region.h; y++) {
+    for (let x = region.x; x < region.x + region.w; x++) {
+      const i = y * a.width + x;
+      outA[j] = a.data[i];
+      outB[j] = b.data[i];
+      j++;
+    }
+  }
+  return [outA, outB];
+};
+
+// Pearson's r over the pixels where both channels are below (tA, tB).
+// Pass Infinity to include every pixel.
+const pearsonBelow = (a: Float32Array, b: Float32Array, tA: number, tB: number): number => {
+  let n = 0, sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] >= tA || b[i] >= tB) continue;
+    n++;
+    sumA += a[i];
+    sumB += b[i];
+    sumAA += a[i] * a[i];
+    sumBB += b[i] * b[i];
+    sumAB += a[i] * b[i];
+  }
+  const cov = sumAB - (sumA * sumB) / n;
+  const varA = sumAA - (sumA * sumA) / n;
+  const varB = sumBB - (sumB * sumB) / n;
+  return n > 1 && varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : NaN;
+};
+
+// Costes et al. (2004): walk the threshold down the regression line of B on A
+// until the pixels below it no longer correlate. Bisection on A's threshold
+// finds the highest one whose below-threshold pixels have r <= 0.
+const costesThresholds = (a: Float32Array, b: Float32Array, meanA: number, meanB: number): [number, number] => {
+  let sxx = 0, sxy = 0, minA = Infinity, maxA = -Infinity;
+  for (let i = 0; i < a.length; i++) {
+    sxx += (a[i] - meanA) ** 2;
+    sxy += (a[i] - meanA) * (b[i] - meanB);
+    if (a[i] < minA) minA = a[i];
+    if (a[i] > maxA) maxA = a[i];
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  // Anti-correlated or flat data has no meaningful Costes threshold
+  if (slope <= 0) return [NaN, NaN];
+  const intercept = meanB - slope * meanA;
+
+  let lo = minA;
+  let hi = maxA;
+  for (let iter = 0; iter < 40 && hi - lo > 1e-6 * (maxA - minA); iter++) {
+    const t = (lo + hi) / 2;
+    if (pearsonBelow(a, b, t, slope * t + intercept) > 0) hi = t;
+    else lo = t;
+  }
+  return [lo, slope * lo + intercept];
+};
+
+export const computeColocalization = (a: RawImage, b: RawImage, region: Rect): ColocalizationStats => {
+  const [va, vb] = gatherPair(a, b, region);
+  const n = va.length;
+  let sumA = 0, sumB = 0;
+  for (let i = 0; i < n; i++) {
+    sumA += va[i];
+    sumB += vb[i];
+  }
+  const meanA = sumA / n;
+  const meanB = sumB / n;
+
+  let sumAB = 0, sumAA = 0, sumBB = 0, concordant = 0;
+  for (let i = 0; i < n; i++) {
+    sumAB += va[i] * vb[i];
+    sumAA += va[i] * va[i];
+    sumBB += vb[i] * vb[i];
+    if ((va[i] - meanA) * (vb[i] - meanB) > 0) concordant++;
+  }
+
+  const [thresholdA, thresholdB] = costesThresholds(va, vb, meanA, meanB);
+  let colA = 0, totalA = 0, colB = 0, totalB = 0;
+  for (let i = 0; i < n; i++) {
+    const aboveA = va[i] > thresholdA;
+    const aboveB = vb[i] > thresholdB;
+    if (aboveA) totalA += va[i];
+    if (aboveB) totalB += vb[i];
+    if (aboveA && aboveB) {
+      colA += va[i];
+      colB += vb[i];
+    }
+  }
+
+  return {
+    pixels: n,
+    pearson: pearsonBelow(va, vb, Infinity, Infinity),
+    m1: totalA > 0 ? colA / totalA : NaN,
+    m2: totalB > 0 ? colB / totalB : NaN,
+    thresholdA,
+    thresholdB,
+    overlap: sumAA > 0 && sumBB > 0 ? sumAB / Math.sqrt(sumAA * sumBB) : NaN,
+    icq: n > 0 ? concordant / n - 0.5 : NaN
+  };
+};
+
+// Full-frame region used for whole-image statistics: everything above the
+// bottom clip, so burned-in annotations do not count as signal
+export const getFullRegion = (img: RawImage, clipBottom: number): Rect =>
+  ({ x: 0, y: 0, w: img.width, h: Math.max(1, img.height - clipBottom) });
+
+// Registered images of the configured pair, or null when the row lacks them
+export const getColocalizationPair = (row: ProcessedRow, config: ProcessingConfig): [RawImage, RawImage] | null => {
+  const { channelA, channelB } = config.colocalization;
+  if (channelA === channelB || Math.max(channelA, channelB) >= config.channelCount) return null;
+  if (!isRowComplete(row, config.channelCount)) return null;
+  const images = getRowImages(row, config.channelCount) as RawImage[];
+  return [images[channelA], images[channelB]];
+};
+
+// What a row's statistics are computed from: the registered images of the
+// pair and the regions measured (the crop once the row has been rendered)
+export interface ColocalizationInputs {
+  images: [RawImage, RawImage];
+  full: Rect;
+  crop: Rect | null;
+}
+
+export const getColocalizationInputs = (row: ProcessedRow, config: ProcessingConfig): ColocalizationInputs | null => {
+  const pair = getColocalizationPair(row, config);
+  if (!pair) return null;
+  return { images: pair, full: getFullRegion(pair[0], config.clipBottom), crop: row.renderInfo?.roi ?? null };
+};
+
+export const computeRowColocalization = (a: RawImage, b: RawImage, full: Rect, crop: Rect | null): RowColocalization => ({
+  full: computeColocalization(a, b, full),
+  crop: crop ? computeColocalization(a, b, crop) : null
+});
+
+// 2D histogram of (A, B) over a region, each axis spanning 0 to the region max
+export const computeCytofluorogram = (a: RawImage, b: RawImage, region: Rect, bins: number) => {
+  const [va, vb] = gatherPair(a, b, region);
+  let maxA = 0, maxB = 0;
+  for (let i = 0; i < va.length; i++) {
+    if (va[i] > maxA) maxA = va[i];
+    if (vb[i] > maxB) maxB = vb[i];
+  }
+  const counts = new Uint32Array(bins * bins);
+  for (let i = 0; i < va.length; i++) {
+    const bx = Math.min(bins - 1, Math.floor((va[i] / (maxA || 1)) * bins));
+    const by = Math.min(bins - 1, Math.floor((vb[i] / (maxB || 1)) * bins));
+    counts[by * bins + bx]++;
+  }
+  return { counts, maxA: maxA || 1, maxB: maxB || 1 };
+};
+
+const CSV_COLUMNS: (keyof ColocalizationStats)[] = ['pixels', 'pearson', 'm1', 'm2', 'thresholdA', 'thresholdB', 'overlap', 'icq'];
+
+const csvField = (value: string | number): string => {
+  if (typeof value === 'number') return isFinite(value) ? String(Number(value.toPrecision(6))) : '';
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// One line per row and region, in the montage's row order. `stats` holds
+// each row's statistics (null for rows without the pair).
+export const colocalizationCsv = (rows: ProcessedRow[], config: ProcessingConfig, stats: (RowColocalization | null)[]): string => {
+  const { channelA, channelB } = config.colocalization;
+  const header = ['row', 'condition', 'channel_a', 'channel_b', 'region', ...CSV_COLUMNS];
+  const lines = [header.join(',')];
+  rows.forEach((row, index) => {
+    const rowStats = stats[index];
+    if (!rowStats) return;
+    const regions: [string, ColocalizationStats | null][] = [['full', rowStats.full], ['crop', rowStats.crop]];
+    regions.forEach(([region, s]) => {
+      if (!s) return;
+      const fields = [
+        index + 1, row.rowLabel, config.channels[channelA].label, config.channels[channelB].label, region,
+        ...CSV_COLUMNS.map(c => s[c])
+      ];
+      lines.push(fields.map(csvField).join(','));
+    });
+  });
+  return lines.join('\n') + '\n';
+};
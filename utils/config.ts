@@ -0,0 +1,96 @@
+import { ProcessingConfig } from '../types';
+import { DEFAULT_CHANNEL_CONFIGS, MAX_CHANNELS } from './channels';
+
+export const DEFAULT_CONFIG: ProcessingConfig = {
+  targetWidth: 494,
+  targetHeight: 246,
+  targetIntensity: 200,
+  randomness: 0.05,
+  seed: 1,
+  intensityMode: 'per-image',
+  clipBottom: 25,
+  roiStrategy: 'co-brightest',
+  channelCount: 2,
+  channels: DEFAULT_CHANNEL_CONFIGS,
+  mergeLabel: "Merge",
+  registration: {
+    autoApply: false,
+    allowRotation: false,
+    maxRotationDeg: 2
+  },
+  colocalization: {
+    enabled: false,
+    channelA: 0,
+    channelB: 1,
+    showCytofluorogram: false
+  },
+  showLabels: true,
+  rowLabelFontSize: 24,
+  columnLabelFontSize: 24,
+  fontFamily: 'sans-serif',
+  panelLetters: {
+    mode: 'none',
+    fontSize: 28,
+    lowercase: false
+  },
+  scaleBar: {
+    enabled: false,
+    lengthUm: 20,
+    thickness: 6,
+    position: 'bottom-right',
+    color: '#ffffff',
+    showText: true,
+    fontSize: 18,
+    panels: ['merge']
+  },
+  layout: {
+    transpose: false,
+    panelOrder: [],
+    hiddenPanels: [],
+    gapX: 10,
+    gapY: 10,
+    margin: 0,
+    background: '#ffffff',
+    headers: 'overlay'
+  },
+  insets: {
+    mode: 'corner',
+    zoom: 3,
+    size: 0.4,
+    corner: 'top-right',
+    source: 'merge',
+    borderColor: '#ffffff',
+    borderWidth: 2,
+    interpolation: 'nearest'
+  }
+};
+
+// A saved setting over its default. Nested settings are merged one level
+// deep so newly added sub-fields get defaults.
+const mergeSetting = <K extends keyof ProcessingConfig>(key: K, saved: Partial<Pick<ProcessingConfig, K>>): ProcessingConfig[K] => {
+  const fallback = DEFAULT_CONFIG[key];
+  const value = saved[key];
+  if (value === undefined) return fallback;
+  if (fallback && typeof fallback === 'object' && !Array.isArray(fallback) && value && typeof value === 'object') {
+    return { ...fallback, ...value };
+  }
+  return value;
+};
+
+// Fill in fields missing from a config saved by an older version
+export const withConfigDefaults = (saved: Partial<ProcessingConfig>): ProcessingConfig => {
+  const merged: ProcessingConfig = { ...DEFAULT_CONFIG, ...saved };
+  (Object.keys(DEFAULT_CONFIG) as (keyof ProcessingConfig)[]).forEach(<K extends keyof ProcessingConfig>(key: K) => {
+    merged[key] = mergeSetting(key, saved);
+  });
+  merged.channels = Array.from({ length: MAX_CHANNELS }, (_, i) => ({
+    ...DEFAULT_CHANNEL_CONFIGS[i],
+    ...saved.channels?.[i],
+    preprocess: { ...DEFAULT_CHANNEL_CONFIGS[i].preprocess, ...saved.channels?.[i]?.preprocess }
+  }));
+  // Before the layout settings, `padding` was the gap between panels
+  const { padding } = saved as { padding?: number };
+  delete (merged as { padding?: number }).padding;
+  if (!saved.layout && typeof padding === 'number') merged.layout = { ...merged.layout, gapX: padding };
+  return merged;
+};
@@ -0,0 +1,322 @@
+import { OverlayItem, ProcessedRow, ProcessingConfig, RgbaImage, RowRenderInfo } from '../types';
+import { drawOverlays } from './canvas';
+import { getInsetColumnCount, hexToRgb } from './channels';
+import { getRowLayout, offsetOverlays } from './imageProcessing';
+import { FigureCondition, FigureLayout, layoutFigure } from './layout';
+import { createPdf, PdfFont, PdfImage, winAnsiHex } from './pdf';
+import { encodePng } from './pngWriter';
+import { copyRgba, createRgba, cropRgba } from './raster';
+
+// Montage composition and export. Rows are rendered as strips of panels and
+// placed by the figure layout. In vector exports every panel is embedded as a
+// raster at its rendered resolution; labels and scale bars are written as
+// real text and shapes so they stay editable in Illustrator or Inkscape.
+
+export type ExportFormat = 'png' | 'tiff' | 'svg' | 'pdf';
+
+export const EXPORT_FORMATS: { value: ExportFormat, label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'tiff', label: 'TIFF (LZW)' },
+  { value: 'svg', label: 'SVG (editable text)' },
+  { value: 'pdf', label: 'PDF (editable text)' }
+];
+
+export interface ExportSettings {
+  format: ExportFormat;
+  widthMm: number | null; // printed figure width; null keeps the preview's pixel size
+  dpi: number;
+  tiffBitDepth: 8 | 16;
+  clipWarnPercent: number; // ask before exporting rows with more clipped pixels in a channel
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = { format: 'png', widthMm: null, dpi: 300, tiffBitDepth: 8, clipWarnPercent: 1 };
+
+// Common journal figure widths
+export const WIDTH_PRESETS: { label: string, mm: number }[] = [
+  { label: 'Single column', mm: 85 },
+  { label: '1.5 column', mm: 114 },
+  { label: 'Double column', mm: 174 }
+];
+
+export const DPI_PRESETS = [300, 600];
+
+export const MM_PER_INCH = 25.4;
+
+// Pixel scale that prints a montage `nativeWidth` px wide at the chosen width
+export const exportScale = (settings: ExportSettings, nativeWidth: number): number =>
+  settings.widthMm && nativeWidth > 0 ? (settings.widthMm / MM_PER_INCH) * settings.dpi / nativeWidth : 1;
+
+export interface UpscaleWarning {
+  row: number; // 1-based position in the montage
+  label: string;
+  factor: number; // output pixels per source pixel
+}
+
+// Rendered rows whose crops would be enlarged beyond their source resolution
+export const findUpscaling = (rows: ProcessedRow[], config: ProcessingConfig, scale: number): UpscaleWarning[] => {
+  const { panelW, panelH } = getRowLayout(config, scale);
+  return rows.flatMap((row, idx) => {
+    const roi = row.renderInfo!.roi;
+    const factor = Math.max(panelW / roi.w, panelH / roi.h);
+    return factor > 1 ? [{ row: idx + 1, label: row.rowLabel, factor }] : [];
+  });
+};
+
+export interface FigureRow {
+  raster: RgbaImage; // the row's panel strip, as rendered by processRow
+  info: RowRenderInfo;
+  label: string;
+}
+
+interface FigurePanel {
+  x: number;
+  y: number;
+  image: RgbaImage;
+}
+
+export interface Figure {
+  width: number;
+  height: number;
+  background: string;
+  rows: { panels: FigurePanel[], overlays: OverlayItem[] }[];
+  headers: OverlayItem[];
+}
+
+const conditionsOf = (rows: FigureRow[], config: ProcessingConfig): FigureCondition[] =>
+  rows.map(row => ({ label: row.label, insetColumns: getInsetColumnCount(config, row.info) }));
+
+// Figure layout of a montage of rendered rows, rendered at `scale`
+export const layoutRenderedRows = (config: ProcessingConfig, rows: ProcessedRow[], scale: number): FigureLayout =>
+  layoutFigure(config, rows.map(row => ({
+    label: row.rowLabel,
+    insetColumns: row.renderInfo ? getInsetColumnCount(config, row.renderInfo) : 0
+  })), scale);
+
+export const figureSize = (config: ProcessingConfig, rows: ProcessedRow[], scale: number) => {
+  const { width, height } = layoutRenderedRows(config, rows, scale);
+  return { width, height };
+};
+
+// Panels cut from rows rendered at `scale` (without overlays), placed by the
+// figure layout, with their overlays moved to figure coordinates
+export const buildFigure = (rows: FigureRow[], config: ProcessingConfig, scale: number): Figure => {
+  const layout = layoutFigure(config, conditionsOf(rows, config), scale);
+  const strip = getRowLayout(config, scale);
+  return {
+    width: layout.width,
+    height: layout.height,
+    background: layout.background,
+    rows: rows.map((row, idx) => ({
+      panels: layout.cells[idx].map((cell, p) =>
+        ({ ...cell, image: cropRgba(row.raster, strip.panelX(p), 0, layout.panelW, layout.panelH) })),
+      overlays: layout.cells[idx].flatMap((cell, p) => offsetOverlays(row.info.overlays[p] ?? [], cell.x, cell.y))
+    })),
+    headers: layout.headers
+  };
+};
+
+// Raster montage without headers: panels copied from rows rendered at
+// `scale`, with whatever overlays the rows were rendered with
+export const composeFigure = (rows: FigureRow[], config: ProcessingConfig, scale: number): RgbaImage => {
+  const layout = layoutFigure(config, conditionsOf(rows, config), scale);
+  const strip = getRowLayout(config, scale);
+  const image = createRgba(layout.width, layout.height, layout.background);
+  rows.forEach((row, idx) => {
+    layout.cells[idx].forEach((cell, p) => {
+      copyRgba(row.raster, image, cell.x, cell.y, strip.panelX(p), 0, layout.panelW, layout.panelH);
+    });
+  });
+  return image;
+};
+
+// Headers outside the images of a montage, in figure coordinates
+export const figureHeaders = (rows: FigureRow[], config: ProcessingConfig, scale: number): OverlayItem[] =>
+  layoutFigure(config, conditionsOf(rows, config), scale).headers;
+
+// Raster montage with its headers drawn on. Sizes `canvas` to fit.
+export const drawFigure = (canvas: HTMLCanvasElement, rows: FigureRow[], config: ProcessingConfig, scale: number) => {
+  const image = composeFigure(rows, config, scale);
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.putImageData(new ImageData(image.data, image.width, image.height), 0, 0);
+  drawOverlays(ctx, figureHeaders(rows, config, scale));
+};
+
+type TextItem = Extract<OverlayItem, { kind: 'text' }>;
+
+const cssFont = (item: TextItem) => `${item.bold ? 'bold ' : ''}${item.fontSize}px ${item.fontFamily}`;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Width of the text and its alphabetic baseline, which is where SVG and PDF
+// place text; overlays are positioned by their top, middle or bottom as on canvas.
+// Without a DOM (command line) the width is estimated from the font size.
+const measureText = (item: TextItem): { width: number, baselineY: number } => {
+  // Sign conventions for alphabeticBaseline differ between browsers, but the
+  // baseline is always below a top edge or middle and above a bottom edge
+  const fallback = { top: 0.8, middle: 0.3, bottom: 0.2 }[item.baseline];
+  let metrics = { width: item.text.length * item.fontSize * (item.bold ? 0.6 : 0.55), alphabeticBaseline: 0 };
+  if (typeof document !== 'undefined') {
+    measureContext ??= document.createElement('canvas').getContext('2d')!;
+    measureContext.font = cssFont(item);
+    measureContext.textBaseline = item.baseline;
+    metrics = measureContext.measureText(item.text);
+  }
+  const offset = Math.abs(metrics.alphabeticBaseline || 0) || item.fontSize * fallback;
+  return { width: metrics.width, baselineY: item.baseline === 'bottom' ? item.y - offset : item.y + offset };
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const num = (v: number) => String(Math.round(v * 100) / 100);
+
+const svgOverlay = (item: OverlayItem): string => {
+  if (item.kind === 'rect') {
+    return `<rect x="${num(item.x)}" y="${num(item.y)}" width="${num(item.width)}" height="${num(item.height)}" fill="${escapeXml(item.fill)}"/>`;
+  }
+  if (item.kind === 'frame') {
+    const half = item.lineWidth / 2;
+    return `<rect x="${num(item.x + half)}" y="${num(item.y + half)}" width="${num(item.width - item.lineWidth)}" height="${num(item.height - item.lineWidth)}"` +
+      ` fill="none" stroke="${escapeXml(item.stroke)}" stroke-width="${num(item.lineWidth)}"/>`;
+  }
+  if (item.kind === 'line') {
+    return `<line x1="${num(item.x)}" y1="${num(item.y)}" x2="${num(item.x + item.dx)}" y2="${num(item.y + item.dy)}"` +
+      ` stroke="${escapeXml(item.stroke)}" stroke-width="${num(item.lineWidth)}" stroke-linecap="round"/>`;
+  }
+  if (item.kind === 'circle') {
+    return `<circle cx="${num(item.x)}" cy="${num(item.y)}" r="${num(item.radius)}" fill="none" stroke="${escapeXml(item.stroke)}" stroke-width="${num(item.lineWidth)}"/>`;
+  }
+  if (item.kind === 'polygon') {
+    const points = [];
+    for (let i = 0; i < item.points.length; i += 2) points.push(`${num(item.x + item.points[i])},${num(item.y + item.points[i + 1])}`);
+    return `<polygon points="${points.join(' ')}" fill="${escapeXml(item.fill)}"/>`;
+  }
+  const { baselineY } = measureText(item);
+  return `<text x="${num(item.x)}" y="${num(baselineY)}" font-family="${escapeXml(item.fontFamily)}" font-size="${num(item.fontSize)}"` +
+    `${item.bold ? ' font-weight="bold"' : ''} fill="${escapeXml(item.fill)}" text-anchor="${item.align === 'center' ? 'middle' : 'start'}"` +
+    `${item.shadow ? ' filter="url(#label-shadow)"' : ''} xml:space="preserve">${escapeXml(item.text)}</text>`;
+};
+
+const pngDataUrl = async (image: RgbaImage): Promise<string> => {
+  const bytes = new Uint8Array(await (await encodePng(image)).arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return `data:image/png;base64,${btoa(binary)}`;
+};
+
+// Drawn in pixel units; the width and height give the physical size at `dpi`
+export const figureToSvg = async (figure: Figure, metadata: string, dpi: number): Promise<string> => {
+  const mm = (px: number) => num(px / dpi * MM_PER_INCH);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${mm(figure.width)}mm" height="${mm(figure.height)}mm" viewBox="0 0 ${figure.width} ${figure.height}">`,
+    `<metadata><![CDATA[${metadata.replace(/]]>/g, ']]]]><![CDATA[>')}]]></metadata>`,
+    '<defs>',
+    // Approximates the canvas label shadow (blur 4, 80% black)
+    '<filter id="label-shadow" x="-20%" y="-20%" width="140%" height="140%"><feDropShadow dx="0" dy="0" stdDeviation="2" flood-color="#000000" flood-opacity="0.8"/></filter>',
+    '</defs>',
+    `<rect x="0" y="0" width="${figure.width}" height="${figure.height}" fill="${escapeXml(figure.background)}"/>`
+  ];
+  for (const [idx, row] of figure.rows.entries()) {
+    lines.push(`<g id="row-${idx + 1}">`);
+    for (const panel of row.panels) {
+      lines.push(`<image x="${panel.x}" y="${panel.y}" width="${panel.image.width}" height="${panel.image.height}" xlink:href="${await pngDataUrl(panel.image)}"/>`);
+    }
+    row.overlays.forEach(item => lines.push(svgOverlay(item)));
+    lines.push('</g>');
+  }
+  if (figure.headers.length > 0) {
+    lines.push('<g id="headers">', ...figure.headers.map(svgOverlay), '</g>');
+  }
+  lines.push('</svg>');
+  return lines.join('\n') + '\n';
+};
+
+// Closest standard PDF font to a CSS font-family list
+const pdfFont = (fontFamily: string, bold: boolean): PdfFont => {
+  const family = fontFamily.toLowerCase();
+  if (/courier|mono/.test(family)) return bold ? 'Courier-Bold' : 'Courier';
+  if (/times|georgia|(^|[\s,'"])serif/.test(family)) return bold ? 'Times-Bold' : 'Times-Roman';
+  return bold ? 'Helvetica-Bold' : 'Helvetica';
+};
+
+const toRgb = ({ width, height, data }: RgbaImage): Uint8Array => {
+  const rgb = new Uint8Array(width * height * 3);
+  for (let i = 0, j = 0; i < data.length; i += 4, j += 3) {
+    rgb[j] = data[i];
+    rgb[j + 1] = data[i + 1];
+    rgb[j + 2] = data[i + 2];
+  }
+  return rgb;
+};
+
+// One page the size of the figure printed at `dpi`. Text shadows are left
+// out: PDF has no blur, and editors handle plain text best.
+export const figureToPdf = (figure: Figure, info: Record<string, string>, dpi: number): Promise<Blob> => {
+  const images: PdfImage[] = [];
+  const fonts: PdfFont[] = [];
+  const fontIndex = (font: PdfFont) => {
+    if (!fonts.includes(font)) fonts.push(font);
+    return fonts.indexOf(font);
+  };
+  // PDF space has its origin at the bottom left
+  const flipY = (y: number) => figure.height - y;
+  const color = (fill: string) => hexToRgb(fill).map(v => num(v)).join(' ');
+
+  // Content is drawn in pixels and scaled to points by the page matrix
+  const ptPerPx = 72 / dpi;
+  const ops: string[] = [`${ptPerPx} 0 0 ${ptPerPx} 0 0 cm`, `${color(figure.background)} rg 0 0 ${figure.width} ${figure.height} re f`];
+  const overlay = (item: OverlayItem) => {
+    if (item.kind === 'rect') {
+      ops.push(`${color(item.fill)} rg ${num(item.x)} ${num(flipY(item.y + item.height))} ${num(item.width)} ${num(item.height)} re f`);
+      return;
+    }
+    if (item.kind === 'frame') {
+      const half = item.lineWidth / 2;
+      ops.push(`${color(item.stroke)} RG ${num(item.lineWidth)} w ${num(item.x + half)} ${num(flipY(item.y + item.height - half))} ` +
+        `${num(item.width - item.lineWidth)} ${num(item.height - item.lineWidth)} re S`);
+      return;
+    }
+    if (item.kind === 'line') {
+      ops.push(`${color(item.stroke)} RG ${num(item.lineWidth)} w 1 J ${num(item.x)} ${num(flipY(item.y))} m ` +
+        `${num(item.x + item.dx)} ${num(flipY(item.y + item.dy))} l S 0 J`);
+      return;
+    }
+    if (item.kind === 'circle') {
+      // Four Bézier quarter arcs
+      const { x, y, radius: r } = item;
+      const k = r * 0.5523;
+      const p = (px: number, py: number) => `${num(px)} ${num(flipY(py))}`;
+      ops.push(`${color(item.stroke)} RG ${num(item.lineWidth)} w ${p(x + r, y)} m ` +
+        `${p(x + r, y + k)} ${p(x + k, y + r)} ${p(x, y + r)} c ${p(x - k, y + r)} ${p(x - r, y + k)} ${p(x - r, y)} c ` +
+        `${p(x - r, y - k)} ${p(x - k, y - r)} ${p(x, y - r)} c ${p(x + k, y - r)} ${p(x + r, y - k)} ${p(x + r, y)} c S`);
+      return;
+    }
+    if (item.kind === 'polygon') {
+      const path = [];
+      for (let i = 0; i < item.points.length; i += 2) {
+        path.push(`${num(item.x + item.points[i])} ${num(flipY(item.y + item.points[i + 1]))} ${i === 0 ? 'm' : 'l'}`);
+      }
+      ops.push(`${color(item.fill)} rg ${path.join(' ')} h f`);
+      return;
+    }
+    const { width, baselineY } = measureText(item);
+    const x = item.align === 'center' ? item.x - width / 2 : item.x;
+    const font = fontIndex(pdfFont(item.fontFamily, item.bold));
+    ops.push(`BT /F${font} ${num(item.fontSize)} Tf ${color(item.fill)} rg ${num(x)} ${num(flipY(baselineY))} Td ${winAnsiHex(item.text)} Tj ET`);
+  };
+  figure.rows.forEach(row => {
+    row.panels.forEach(panel => {
+      const { width, height } = panel.image;
+      ops.push(`q ${width} 0 0 ${height} ${num(panel.x)} ${num(flipY(panel.y + height))} cm /Im${images.length} Do Q`);
+      images.push({ width, height, rgb: toRgb(panel.image) });
+    });
+    row.overlays.forEach(overlay);
+  });
+  figure.headers.forEach(overlay);
+
+  const pageSize = (px: number) => Math.round(px * ptPerPx * 100) / 100;
+  return createPdf({ width: pageSize(figure.width), height: pageSize(figure.height), content: ops.join('\n'), images, fonts }, info);
+};
@@ -0,0 +1,160 @@
+import { Annotation, DisplayRange, InsetRegion, ProcessedRow, ProcessingConfig, RawImage, RawStack, Rect, RegistrationConfig, RoiStrategy, RowColocalization, RowRenderInfo, ShiftEstimate, StackSelection } from '../types';
+import {
+  decodeTiff, defaultStackSelection, getRowRoiRanges, processRow, projectStack, resolveRoiStrategy, resolveUmPerPixel
+} from './imageProcessing';
+import { stripToCanvas } from './canvas';
+import { computeRowColocalization } from './colocalization';
+import { estimateShift } from './registration';
+
+// Work that runs in the image worker pool (or inline where workers are not
+// available). Jobs refer to images by key; the pool sends each image to a
+// worker once and the worker keeps it until told to release it.
+
+export interface RenderRowArgs {
+  config: ProcessingConfig;
+  rowId: string;
+  rowLabel: string;
+  rowIndex: number; // position in the figure
+  umPerPixel: number | null;
+  linkedRanges: DisplayRange[] | null;
+  roiOverride: Rect | null;
+  roiStrategy: RoiStrategy;
+  insets: InsetRegion[];
+  annotations: Annotation[];
+  overlays: boolean; // draw labels and scale bars into the raster
+  scale: number; // output size relative to the configured panel size
+  highlightClipping: boolean; // paint clipped pixels (preview only)
+}
+
+// Render inputs of `row` at `index` in the figure
+export const rowRenderArgs = (
+  row: ProcessedRow,
+  index: number,
+  config: ProcessingConfig,
+  linkedRanges: DisplayRange[] | null,
+  overlays = true,
+  scale = 1,
+  highlightClipping = false
+): RenderRowArgs => ({
+  config,
+  rowId: row.id,
+  rowLabel: row.rowLabel,
+  rowIndex: index,
+  umPerPixel: resolveUmPerPixel(row),
+  linkedRanges,
+  roiOverride: row.roiOverride,
+  roiStrategy: resolveRoiStrategy(row, config),
+  insets: row.insets,
+  annotations: row.annotations,
+  overlays,
+  scale,
+  highlightClipping
+});
+
+// The strip a render job draws, before it is painted to a bitmap
+export const renderStrip = (images: RawImage[], a: RenderRowArgs, onProgress?: (done: number) => void) => processRow(
+  images, a.config, a.rowId, a.rowLabel, a.rowIndex, a.umPerPixel, a.linkedRanges, a.roiOverride, a.roiStrategy, a.insets, a.annotations,
+  { scale: a.scale, highlightClipping: a.highlightClipping, onProgress }
+);
+
+export interface RoiRangesArgs {
+  config: ProcessingConfig;
+  roiOverride: Rect | null;
+  roiStrategy: RoiStrategy;
+  umPerPixel: number | null; // for preprocessing radii in µm
+}
+
+export interface ProjectArgs {
+  channels: number; // hyperstack channels interleaved in the pages
+  selection: StackSelection;
+}
+
+export type RegisterArgs = Pick<RegistrationConfig, 'allowRotation' | 'maxRotationDeg'>;
+
+export interface ColocalizationArgs {
+  full: Rect; // whole frame above the bottom clip
+  crop: Rect | null; // rendered ROI, when there is one
+}
+
+export type ImageJob =
+  | { type: 'decode', file: File }
+  | { type: 'project', imageKeys: number[], args: ProjectArgs } // the stack's pages
+  | { type: 'register', imageKeys: number[], args: RegisterArgs } // reference, then the channel to align
+  | { type: 'render', imageKeys: number[], args: RenderRowArgs }
+  | { type: 'roi-ranges', imageKeys: number[], args: RoiRangesArgs }
+  | { type: 'colocalization', imageKeys: number[], args: ColocalizationArgs }; // the registered pair
+
+export type ImageJobResult =
+  | { type: 'decode', stack: RawStack, selection: StackSelection, image: RawImage } // with the default projection
+  | { type: 'project', image: RawImage }
+  | { type: 'register', estimate: ShiftEstimate }
+  | { type: 'render', bitmap: ImageBitmap, info: RowRenderInfo }
+  | { type: 'roi-ranges', ranges: DisplayRange[] }
+  | { type: 'colocalization', stats: RowColocalization };
+
+// Messages between the pool and a worker
+export interface JobRequest {
+  id: number;
+  job: ImageJob;
+  images: { key: number, image: RawImage }[]; // not yet held by the worker
+  release: number[]; // keys the worker may drop
+}
+
+export type JobResponse =
+  | { id: number, kind: 'progress', done: number }
+  | { id: number, kind: 'result', result: ImageJobResult }
+  | { id: number, kind: 'error', message: string };
+
+// Buffers moved rather than copied when a result is posted back
+export const resultTransfer = (result: ImageJobResult): Transferable[] => {
+  if (result.type === 'render') return [result.bitmap];
+  if (result.type === 'project') return [result.image.data.buffer as ArrayBuffer];
+  if (result.type === 'decode') {
+    // A single plane is one of the pages, and a buffer may be listed only once
+    const images = result.stack.pages.includes(result.image) ? result.stack.pages : [...result.stack.pages, result.image];
+    return images.map(p => p.data.buffer as ArrayBuffer);
+  }
+  return [];
+};
+
+export const runJob = async (
+  job: ImageJob,
+  imageCache: Map<number, RawImage>,
+  onProgress: (done: number) => void
+): Promise<ImageJobResult> => {
+  const images = () => (job.type === 'decode' ? [] : job.imageKeys).map(key => {
+    const image = imageCache.get(key);
+    if (!image) throw new Error(`Image ${key} is not loaded in this worker`);
+    return image;
+  });
+
+  switch (job.type) {
+    case 'decode': {
+      const stack = await decodeTiff(job.file);
+      const selection = defaultStackSelection(stack);
+      return { type: 'decode', stack, selection, image: projectStack(stack, selection) };
+    }
+    case 'project': {
+      const pages = images();
+      const image = projectStack({ pages, channels: job.args.channels, calibration: null }, job.args.selection);
+      // Planes stay cached here, so a single slice goes back as a copy
+      return { type: 'project', image: pages.includes(image) ? { ...image, data: image.data.slice() } : image };
+    }
+    case 'register': {
+      const [reference, moving] = images();
+      return { type: 'register', estimate: estimateShift(reference, moving, job.args.allowRotation, job.args.maxRotationDeg) };
+    }
+    case 'render': {
+      const a = job.args;
+      const { strip, info } = renderStrip(images(), a, onProgress);
+      const canvas = stripToCanvas(strip, info, a.config, a.scale, a.overlays);
+      return { type: 'render', bitmap: canvas.transferToImageBitmap(), info };
+    }
+    case 'roi-ranges':
+      return { type: 'roi-ranges', ranges: getRowRoiRanges(images(), job.args.config, job.args.roiOverride, job.args.roiStrategy, job.args.umPerPixel) };
+    case 'colocalization': {
+      const [a, b] = images();
+      return { type: 'colocalization', stats: computeRowColocalization(a, b, job.args.full, job.args.crop) };
+    }
+  }
+};
@@ -1,42 +1,215 @@
-import { ProcessingConfig } from '../types';
-
-const UTIF = window.UTIF;
-
-export const decodeTiff = async (file: File): Promise<ImageData> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const buffer = e.target?.result as ArrayBuffer;
-        const ifds = UTIF.decode(buffer);
-        if (!ifds || ifds.length === 0) {
-          reject(new Error("Invalid TIFF file"));
-          return;
+import { Annotation, ChannelConfig, ChannelRenderInfo, DisplayRange, Histogram, InsetRegion, Interpolation, OverlayItem, PanelId, ProcessedRow, ProcessingConfig, RawImage, RawStack, Rect, RgbaImage, RoiStrategy, RowRenderInfo, ScaleBarConfig, StackSelection } from '../types';
+import { getAvailablePanels, getInsetLabel, getPanelLabel, getPanelLetter, getPanels, getRowImages, hexToRgb, isRowComplete } from './channels';
+import { readCalibration } from './tiffMetadata';
+import { annotationOverlays } from './annotations';
+import { isPreprocessActive, preprocessImage } from './preprocess';
+import { seededUniform } from './random';
+import { copyRgba, createRgba } from './raster';
+
+// The processing core: decoding, crop selection and rendering of rows into
+// RGBA buffers. Nothing here touches the DOM, so the command-line tool runs
+// the same code as the app; canvas drawing lives in canvas.ts.
+
+// UTIF is a global script: loaded by index.html on the page, imported by the
+// image worker into its own scope, and evaluated by the command-line tool.
+// The same build everywhere.
+export const UTIF_URL = 'https://cdn.jsdelivr.net/npm/utif@3.1.0/UTIF.js';
+
+const utif = () => globalThis.UTIF;
+
+// Convert a decoded IFD into a single-sample image at its native bit depth.
+// Grayscale (BlackIsZero / WhiteIsZero) data is kept as-is; anything else
+// (RGB, palette, CMYK) falls back to 8-bit luminance via UTIF.toRGBA8.
+const toRawImage = (ifd: any): RawImage => {
+  const width: number = ifd.width;
+  const height: number = ifd.height;
+  const area = width * height;
+  const bytes: Uint8Array = ifd.data;
+  const photometric = ifd.t262 ? ifd.t262[0] : 1;
+  const bps = ifd.t258 ? ifd.t258[0] : 1;
+  const samples = ifd.t277 ? ifd.t277[0] : 1;
+  const sampleFormat = ifd.t339 ? ifd.t339[0] : 1;
+  const invert = photometric === 0;
+
+  if ((photometric === 0 || photometric === 1) && samples === 1) {
+    if (bps === 8) {
+      const data = new Uint8Array(area);
+      for (let i = 0; i < area; i++) data[i] = invert ? 255 - bytes[i] : bytes[i];
+      return { width, height, bitDepth: 8, data };
+    }
+
+    if (bps === 16) {
+      // UTIF has already swapped big-endian 16-bit strips to little-endian
+      const data = new Uint16Array(area);
+      for (let i = 0; i < area; i++) {
+        const v = bytes[i * 2] | (bytes[i * 2 + 1] << 8);
+        data[i] = invert ? 65535 - v : v;
+      }
+      return { width, height, bitDepth: 16, data };
+    }
+
+    if (bps === 12) {
+      // Packed MSB-first, rows padded to a whole byte
+      const data = new Uint16Array(area);
+      const rowBytes = Math.ceil((width * 12) / 8);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const bit = x * 12;
+          const off = y * rowBytes + (bit >> 3);
+          const v = (bit & 7) === 0
+            ? (bytes[off] << 4) | (bytes[off + 1] >> 4)
+            : ((bytes[off] & 0x0f) << 8) | bytes[off + 1];
+          data[y * width + x] = invert ? 4095 - v : v;
         }
-        const firstPage = ifds[0];
-        UTIF.decodeImage(buffer, firstPage);
-        const rgba = UTIF.toRGBA8(firstPage);
-        const imageData = new ImageData(new Uint8ClampedArray(rgba), firstPage.width, firstPage.height);
-        resolve(imageData);
-      } catch (err) {
-        reject(err);
       }
-    };
-    reader.onerror = reject;
-    reader.readAsArrayBuffer(file);
+      return { width, height, bitDepth: 12, data };
+    }
+
+    if (bps === 32) {
+      const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+      const data = new Float32Array(area);
+      for (let i = 0; i < area; i++) {
+        if (sampleFormat === 3) data[i] = view.getFloat32(i * 4, ifd.isLE);
+        else if (sampleFormat === 2) data[i] = view.getInt32(i * 4, ifd.isLE);
+        else data[i] = view.getUint32(i * 4, ifd.isLE);
+      }
+      return { width, height, bitDepth: 32, data };
+    }
+  }
+
+  const rgba = utif().toRGBA8(ifd);
+  const data = new Uint8Array(area);
+  for (let i = 0; i < area; i++) {
+    const idx = i * 4;
+    // Use standard luminance: 0.299R + 0.587G + 0.114B
+    data[i] = Math.round(0.299 * rgba[idx] + 0.587 * rgba[idx + 1] + 0.114 * rgba[idx + 2]);
+  }
+  return { width, height, bitDepth: 8, data };
+};
+
+// ImageJ writes "channels=N" into ImageDescription for hyperstacks
+const readHyperstackChannels = (ifd: any, pageCount: number): number => {
+  const description: string | undefined = ifd.t270?.[0];
+  const match = description?.match(/^channels=(\d+)/m);
+  const channels = match ? parseInt(match[1], 10) : 1;
+  return channels > 0 && pageCount % channels === 0 ? channels : 1;
+};
+
+export const decodeTiffBuffer = (buffer: ArrayBuffer): RawStack => {
+  const ifds = utif().decode(buffer);
+  // Skip IFDs without dimensions (e.g. EXIF/GPS directories)
+  const imageIfds = (ifds || []).filter((ifd: any) => ifd.t256 && ifd.t257);
+  if (imageIfds.length === 0) throw new Error("Invalid TIFF file");
+  const pages: RawImage[] = imageIfds.map((ifd: any) => {
+    utif().decodeImage(buffer, ifd);
+    return toRawImage(ifd);
   });
+  const first = pages[0];
+  if (pages.some(p => p.width !== first.width || p.height !== first.height)) {
+    throw new Error("TIFF pages have differing dimensions");
+  }
+  return {
+    pages,
+    channels: readHyperstackChannels(imageIfds[0], pages.length),
+    calibration: readCalibration(imageIfds[0])
+  };
+};
+
+export const decodeTiff = async (file: File): Promise<RawStack> => decodeTiffBuffer(await file.arrayBuffer());
+
+// µm per source pixel for a row: manual override first, then file metadata
+export const resolveUmPerPixel = (row: ProcessedRow): number | null => {
+  if (row.calibrationOverride && row.calibrationOverride > 0) return row.calibrationOverride;
+  return row.channels.find(c => c.stack?.calibration)?.stack?.calibration?.umPerPixel ?? null;
 };
 
-// Calculate integral image for fast ROI sum calculation
-const computeIntegralImage = (data: Uint8ClampedArray, width: number, height: number): Float32Array => {
-  const integral = new Float32Array(width * height);
+// Number of z planes available per channel
+export const getSliceCount = (stack: RawStack): number => stack.pages.length / stack.channels;
+
+// Single planes are used directly; real stacks default to a full-range max projection
+export const defaultStackSelection = (stack: RawStack): StackSelection => {
+  const slices = getSliceCount(stack);
+  return {
+    mode: slices > 1 ? 'max' : 'slice',
+    channel: 0,
+    slice: 0,
+    start: 0,
+    end: slices - 1
+  };
+};
+
+// Resolve a selection to one image. Single slices and max projections keep the
+// native bit depth; mean, sum and SD produce 32-bit float (as ImageJ does).
+export const projectStack = (stack: RawStack, selection: StackSelection): RawImage => {
+  const slices = getSliceCount(stack);
+  const channel = Math.min(Math.max(0, selection.channel), stack.channels - 1);
+  const plane = (z: number) => stack.pages[z * stack.channels + channel];
+
+  if (selection.mode === 'slice') {
+    return plane(Math.min(Math.max(0, selection.slice), slices - 1));
+  }
+
+  const start = Math.min(Math.max(0, Math.min(selection.start, selection.end)), slices - 1);
+  const end = Math.min(Math.max(selection.start, selection.end), slices - 1);
+  const first = plane(start);
+  const area = first.width * first.height;
+  const count = end - start + 1;
+
+  if (selection.mode === 'max') {
+    const data = first.data.slice();
+    for (let z = start + 1; z <= end; z++) {
+      const src = plane(z).data;
+      for (let i = 0; i < area; i++) {
+        if (src[i] > data[i]) data[i] = src[i];
+      }
+    }
+    return { width: first.width, height: first.height, bitDepth: first.bitDepth, data };
+  }
+
+  const sum = new Float64Array(area);
+  const sumSq = selection.mode === 'sd' ? new Float64Array(area) : null;
+  for (let z = start; z <= end; z++) {
+    const src = plane(z).data;
+    for (let i = 0; i < area; i++) {
+      sum[i] += src[i];
+      if (sumSq) sumSq[i] += src[i] * src[i];
+    }
+  }
+
+  const data = new Float32Array(area);
+  for (let i = 0; i < area; i++) {
+    if (selection.mode === 'sum') {
+      data[i] = sum[i];
+    } else if (selection.mode === 'mean') {
+      data[i] = sum[i] / count;
+    } else {
+      // Sample standard deviation, matching ImageJ's Z Project
+      const mean = sum[i] / count;
+      data[i] = count > 1 ? Math.sqrt(Math.max(0, (sumSq![i] - count * mean * mean) / (count - 1))) : 0;
+    }
+  }
+  return { width: first.width, height: first.height, bitDepth: 32, data };
+};
+
+// Nominal full-scale value for the image's bit depth. Float data has no
+// nominal range, so its observed maximum is used instead.
+export const getFullScale = (img: RawImage): number => {
+  if (img.bitDepth !== 32) return (1 << img.bitDepth) - 1;
+  let max = 0;
+  for (let i = 0; i < img.data.length; i++) {
+    if (img.data[i] > max) max = img.data[i];
+  }
+  return max || 1;
+};
+
+// Summed-area table of a per-pixel quantity for fast window sums.
+// Float64 keeps sums of normalized 16-bit data over large frames exact enough.
+const computeIntegral = (width: number, height: number, valueAt: (i: number) => number): Float64Array => {
+  const integral = new Float64Array(width * height);
   for (let y = 0; y < height; y++) {
     let rowSum = 0;
     for (let x = 0; x < width; x++) {
-      const idx = (y * width + x) * 4;
-      // Use standard luminance: 0.299R + 0.587G + 0.114B
-      const lum = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
-      rowSum += lum;
+      rowSum += valueAt(y * width + x);
       if (y === 0) {
         integral[y * width + x] = rowSum;
       } else {
@@ -48,7 +221,7 @@ const computeIntegralImage = (data: Uint8ClampedArray, width: number, height: nu
 };
 
 // Get sum of rectangle from integral image
-const getRectSum = (integral: Float32Array, width: number, x: number, y: number, w: number, h: number): number => {
+const getRectSum = (integral: Float64Array, width: number, x: number, y: number, w: number, h: number): number => {
   const x2 = x + w - 1;
   const y2 = y + h - 1;
   
@@ -60,15 +233,141 @@ const getRectSum = (integral: Float32Array, width: number, x: number, y: number,
   return D - B - C + A;
 };
 
-export const findCoBrightestROI = (
-  img1: ImageData, 
-  img2: ImageData, 
+export const ROI_STRATEGIES: { value: RoiStrategy, label: string, scoreLabel: string }[] = [
+  { value: 'co-brightest', label: 'Co-brightest', scoreLabel: 'mean intensity' },
+  { value: 'representative', label: 'Representative (near median)', scoreLabel: '−|mean − median|' },
+  { value: 'colocalization', label: 'Max colocalization', scoreLabel: 'mean Pearson r' },
+  { value: 'focus', label: 'Sharpest (Laplacian variance)', scoreLabel: 'Laplacian variance' },
+  { value: 'center', label: 'Centered', scoreLabel: 'mean intensity' },
+  { value: 'avoid-saturation', label: 'Bright, avoiding saturation', scoreLabel: 'intensity − clipping penalty' }
+];
+
+// Weight of the clipped-pixel fraction against mean intensity (both 0-1), so
+// any noticeable saturation outweighs a brighter region
+const SATURATION_PENALTY = 10;
+
+// Window positions evaluated by the ROI search, all of one crop size
+interface RoiCandidates {
+  cropW: number;
+  cropH: number;
+  xs: number[];
+  ys: number[];
+}
+
+// Mean of a per-pixel quantity over every candidate window, indexed iy * xs.length + ix
+const windowMeans = (integral: Float64Array, width: number, c: RoiCandidates): Float64Array => {
+  const out = new Float64Array(c.xs.length * c.ys.length);
+  const area = c.cropW * c.cropH;
+  c.ys.forEach((y, iy) => c.xs.forEach((x, ix) => {
+    out[iy * c.xs.length + ix] = getRectSum(integral, width, x, y, c.cropW, c.cropH) / area;
+  }));
+  return out;
+};
+
+// Median of the searchable rows, estimated from at most ~64k evenly spaced samples
+const sampleMedian = (img: RawImage, height: number): number => {
+  const area = img.width * height;
+  const step = Math.max(1, Math.floor(area / 65536));
+  const samples = new Float64Array(Math.ceil(area / step));
+  for (let i = 0, j = 0; i < area; i += step, j++) samples[j] = img.data[i];
+  samples.sort();
+  return samples[Math.floor(samples.length / 2)];
+};
+
+// 4-neighbour Laplacian of the normalized image, with edges clamped
+const laplacian = (img: RawImage, fullScale: number): Float32Array => {
+  const { width, height, data } = img;
+  const out = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const up = Math.max(0, y - 1) * width;
+    const down = Math.min(height - 1, y + 1) * width;
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - 1);
+      const right = Math.min(width - 1, x + 1);
+      const i = y * width + x;
+      out[i] = (data[up + x] + data[down + x] + data[y * width + left] + data[y * width + right] - 4 * data[i]) / fullScale;
+    }
+  }
+  return out;
+};
+
+// Score every candidate window under a strategy; higher is always better.
+// Channels are normalized by full scale so different bit depths weigh equally.
+const scoreCandidates = (images: RawImage[], strategy: RoiStrategy, c: RoiCandidates, searchHeight: number): Float64Array => {
+  const { width, height } = images[0];
+  const scales = images.map(getFullScale);
+  const count = c.xs.length * c.ys.length;
+  const means = (valueAt: (i: number) => number) => windowMeans(computeIntegral(width, height, valueAt), width, c);
+  // Per-channel mean intensity, shared by most strategies but not needed by all
+  let meansCache: Float64Array[] | null = null;
+  const channelMeans = () => meansCache ??= images.map((img, k) => means(i => img.data[i] / scales[k]));
+  const brightness = () => {
+    const total = new Float64Array(count);
+    channelMeans().forEach(m => m.forEach((v, j) => { total[j] += v / images.length; }));
+    return total;
+  };
+
+  switch (strategy) {
+    case 'representative': {
+      const total = new Float64Array(count);
+      images.forEach((img, k) => {
+        const median = sampleMedian(img, searchHeight) / scales[k];
+        channelMeans()[k].forEach((v, j) => { total[j] -= Math.abs(v - median) / images.length; });
+      });
+      return total;
+    }
+    case 'colocalization': {
+      // A single channel has nothing to correlate with
+      if (images.length < 2) return brightness();
+      const m = channelMeans();
+      const sds = images.map((img, k) => means(i => (img.data[i] / scales[k]) ** 2)
+        .map((v, j) => Math.sqrt(Math.max(0, v - m[k][j] ** 2))));
+      const total = new Float64Array(count);
+      let pairs = 0;
+      for (let a = 0; a < images.length; a++) {
+        for (let b = a + 1; b < images.length; b++) {
+          const cross = means(i => (images[a].data[i] / scales[a]) * (images[b].data[i] / scales[b]));
+          cross.forEach((v, j) => {
+            const denom = sds[a][j] * sds[b][j];
+            total[j] += denom > 0 ? (v - m[a][j] * m[b][j]) / denom : 0;
+          });
+          pairs++;
+        }
+      }
+      return total.map(v => v / pairs);
+    }
+    case 'focus': {
+      const total = new Float64Array(count);
+      images.forEach((img, k) => {
+        const lap = laplacian(img, scales[k]);
+        const m = means(i => lap[i]);
+        means(i => lap[i] * lap[i]).forEach((v, j) => { total[j] += (v - m[j] ** 2) / images.length; });
+      });
+      return total;
+    }
+    case 'avoid-saturation': {
+      const clipped = means(i => images.some((img, k) => img.data[i] >= scales[k]) ? 1 : 0);
+      return brightness().map((v, j) => v - SATURATION_PENALTY * clipped[j]);
+    }
+    default:
+      // 'co-brightest', and 'center' which only has the one candidate
+      return brightness();
+  }
+};
+
+// Pick the crop with the panel aspect ratio, as large as the image allows,
+// that scores best under the given strategy. Rows within clipBottom of the
+// bottom edge (burned-in text, scale bars) are never included.
+export const findROI = (
+  images: RawImage[],
+  strategy: RoiStrategy,
   targetAspectRatio: number,
   clipBottom: number
-): { x: number, y: number, w: number, h: number } => {
-  const w = img1.width;
+): { roi: Rect, score: number } => {
+  const w = images[0].width;
+  const fullH = images[0].height;
   // Reduce effective height by the clipped amount to avoid text at bottom
-  const h = Math.max(1, img1.height - clipBottom);
+  const h = Math.max(1, fullH - clipBottom);
   
   // Calculate crop dimensions based on source size and target aspect ratio
   // We want to maximize the crop area within the 512x512 image
@@ -80,201 +379,599 @@ export const findCoBrightestROI = (
     cropW = Math.floor(h * targetAspectRatio);
   }
 
-  const integral1 = computeIntegralImage(img1.data, w, img1.height);
-  const integral2 = computeIntegralImage(img2.data, w, img1.height);
+  // Stride for performance
+  const stride = 4;
+  const positions = (range: number) => Array.from({ length: Math.floor(range / stride) + 1 }, (_, i) => i * stride);
+  const candidates: RoiCandidates = strategy === 'center'
+    ? { cropW, cropH, xs: [Math.floor((w - cropW) / 2)], ys: [Math.floor((h - cropH) / 2)] }
+    : { cropW, cropH, xs: positions(w - cropW), ys: positions(h - cropH) };
 
-  let maxBrightness = -1;
-  let bestX = 0;
-  let bestY = 0;
+  const scores = scoreCandidates(images, strategy, candidates, h);
+  let best = 0;
+  for (let j = 1; j < scores.length; j++) {
+    if (scores[j] > scores[best]) best = j;
+  }
+  const x = candidates.xs[best % candidates.xs.length];
+  const y = candidates.ys[Math.floor(best / candidates.xs.length)];
+  return { roi: { x, y, w: cropW, h: cropH }, score: scores[best] };
+};
 
-  // Stride for performance
-  const stride = 4; 
-
-  // Ensure y loop doesn't go past the effective height
-  for (let y = 0; y <= h - cropH; y += stride) {
-    for (let x = 0; x <= w - cropW; x += stride) {
-      const sum1 = getRectSum(integral1, w, x, y, cropW, cropH);
-      const sum2 = getRectSum(integral2, w, x, y, cropW, cropH);
-      
-      const total = sum1 + sum2;
-      
-      if (total > maxBrightness) {
-        maxBrightness = total;
-        bestX = x;
-        bestY = y;
+// Snap a crop to the panel aspect ratio and inside the image, keeping its
+// center. Manual ROIs go through this on every render so they stay valid when
+// the panel shape or the loaded image changes.
+export const fitRoi = (roi: Rect, width: number, height: number, targetAspectRatio: number): Rect => {
+  let w = Math.max(1, Math.min(width, Math.round(roi.w)));
+  let h = Math.max(1, Math.round(w / targetAspectRatio));
+  if (h > height) {
+    h = height;
+    w = Math.max(1, Math.min(width, Math.round(h * targetAspectRatio)));
+  }
+  const cx = roi.x + roi.w / 2;
+  const cy = roi.y + roi.h / 2;
+  const x = Math.min(width - w, Math.max(0, Math.round(cx - w / 2)));
+  const y = Math.min(height - h, Math.max(0, Math.round(cy - h / 2)));
+  return { x, y, w, h };
+};
+
+export const resolveRoiStrategy = (row: ProcessedRow, config: ProcessingConfig): RoiStrategy =>
+  row.roiStrategy ?? config.roiStrategy;
+
+// The row's manual crop when it has one, otherwise the strategy's best region.
+// A manual crop is still scored so it can be compared with the automatic pick.
+const selectRoi = (images: RawImage[], config: ProcessingConfig, roiOverride: Rect | null, strategy: RoiStrategy): { roi: Rect, score: number } => {
+  const ratio = config.targetWidth / config.targetHeight;
+  if (!roiOverride) return findROI(images, strategy, ratio, config.clipBottom);
+  const roi = fitRoi(roiOverride, images[0].width, images[0].height, ratio);
+  const searchHeight = Math.max(1, images[0].height - config.clipBottom);
+  const score = scoreCandidates(images, strategy, { cropW: roi.w, cropH: roi.h, xs: [roi.x], ys: [roi.y] }, searchHeight)[0];
+  return { roi, score };
+};
+
+// Crop + resize of a raw image into float samples (native units). Bilinear
+// by default; nearest keeps source pixels as hard-edged blocks when zooming.
+const resampleCrop = (
+  source: RawImage,
+  roi: Rect,
+  outW: number,
+  outH: number,
+  interpolation: Interpolation = 'bilinear'
+): Float32Array => {
+  const out = new Float32Array(outW * outH);
+  const sx = roi.w / outW;
+  const sy = roi.h / outH;
+  const src = source.data;
+  const sw = source.width;
+  if (interpolation === 'nearest') {
+    for (let y = 0; y < outH; y++) {
+      const row = Math.min(source.height - 1, Math.max(0, Math.floor(roi.y + (y + 0.5) * sy))) * sw;
+      for (let x = 0; x < outW; x++) {
+        out[y * outW + x] = src[row + Math.min(sw - 1, Math.max(0, Math.floor(roi.x + (x + 0.5) * sx)))];
       }
     }
+    return out;
   }
+  for (let y = 0; y < outH; y++) {
+    const fy = Math.min(source.height - 1, Math.max(0, roi.y + (y + 0.5) * sy - 0.5));
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(source.height - 1, y0 + 1);
+    const ty = fy - y0;
+    for (let x = 0; x < outW; x++) {
+      const fx = Math.min(sw - 1, Math.max(0, roi.x + (x + 0.5) * sx - 0.5));
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(sw - 1, x0 + 1);
+      const tx = fx - x0;
+      const top = src[y0 * sw + x0] * (1 - tx) + src[y0 * sw + x1] * tx;
+      const bottom = src[y1 * sw + x0] * (1 - tx) + src[y1 * sw + x1] * tx;
+      out[y * outW + x] = top * (1 - ty) + bottom * ty;
+    }
+  }
+  return out;
+};
 
-  return { x: bestX, y: bestY, w: cropW, h: cropH };
+// Range leaving `saturated` % of the values outside it, half below and half above
+export const percentileRange = (values: ArrayLike<number>, saturated: number): DisplayRange => {
+  const sorted = Float32Array.from(values).sort();
+  const tail = Math.min(Math.floor(sorted.length * saturated / 200), (sorted.length - 1) >> 1);
+  return { min: sorted[tail], max: sorted[sorted.length - 1 - tail] };
 };
 
-export const processRow = (
-  img1: ImageData,
-  img2: ImageData,
+export const HISTOGRAM_BINS = 256;
+
+// Histogram of crop samples, binned over the bit depth's full range so the
+// crops of different rows line up. Float data has no nominal range and uses
+// the crop's own.
+const cropHistogram = (values: Float32Array, bitDepth: RawImage['bitDepth']): Histogram => {
+  let min = 0;
+  let max = bitDepth === 32 ? -Infinity : (1 << bitDepth) - 1;
+  if (bitDepth === 32) {
+    min = Infinity;
+    for (let i = 0; i < values.length; i++) {
+      if (values[i] < min) min = values[i];
+      if (values[i] > max) max = values[i];
+    }
+    if (!(max > min)) max = min + 1;
+  }
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+  const binWidth = (max - min) / HISTOGRAM_BINS;
+  for (let i = 0; i < values.length; i++) {
+    counts[Math.max(0, Math.min(HISTOGRAM_BINS - 1, Math.floor((values[i] - min) / binWidth)))]++;
+  }
+  return { min, max, counts };
+};
+
+// One histogram over the combined span of several, each bin's count moved to
+// the bin holding its centre. Null when there is nothing to combine.
+export const mergeHistograms = (histograms: Histogram[]): Histogram | null => {
+  if (histograms.length === 0) return null;
+  const min = Math.min(...histograms.map(h => h.min));
+  const max = Math.max(...histograms.map(h => h.max));
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+  histograms.forEach(h => {
+    const width = (h.max - h.min) / h.counts.length;
+    h.counts.forEach((n, i) => {
+      const centre = h.min + (i + 0.5) * width;
+      counts[Math.max(0, Math.min(HISTOGRAM_BINS - 1, Math.floor((centre - min) / (max - min) * HISTOGRAM_BINS)))] += n;
+    });
+  });
+  return { min, max, counts };
+};
+
+// Range of the source pixels inside an ROI, in native units, by the
+// channel's range mode: 0 to the max (the black point of a per-image 'max'
+// mapping too), percentiles, or its manual range
+const getRoiRange = (img: RawImage, roi: Rect, channel: ChannelConfig): DisplayRange => {
+  if (channel.rangeMode === 'manual') return { ...channel.manualRange };
+  const values = new Float32Array(roi.w * roi.h);
+  for (let y = 0; y < roi.h; y++) {
+    values.set(img.data.subarray((roi.y + y) * img.width + roi.x, (roi.y + y) * img.width + roi.x + roi.w), y * roi.w);
+  }
+  if (channel.rangeMode === 'percentile') return percentileRange(values, channel.saturated);
+  let max = 0;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] > max) max = values[i];
+  }
+  return { min: 0, max };
+};
+
+// Preprocessed versions of source images, kept until the settings change so
+// re-rendering a row only repeats the preprocessing it has to
+const preprocessCache = new WeakMap<RawImage, { signature: string, image: RawImage }>();
+
+// A row's channel images after their channel's preprocessing
+const preprocessChannels = (images: RawImage[], config: ProcessingConfig, umPerPixel: number | null): RawImage[] =>
+  images.map((img, c) => {
+    const settings = config.channels[c].preprocess;
+    if (!isPreprocessActive(settings)) return img;
+    const signature = JSON.stringify([settings, umPerPixel]);
+    const cached = preprocessCache.get(img);
+    if (cached?.signature === signature) return cached.image;
+    const image = preprocessImage(img, settings, umPerPixel);
+    preprocessCache.set(img, { signature, image });
+    return image;
+  });
+
+// Per-channel range inside the crop one row would render with
+export const getRowRoiRanges = (
+  images: RawImage[],
+  config: ProcessingConfig,
+  roiOverride: Rect | null,
+  roiStrategy: RoiStrategy,
+  umPerPixel: number | null
+): DisplayRange[] => {
+  const prepared = preprocessChannels(images, config, umPerPixel);
+  const { roi } = selectRoi(prepared, config, roiOverride, roiStrategy);
+  return prepared.map((img, c) => getRoiRange(img, roi, config.channels[c]));
+};
+
+// Union of per-row ranges, channel by channel. Null when there are no rows.
+export const mergeRanges = (rowRanges: DisplayRange[][], channelCount: number): DisplayRange[] | null => {
+  if (rowRanges.length === 0) return null;
+  return Array.from({ length: channelCount }, (_, c) => ({
+    min: Math.min(...rowRanges.map(r => r[c].min)),
+    max: Math.max(...rowRanges.map(r => r[c].max))
+  }));
+};
+
+// One display range per channel spanning the selected crops of every complete
+// row. Returns null when no row has all channels loaded.
+export const computeLinkedRanges = (rows: ProcessedRow[], config: ProcessingConfig): DisplayRange[] | null =>
+  mergeRanges(
+    rows
+      .filter(row => isRowComplete(row, config.channelCount))
+      .map(row => getRowRoiRanges(
+        getRowImages(row, config.channelCount) as RawImage[], config, row.roiOverride, resolveRoiStrategy(row, config), resolveUmPerPixel(row)
+      )),
+    config.channelCount
+  );
+
+// Additive blend of every channel's 0-255 display values through its LUT
+const mergeToRgba = (channelValues: Float32Array[], width: number, height: number, colors: [number, number, number][]): RgbaImage => {
+  const out = createRgba(width, height);
+  for (let i = 0; i < width * height; i++) {
+    let r = 0, g = 0, b = 0;
+    for (let c = 0; c < channelValues.length; c++) {
+      const v = channelValues[c][i];
+      r += v * colors[c][0];
+      g += v * colors[c][1];
+      b += v * colors[c][2];
+    }
+    const o = i * 4;
+    out.data[o] = Math.round(Math.min(255, r));
+    out.data[o + 1] = Math.round(Math.min(255, g));
+    out.data[o + 2] = Math.round(Math.min(255, b));
+  }
+  return out;
+};
+
+// Clipping marks written by a channel's display mapping, one per pixel
+const CLIP_LOW = 1;
+const CLIP_HIGH = 2;
+
+// Highlight colours of the clipping overlay on a panel with LUT `color`
+// (null for the merge): the LUT's complement for pixels clipped high, so they
+// stand out from the brightest signal, and the same at half strength for
+// pixels clipped to black. Grey LUTs and the merge use red.
+const clipHighlight = (color: [number, number, number] | null): { high: number[], low: number[] } => {
+  const hue = color && Math.max(...color) - Math.min(...color) > 0.25 ? color.map(v => 1 - v) : [1, 0, 0];
+  return { high: hue.map(v => Math.round(v * 255)), low: hue.map(v => Math.round(v * 128)) };
+};
+
+// Paint a panel's clipped pixels in its highlight colours, in place
+const paintClipping = (image: RgbaImage, mask: Uint8Array, color: [number, number, number] | null): RgbaImage => {
+  const { high, low } = clipHighlight(color);
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i]) image.data.set(mask[i] === CLIP_HIGH ? high : low, i * 4);
+  }
+  return image;
+};
+
+// Merge-panel clipping: the stronger mark of any channel at each pixel
+const mergeClipping = (masks: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(masks[0]?.length ?? 0);
+  masks.forEach(mask => {
+    for (let i = 0; i < out.length; i++) if (mask[i] > out[i]) out[i] = mask[i];
+  });
+  return out;
+};
+
+// Share of a row's pixels clipped at either end of the display range, in its
+// most clipped channel
+export const rowClippedFraction = (info: RowRenderInfo): number =>
+  Math.max(0, ...info.channels.map(ch => ch.clipped.low + ch.clipped.high));
+
+// Render 0-255 display values through a black -> color LUT
+const valuesToRgba = (values: Float32Array, width: number, height: number, color: [number, number, number]): RgbaImage => {
+  const out = createRgba(width, height);
+  for (let i = 0; i < width * height; i++) {
+    const v = values[i];
+    out.data[i * 4] = Math.round(v * color[0]);
+    out.data[i * 4 + 1] = Math.round(v * color[1]);
+    out.data[i * 4 + 2] = Math.round(v * color[2]);
+  }
+  return out;
+};
+
+// Pixel geometry of a rendered row: the displayed panels side by side, the
+// layout's column gap apart, followed by `extraPanels` inset columns. The
+// figure layout takes panels from here. `scale` resizes the whole row
+// (panels, gaps, text) for export at a physical size; the preview uses 1.
+export interface RowLayout {
+  panelW: number;
+  panelH: number;
+  padding: number;
+  width: number;
+  panelX: (panelIdx: number) => number;
+}
+
+export const getRowLayout = (config: ProcessingConfig, scale = 1, extraPanels = 0): RowLayout => {
+  const panelW = Math.max(1, Math.round(config.targetWidth * scale));
+  const panelH = Math.max(1, Math.round(config.targetHeight * scale));
+  const padding = Math.round(config.layout.gapX * scale);
+  const count = getPanels(config).length + extraPanels;
+  return { panelW, panelH, padding, width: panelW * count + padding * (count - 1), panelX: i => (panelW + padding) * i };
+};
+
+// Calibrated scale bar in panel pixels. Empty when the bar would not fit
+// inside the panel.
+const scaleBarOverlay = (
+  bar: ScaleBarConfig,
+  panelW: number,
+  panelH: number,
+  umPerPixel: number,
+  fontFamily: string,
+  scale: number
+): OverlayItem[] => {
+  const barW = Math.round(bar.lengthUm / umPerPixel);
+  const margin = Math.round(12 * scale);
+  const thickness = Math.max(1, Math.round(bar.thickness * scale));
+  // A bar wider than the panel would be misleading once clipped
+  if (barW < 1 || barW > panelW - margin * 2) return [];
+
+  const isRight = bar.position.endsWith('right');
+  const isBottom = bar.position.startsWith('bottom');
+  const x = isRight ? panelW - margin - barW : margin;
+  const y = isBottom ? panelH - margin - thickness : margin;
+
+  const items: OverlayItem[] = [{ kind: 'rect', x, y, width: barW, height: thickness, fill: bar.color }];
+  if (bar.showText) {
+    const gap = Math.round(4 * scale);
+    items.push({
+      kind: 'text',
+      x: x + barW / 2,
+      y: isBottom ? y - gap : y + thickness + gap,
+      text: `${bar.lengthUm} µm`,
+      fontFamily,
+      fontSize: bar.fontSize * scale,
+      bold: true,
+      fill: bar.color,
+      align: 'center',
+      baseline: isBottom ? 'bottom' : 'top',
+      shadow: false
+    });
+  }
+  return items;
+};
+
+// Overlays of each strip panel (displayed panels, then inset columns), in
+// panel pixels: scale bars and, when headers are overlaid, the row label
+// (bottom left of the first panel) and on the first row the column labels
+// (top left of each panel). Headers placed outside the images belong to the
+// figure layout instead.
+const rowOverlays = (
   config: ProcessingConfig,
   rowLabel: string,
-  isFirstRow: boolean
-): HTMLCanvasElement => {
-  // 1.5.1 Get Ratio and Crop Co-brightest
-  const ratio = config.targetWidth / config.targetHeight;
-  const roi = findCoBrightestROI(img1, img2, ratio, config.clipBottom);
-
-  // Helper to process a single image crop
-  const processChannel = (source: ImageData, roi: {x: number, y: number, w: number, h: number}, colorFilter: 'red' | 'green' | 'blue' | 'merge') => {
-    // Create temp canvas for cropping and resizing
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = config.targetWidth;
-    tempCanvas.height = config.targetHeight;
-    const ctx = tempCanvas.getContext('2d');
-    if (!ctx) return null;
-
-    // Draw full source to temp offscreen to crop easily (standard API)
-    const sourceCanvas = document.createElement('canvas');
-    sourceCanvas.width = source.width;
-    sourceCanvas.height = source.height;
-    const sCtx = sourceCanvas.getContext('2d')!;
-    sCtx.putImageData(source, 0, 0);
-
-    // Draw crop to target size (Resizing logic 1.5.2)
-    ctx.drawImage(sourceCanvas, roi.x, roi.y, roi.w, roi.h, 0, 0, config.targetWidth, config.targetHeight);
-
-    // Brightness Adjustment (1.5.1: 200 +- stochastic)
-    const processed = ctx.getImageData(0, 0, config.targetWidth, config.targetHeight);
-    const data = processed.data;
-    
-    // Calculate current max intensity of this crop (simple approach)
-    let max = 1;
-    for (let i = 0; i < data.length; i += 4) {
-      const val = Math.max(data[i], data[i+1], data[i+2]);
-      if (val > max) max = val;
+  rowIndex: number,
+  outputUmPerPixel: number | null,
+  scale: number,
+  insetColumns: { source: PanelId, umPerPixel: number | null }[]
+): OverlayItem[][] => {
+  const { panelW, panelH } = getRowLayout(config, scale);
+  const fontFamily = config.fontFamily || 'sans-serif';
+  const label = (text: string, x: number, y: number, fontSize: number, baseline: 'top' | 'bottom'): OverlayItem =>
+    ({ kind: 'text', x, y, text, fontFamily, fontSize: fontSize * scale, bold: true, fill: '#ffffff', align: 'left', baseline, shadow: true });
+  const pad = Math.round(10 * scale);
+  const overlaidLabels = config.showLabels && config.layout.headers === 'overlay';
+  const panelCount = getPanels(config).length;
+  const letters = config.panelLetters;
+
+  const columns = [
+    ...getPanels(config).map(panel => ({ panel, header: getPanelLabel(config, panel), umPerPixel: outputUmPerPixel })),
+    ...insetColumns.map((column, i) => ({ panel: column.source, header: getInsetLabel(i), umPerPixel: column.umPerPixel }))
+  ];
+  return columns.map(({ panel, header, umPerPixel }, panelIdx) => {
+    const items: OverlayItem[] = [];
+    if (config.scaleBar.enabled && umPerPixel && config.scaleBar.panels.includes(panel)) {
+      items.push(...scaleBarOverlay(config.scaleBar, panelW, panelH, umPerPixel, fontFamily, scale));
+    }
+    if (overlaidLabels && rowLabel && panelIdx === 0) {
+      items.push(label(rowLabel, pad, panelH - pad, config.rowLabelFontSize || 24, 'bottom'));
+    }
+    // A column header overlaid on a lettered panel goes below the letter
+    let headerY = pad;
+    if (letters.mode === 'panel' ? panelIdx < panelCount : letters.mode === 'row' && panelIdx === 0) {
+      const index = letters.mode === 'panel' ? rowIndex * panelCount + panelIdx : rowIndex;
+      items.push(label(getPanelLetter(config, index), pad, pad, letters.fontSize, 'top'));
+      headerY += Math.round(letters.fontSize * 1.2 * scale);
     }
+    if (overlaidLabels && rowIndex === 0) {
+      items.push(label(header, pad, headerY, config.columnLabelFontSize || 24, 'top'));
+    }
+    return items;
+  });
+};
 
-    // Stochastic factor
-    // config.randomness is a range, e.g., 0.05 means +/- 2.5% variation
-    const randomShift = (Math.random() * config.randomness) - (config.randomness / 2);
-    const stochastic = 1 + randomShift;
-    
-    const target = config.targetIntensity * stochastic;
-    const scale = target / max; 
-
-    for (let i = 0; i < data.length; i += 4) {
-      // Apply scale
-      let r = data[i] * scale;
-      let g = data[i+1] * scale;
-      let b = data[i+2] * scale;
-      
-      // Clamp
-      r = Math.min(255, r);
-      g = Math.min(255, g);
-      b = Math.min(255, b);
-
-      data[i] = r;
-      data[i+1] = g;
-      data[i+2] = b;
+// Overlay items moved by (dx, dy), e.g. from panel to row or figure pixels
+export const offsetOverlays = (items: OverlayItem[], dx: number, dy: number): OverlayItem[] =>
+  items.map(item => ({ ...item, x: item.x + dx, y: item.y + dy }));
+
+// Render one row as a strip of panels. Labels, scale bars, inset frames and
+// annotations are returned as overlay items per strip panel rather than drawn,
+// so each output can paint them its own way.
+export const processRow = (
+  sourceImages: RawImage[],
+  config: ProcessingConfig,
+  rowId: string, // seeds the jitter
+  rowLabel: string,
+  rowIndex: number, // position in the figure; row 0 carries the headers
+  umPerPixel: number | null,
+  linkedRanges: DisplayRange[] | null,
+  roiOverride: Rect | null,
+  roiStrategy: RoiStrategy,
+  insetRegions: InsetRegion[],
+  annotations: Annotation[],
+  options: {
+    scale?: number; // output size relative to the configured panel size
+    highlightClipping?: boolean; // paint clipped pixels in highlight colours (preview only)
+    onProgress?: (done: number) => void;
+  } = {}
+): { strip: RgbaImage, info: RowRenderInfo } => {
+  const { scale = 1, highlightClipping = false, onProgress } = options;
+  // Preprocessing comes first, so the crop search already sees corrected images
+  const images = preprocessChannels(sourceImages, config, umPerPixel);
+  const inset = config.insets;
+  const layout = getRowLayout(config, scale, inset.mode === 'column' ? insetRegions.length : 0);
+  // 1.5.1 Get Ratio and Crop by strategy (unless the crop was placed by hand)
+  const { roi, score: roiScore } = selectRoi(images, config, roiOverride, roiStrategy);
+  // The crop search dominates; each channel and the composition take the rest
+  const steps = images.length + 2;
+  onProgress?.(1 / steps);
+
+  // Apply a channel's display mapping in place: scale, gamma over the
+  // range (0 to its display value), and clamp. Values the clamp cuts off
+  // (below black, or reaching white) are marked in `mask` when given.
+  const toDisplay = (data: Float32Array, info: Omit<ChannelRenderInfo, 'clipped'>, mask?: Uint8Array): Float32Array => {
+    const top = info.scale * (info.range.max > info.range.min ? info.range.max - info.range.min : 1);
+    for (let i = 0; i < data.length; i++) {
+      const linear = (data[i] - info.range.min) * info.scale;
+      const value = info.gamma === 1 || linear <= 0 ? linear : top * Math.pow(linear / top, info.gamma);
+      if (mask) mask[i] = value < 0 ? CLIP_LOW : value >= 255 ? CLIP_HIGH : 0;
+      data[i] = Math.max(0, Math.min(255, value));
     }
-    
-    ctx.putImageData(processed, 0, 0);
-    return tempCanvas;
+    return data;
   };
 
-  const c1 = processChannel(img1, roi, 'green');
-  const c2 = processChannel(img2, roi, 'red');
+  // Helper to process a single image crop. Works on native-depth samples and
+  // returns 0-255 display values. With a linked range every row shares the
+  // same mapping; otherwise the range comes from the channel's range mode.
+  const processChannel = (source: RawImage, roi: Rect, linkedRange: DisplayRange | null, channel: number) => {
+    // Crop and resize to target size (Resizing logic 1.5.2)
+    const data = resampleCrop(source, roi, layout.panelW, layout.panelH);
+    const settings = config.channels[channel];
+    const histogram = cropHistogram(data, source.bitDepth);
 
-  // Create Merge
-  const mergedCanvas = document.createElement('canvas');
-  mergedCanvas.width = config.targetWidth;
-  mergedCanvas.height = config.targetHeight;
-  const mCtx = mergedCanvas.getContext('2d')!;
-  
-  // Fill merge background white before drawing (for any transparent pixels, though usually confocal is full frame)
-  mCtx.fillStyle = 'black'; // Keep merge background black for contrast, but outer will be white
-  mCtx.fillRect(0, 0, config.targetWidth, config.targetHeight);
-  
-  if (c1 && c2) {
-    const d1 = c1.getContext('2d')!.getImageData(0,0, config.targetWidth, config.targetHeight).data;
-    const d2 = c2.getContext('2d')!.getImageData(0,0, config.targetWidth, config.targetHeight).data;
-    const mData = mCtx.createImageData(config.targetWidth, config.targetHeight);
+    let range: DisplayRange;
+    let stochastic = 1;
+    if (linkedRange) {
+      range = linkedRange;
+    } else if (settings.rangeMode === 'manual') {
+      range = settings.manualRange;
+    } else if (settings.rangeMode === 'percentile') {
+      range = percentileRange(data, settings.saturated);
+    } else {
+      // Brightness Adjustment (1.5.1: 200 +- stochastic)
+      // Calculate current max intensity of this crop (simple approach)
+      let max = 0;
+      for (let i = 0; i < data.length; i++) {
+        if (data[i] > max) max = data[i];
+      }
+      range = { min: 0, max };
+
+      // Stochastic factor. Skipped for linked ranges, where it would defeat
+      // the point of identical scaling.
+      // config.randomness is a range, e.g., 0.05 means +/- 2.5% variation.
+      // Drawn from config.seed so re-rendering reproduces the same factor.
+      const randomShift = (seededUniform(config.seed, rowId, channel) * config.randomness) - (config.randomness / 2);
+      stochastic = 1 + randomShift;
+    }
     
-    for(let i=0; i<mData.data.length; i+=4) {
-        const gray1 = d1[i]; // assuming R=G=B for grayscale input
-        const gray2 = d2[i];
-        
-        const isGray1 = (d1[i] === d1[i+1]) && (d1[i+1] === d1[i+2]);
-        
-        if (isGray1) {
-             mData.data[i] = gray2; // R
-             mData.data[i+1] = gray1; // G
-             mData.data[i+2] = 0; // B
-        } else {
-            // Already colored, additive blend
-            mData.data[i] = Math.min(255, d1[i] + d2[i]);
-            mData.data[i+1] = Math.min(255, d1[i+1] + d2[i+1]);
-            mData.data[i+2] = Math.min(255, d1[i+2] + d2[i+2]);
-        }
-        mData.data[i+3] = 255;
+    const target = settings.rangeMode === 'max' ? config.targetIntensity * stochastic : 255;
+    const span = range.max > range.min ? range.max - range.min : 1;
+    const mapping = { range, jitter: stochastic, scale: target / span, gamma: settings.gamma, histogram };
+    const mask = new Uint8Array(data.length);
+    const values = toDisplay(data, mapping, mask);
+    let low = 0;
+    let high = 0;
+    for (let i = 0; i < mask.length; i++) {
+      if (mask[i] === CLIP_LOW) low++;
+      else if (mask[i] === CLIP_HIGH) high++;
     }
-    mCtx.putImageData(mData, 0, 0);
+    const info: ChannelRenderInfo = { ...mapping, clipped: { low: low / mask.length, high: high / mask.length } };
+    return { values, info, mask };
+  };
+
+  const colors = images.map((_, c) => hexToRgb(config.channels[c].color));
+  const panelImages = new Map<PanelId, RgbaImage>();
+  const processed = images.map((img, c) => {
+    const ch = processChannel(img, roi, linkedRanges ? linkedRanges[c] : null, c);
+    const image = valuesToRgba(ch.values, layout.panelW, layout.panelH, colors[c]);
+    panelImages.set(c, highlightClipping ? paintClipping(image, ch.mask, colors[c]) : image);
+    onProgress?.((c + 2) / steps);
+    return ch;
+  });
+
+  // Create Merge: additive blend of every channel through its LUT
+  const panels = getPanels(config);
+  if (panels.includes('merge')) {
+    const image = mergeToRgba(processed.map(ch => ch.values), layout.panelW, layout.panelH, colors);
+    panelImages.set('merge', highlightClipping ? paintClipping(image, mergeClipping(processed.map(ch => ch.mask)), null) : image);
   }
 
-  // 1.5.3 Layout: [Img1] [Img2] [Merged] with 10px padding between
-  const finalCanvas = document.createElement('canvas');
-  const finalWidth = (config.targetWidth * 3) + (config.padding * 2);
-  finalCanvas.width = finalWidth;
-  finalCanvas.height = config.targetHeight;
-  
-  const fCtx = finalCanvas.getContext('2d')!;
-  
-  // Set Background to White
-  fCtx.fillStyle = '#ffffff';
-  fCtx.fillRect(0, 0, finalWidth, config.targetHeight);
-  
-  if (c1) fCtx.drawImage(c1, 0, 0);
-  if (c2) fCtx.drawImage(c2, config.targetWidth + config.padding, 0);
-  fCtx.drawImage(mergedCanvas, (config.targetWidth + config.padding) * 2, 0);
-
-  // Labels
-  if (config.showLabels) {
-    const fontFamily = config.fontFamily || 'sans-serif';
-
-    // Row Label (Condition) - Bottom Left of Left Image
-    if (rowLabel) {
-      const fontSize = config.rowLabelFontSize || 24;
-      fCtx.font = `bold ${fontSize}px ${fontFamily}`;
-      fCtx.fillStyle = '#ffffff';
-      fCtx.textBaseline = 'bottom';
-      fCtx.textAlign = 'left';
-      fCtx.shadowColor = 'rgba(0,0,0,0.8)';
-      fCtx.shadowBlur = 4;
-      // Padding from edge
-      fCtx.fillText(rowLabel, 10, config.targetHeight - 10);
-      fCtx.shadowBlur = 0; // reset
-    }
+  // Inset regions, in source pixels. Each is sized so the zoom factor fills
+  // its inset (a corner of the panel, or a whole inset column), kept inside
+  // the crop and snapped to whole source pixels.
+  const insetW = inset.mode === 'corner' ? Math.max(1, Math.round(layout.panelW * inset.size)) : layout.panelW;
+  const insetH = inset.mode === 'corner' ? Math.max(1, Math.round(layout.panelH * inset.size)) : layout.panelH;
+  const srcPerPanelPx = { x: roi.w / layout.panelW, y: roi.h / layout.panelH };
+  const insetRects: Rect[] = insetRegions.map(region => {
+    const w = Math.max(1, Math.min(roi.w, Math.round(insetW / inset.zoom * srcPerPanelPx.x)));
+    const h = Math.max(1, Math.min(roi.h, Math.round(insetH / inset.zoom * srcPerPanelPx.y)));
+    return {
+      x: roi.x + Math.round(Math.max(0, Math.min(roi.w - w, region.cx * roi.w - w / 2))),
+      y: roi.y + Math.round(Math.max(0, Math.min(roi.h - h, region.cy * roi.h - h / 2))),
+      w,
+      h
+    };
+  });
 
-    // Column Labels (Type) - Top Left of First Row Images
-    if (isFirstRow && config.columnLabels) {
-      const fontSize = config.columnLabelFontSize || 24;
-      fCtx.font = `bold ${fontSize}px ${fontFamily}`;
-      fCtx.fillStyle = '#ffffff';
-      fCtx.textBaseline = 'top';
-      fCtx.textAlign = 'left';
-      fCtx.shadowColor = 'rgba(0,0,0,0.8)';
-      fCtx.shadowBlur = 4;
-      
-      const pad = 10;
-      
-      // Image 1
-      fCtx.fillText(config.columnLabels[0], pad, pad);
-      
-      // Image 2
-      fCtx.fillText(config.columnLabels[1], config.targetWidth + config.padding + pad, pad);
-      
-      // Image 3 (Merge)
-      fCtx.fillText(config.columnLabels[2], (config.targetWidth + config.padding) * 2 + pad, pad);
-      
-      fCtx.shadowBlur = 0;
+  // Magnified view of one panel, with the same display mapping (and
+  // clipping highlight) as the panel
+  const insetImage = (panel: PanelId, rect: Rect, w: number, h: number): RgbaImage => {
+    const masks = images.map(() => new Uint8Array(w * h));
+    const values = (c: number) => toDisplay(resampleCrop(images[c], rect, w, h, inset.interpolation), processed[c].info, masks[c]);
+    if (panel === 'merge') {
+      const image = mergeToRgba(images.map((_, c) => values(c)), w, h, colors);
+      return highlightClipping ? paintClipping(image, mergeClipping(masks), null) : image;
     }
+    const image = valuesToRgba(values(panel), w, h, colors[panel]);
+    return highlightClipping ? paintClipping(image, masks[panel], colors[panel]) : image;
+  };
+  // Column insets show the configured panel even when it is hidden from the
+  // row, falling back to the first displayed panel when it does not exist
+  const insetSource = getAvailablePanels(config).includes(inset.source) ? inset.source : panels[0];
+
+  // 1.5.3 Layout: displayed panels in the layout's order, gap between
+  const strip = createRgba(layout.width, layout.panelH, config.layout.background);
+
+  panels.forEach((panel, panelIdx) => {
+    copyRgba(panelImages.get(panel)!, strip, layout.panelX(panelIdx), 0);
+  });
+
+  // Corner insets run along the panel edge from the configured corner; those
+  // that no longer fit are left out, their outline boxes still drawn
+  const isRight = inset.corner.endsWith('right');
+  const isBottom = inset.corner.startsWith('bottom');
+  const cornerInsets = inset.mode === 'corner'
+    ? insetRects.slice(0, Math.floor(layout.panelW / insetW)).map((rect, i) => ({
+      rect,
+      x: isRight ? layout.panelW - (i + 1) * insetW : i * insetW,
+      y: isBottom ? layout.panelH - insetH : 0
+    }))
+    : [];
+  panels.forEach((panel, panelIdx) => {
+    cornerInsets.forEach(({ rect, x, y }) => {
+      copyRgba(insetImage(panel, rect, insetW, insetH), strip, layout.panelX(panelIdx) + x, y);
+    });
+  });
+  if (inset.mode === 'column') {
+    insetRects.forEach((rect, i) => {
+      copyRgba(insetImage(insetSource, rect, insetW, insetH), strip, layout.panelX(panels.length + i), 0);
+    });
   }
 
-  return finalCanvas;
-};
\ No newline at end of file
+  // Labels and scale bars. Pixel size after crop + resize is source µm/px
+  // times the resize factor.
+  const outputUmPerPixel = umPerPixel ? umPerPixel * (roi.w / layout.panelW) : null;
+  const insetColumns = inset.mode === 'column'
+    ? insetRects.map(rect => ({ source: insetSource, umPerPixel: umPerPixel ? umPerPixel * (rect.w / layout.panelW) : null }))
+    : [];
+  const overlays = rowOverlays(config, rowLabel, rowIndex, outputUmPerPixel, scale, insetColumns);
+
+  // Outline boxes on the main panels and borders around the insets, beneath
+  // the labels and scale bars. A border width of 0 draws neither.
+  if (inset.borderWidth > 0) {
+    const lineWidth = Math.max(1, Math.round(inset.borderWidth * scale));
+    const frame = (x: number, y: number, width: number, height: number): OverlayItem =>
+      ({ kind: 'frame', x, y, width, height, stroke: inset.borderColor, lineWidth });
+    const boxes = insetRects.map(rect => frame(
+      (rect.x - roi.x) / srcPerPanelPx.x,
+      (rect.y - roi.y) / srcPerPanelPx.y,
+      rect.w / srcPerPanelPx.x,
+      rect.h / srcPerPanelPx.y
+    ));
+    overlays.forEach((items, panelIdx) => {
+      items.unshift(...(panelIdx < panels.length
+        ? [...boxes, ...cornerInsets.map(({ x, y }) => frame(x, y, insetW, insetH))]
+        : [frame(0, 0, insetW, insetH)]));
+    });
+  }
+
+  // Annotations go on top, on the displayed panel they were placed on
+  annotations.forEach(annotation => {
+    const panelIdx = panels.indexOf(annotation.panel);
+    if (panelIdx < 0) return;
+    overlays[panelIdx].push(...annotationOverlays(annotation, roi, layout.panelW, layout.panelH, scale, config.fontFamily || 'sans-serif'));
+  });
+
+  onProgress?.(1);
+  return { strip, info: { roi, roiStrategy, roiScore, channels: processed.map(ch => ch.info), overlays, insets: insetRects } };
+};
@@ -0,0 +1,28 @@
+import { RawImage } from '../types';
+import { JobRequest, JobResponse, resultTransfer, runJob } from './imageJobs';
+import { UTIF_URL } from './imageProcessing';
+
+// Entry point of each pool worker. Runs one job at a time; the pool only
+// posts the next request once this one has answered.
+
+// UTIF_URL is the build index.html loads on the page. The script registers
+// itself as self.UTIF when it is not loaded as a CommonJS module.
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<JobRequest>) => void) | null;
+  postMessage: (message: JobResponse, transfer?: Transferable[]) => void;
+};
+
+let utifReady: Promise<unknown> | null = null;
+const imageCache = new Map<number, RawImage>();
+
+scope.onmessage = async ({ data: { id, job, images, release } }) => {
+  release.forEach(key => imageCache.delete(key));
+  images.forEach(({ key, image }) => imageCache.set(key, image));
+  try {
+    if (job.type === 'decode') await (utifReady ??= import(/* @vite-ignore */ UTIF_URL));
+    const result = await runJob(job, imageCache, done => scope.postMessage({ id, kind: 'progress', done }));
+    scope.postMessage({ id, kind: 'result', result }, resultTransfer(result));
+  } catch (e) {
+    scope.postMessage({ id, kind: 'error', message: e instanceof Error ? e.message : String(e) });
+  }
+};
@@ -0,0 +1,97 @@
+import { OverlayItem, ProcessingConfig } from '../types';
+import { getInsetLabel, getPanelLabel, getPanels, hexToRgb } from './channels';
+import { getRowLayout } from './imageProcessing';
+
+// Figure layout engine: places each condition's panels on a grid (conditions
+// as rows, or as columns when transposed) with the configured gaps, margin
+// and, when headers go outside the images, bands for the row and column
+// headers. Inset columns follow the displayed panels, as many as the row with
+// the most insets. The preview and every export format are composed from this.
+
+export interface FigureCondition {
+  label: string;
+  insetColumns: number; // inset panels after the row's displayed panels
+}
+
+export interface FigureCell {
+  x: number; // top-left corner of the panel in figure pixels
+  y: number;
+}
+
+export interface FigureLayout {
+  width: number;
+  height: number;
+  panelW: number;
+  panelH: number;
+  background: string;
+  cells: FigureCell[][]; // [condition][strip panel: displayed panels, then the condition's insets]
+  headers: OverlayItem[]; // headers outside the images, in figure pixels
+}
+
+type TextItem = Extract<OverlayItem, { kind: 'text' }>;
+
+let measureContext: OffscreenCanvasRenderingContext2D | null | undefined;
+
+// Width of a header in pixels; estimated where there is no canvas to measure with
+const textWidth = (item: TextItem): number => {
+  if (measureContext === undefined) {
+    measureContext = typeof OffscreenCanvas === 'undefined' ? null : new OffscreenCanvas(1, 1).getContext('2d');
+  }
+  if (!measureContext) return item.text.length * item.fontSize * 0.6;
+  measureContext.font = `${item.bold ? 'bold ' : ''}${item.fontSize}px ${item.fontFamily}`;
+  return measureContext.measureText(item.text).width;
+};
+
+// Dark header text on a light background and vice versa
+const headerColor = (background: string): string => {
+  const [r, g, b] = hexToRgb(background);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b > 0.5 ? '#000000' : '#ffffff';
+};
+
+export const layoutFigure = (config: ProcessingConfig, conditions: FigureCondition[], scale = 1): FigureLayout => {
+  const { layout } = config;
+  const { panelW, panelH } = getRowLayout(config, scale);
+  const panels = getPanels(config);
+  const gapX = Math.round(layout.gapX * scale);
+  const gapY = Math.round(layout.gapY * scale);
+  const margin = Math.round(layout.margin * scale);
+  const headerGap = Math.round(8 * scale);
+
+  const insetColumns = Math.max(0, ...conditions.map(c => c.insetColumns));
+  const conditionAxis = { labels: conditions.map(c => c.label), fontSize: (config.rowLabelFontSize || 24) * scale };
+  const panelAxis = {
+    labels: [...panels.map(panel => getPanelLabel(config, panel)), ...Array.from({ length: insetColumns }, (_, i) => getInsetLabel(i))],
+    fontSize: (config.columnLabelFontSize || 24) * scale
+  };
+  const [rowAxis, columnAxis] = layout.transpose ? [panelAxis, conditionAxis] : [conditionAxis, panelAxis];
+
+  const showHeaders = config.showLabels && layout.headers === 'outside';
+  const header = (text: string, fontSize: number, align: TextItem['align'], baseline: TextItem['baseline']): TextItem => ({
+    kind: 'text', x: 0, y: 0, text, fontFamily: config.fontFamily || 'sans-serif', fontSize,
+    bold: true, fill: headerColor(layout.background), align, baseline, shadow: false
+  });
+  const rowHeaders = showHeaders ? rowAxis.labels.map(text => header(text, rowAxis.fontSize, 'left', 'middle')) : [];
+  const columnHeaders = showHeaders ? columnAxis.labels.map(text => header(text, columnAxis.fontSize, 'center', 'bottom')) : [];
+  const named = (items: TextItem[]) => items.filter(item => item.text);
+
+  // Header bands are only reserved when some header has text
+  const left = margin + (named(rowHeaders).length > 0 ? Math.ceil(Math.max(...named(rowHeaders).map(textWidth))) + headerGap : 0);
+  const top = margin + (named(columnHeaders).length > 0 ? Math.ceil(columnAxis.fontSize * 1.2) + headerGap : 0);
+  const rowY = (i: number) => top + i * (panelH + gapY);
+  const columnX = (i: number) => left + i * (panelW + gapX);
+  const extent = (count: number, size: number, gap: number) => count * size + Math.max(0, count - 1) * gap;
+
+  return {
+    width: left + extent(columnAxis.labels.length, panelW, gapX) + margin,
+    height: top + extent(rowAxis.labels.length, panelH, gapY) + margin,
+    panelW,
+    panelH,
+    background: layout.background,
+    cells: conditions.map((condition, c) => Array.from({ length: panels.length + condition.insetColumns }, (_, p) =>
+      layout.transpose ? { x: columnX(c), y: rowY(p) } : { x: columnX(p), y: rowY(c) })),
+    headers: [
+      ...rowHeaders.map((item, i) => ({ ...item, x: margin, y: rowY(i) + panelH / 2 })),
+      ...columnHeaders.map((item, i) => ({ ...item, x: columnX(i) + panelW / 2, y: top - headerGap }))
+    ].filter(item => item.text)
+  };
+};
@@ -0,0 +1,112 @@
+// Minimal single-page PDF writer for vector figure export. Text uses the
+// standard Type 1 fonts (not embedded, so editors substitute their own and the
+// text stays editable); images are 8-bit RGB, Flate-compressed.
+
+export type PdfFont = 'Helvetica' | 'Helvetica-Bold' | 'Times-Roman' | 'Times-Bold' | 'Courier' | 'Courier-Bold';
+
+export interface PdfImage {
+  width: number;
+  height: number;
+  rgb: Uint8Array; // rows top to bottom
+}
+
+// Page size is in points. The content stream refers to images as /Im0, /Im1…
+// and to fonts as /F0, /F1… in the order of the arrays.
+export interface PdfPage {
+  width: number;
+  height: number;
+  content: string;
+  images: PdfImage[];
+  fonts: PdfFont[];
+}
+
+const encoder = new TextEncoder();
+
+// zlib stream (RFC 1950), as FlateDecode and PNG IDAT expect
+export const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// WinAnsi code points that differ from Latin-1 (the 0x80-0x9F block)
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+  'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+// Hex string operand for text shown in a WinAnsi-encoded standard font.
+// Characters the encoding lacks become '?'.
+export const winAnsiHex = (text: string): string => {
+  const hex = Array.from(text, ch => {
+    const code = ch.codePointAt(0)!;
+    const byte = WIN_ANSI_EXTRA[ch] ?? ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff) ? code : 0x3f);
+    return byte.toString(16).padStart(2, '0');
+  });
+  return `<${hex.join('')}>`;
+};
+
+// Text string for the document information dictionary (UTF-16BE with BOM)
+const infoString = (text: string): string => {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0');
+  return `<${hex}>`;
+};
+
+export const createPdf = async (page: PdfPage, info: Record<string, string> = {}): Promise<Blob> => {
+  // Object numbers: 1 catalog, 2 page tree, 3 page, 4 content, 5 info, then fonts and images
+  const fontBase = 6;
+  const imageBase = fontBase + page.fonts.length;
+  const objects: (string | Uint8Array)[][] = [];
+
+  objects.push(['<< /Type /Catalog /Pages 2 0 R >>']);
+  objects.push(['<< /Type /Pages /Kids [3 0 R] /Count 1 >>']);
+  const fonts = page.fonts.map((_, i) => `/F${i} ${fontBase + i} 0 R`).join(' ');
+  const images = page.images.map((_, i) => `/Im${i} ${imageBase + i} 0 R`).join(' ');
+  objects.push([
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+    `/Resources << /Font << ${fonts} >> /XObject << ${images} >> >> /Contents 4 0 R >>`
+  ]);
+  const content = encoder.encode(page.content);
+  objects.push([`<< /Length ${content.length} >>\nstream\n`, content, '\nendstream']);
+  objects.push([`<< ${Object.entries(info).map(([key, value]) => `/${key} ${infoString(value)}`).join(' ')} >>`]);
+  page.fonts.forEach(font => {
+    objects.push([`<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`]);
+  });
+  for (const image of page.images) {
+    const data = await deflate(image.rgb);
+    objects.push([
+      `<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /FlateDecode /Length ${data.length} >>\nstream\n`,
+      data,
+      '\nendstream'
+    ]);
+  }
+
+  // Binary comment on line two marks the file as binary for transfer tools
+  const parts: Uint8Array[] = [new Uint8Array([...encoder.encode('%PDF-1.4\n%'), 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])];
+  let offset = parts[0].length;
+  const offsets: number[] = [];
+  objects.forEach((chunks, i) => {
+    offsets.push(offset);
+    [`${i + 1} 0 obj\n`, ...chunks, '\nendobj\n'].forEach(chunk => {
+      const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+      parts.push(bytes);
+      offset += bytes.length;
+    });
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f\r',
+    ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n\r`),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF\n'
+  ].join('\n');
+  parts.push(encoder.encode(xref));
+  return new Blob(parts, { type: 'application/pdf' });
+};
@@ -0,0 +1,83 @@
+import { crc32 } from './crc32';
+
+// Minimal PNG chunk writer for embedding text metadata and the print
+// resolution in exported montages
+
+// tEXt is Latin-1 only; anything outside it is replaced rather than mangled
+const latin1 = (text: string): Uint8Array => {
+  const out = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    out[i] = code < 256 ? code : 0x3f; // '?'
+  }
+  return out;
+};
+
+export const buildChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(latin1(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+};
+
+const isLatin1 = (text: string): boolean => {
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) > 255) return false;
+  }
+  return true;
+};
+
+const buildTextChunk = (keyword: string, text: string): Uint8Array => {
+  const key = latin1(keyword.slice(0, 79));
+  const value = latin1(text);
+  const data = new Uint8Array(key.length + 1 + value.length);
+  data.set(key, 0);
+  data.set(value, key.length + 1);
+  return buildChunk('tEXt', data);
+};
+
+// Uncompressed iTXt: keyword, compression flag/method, empty language tag and
+// translated keyword, then UTF-8 text
+const buildInternationalTextChunk = (keyword: string, text: string): Uint8Array => {
+  const key = latin1(keyword.slice(0, 79));
+  const value = new TextEncoder().encode(text);
+  const data = new Uint8Array(key.length + 5 + value.length);
+  data.set(key, 0);
+  data.set(value, key.length + 5);
+  return buildChunk('iTXt', data);
+};
+
+// Insert text chunks just before IEND. The input must be a valid PNG. Text
+// that fits Latin-1 goes in tEXt; anything else (µ is fine, CJK filenames are
+// not) is written as UTF-8 iTXt so it survives intact.
+export const addPngTextChunks = async (png: Blob, entries: Record<string, string>): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const iendOffset = bytes.length - 12;
+  const chunks = Object.entries(entries).map(([keyword, text]) =>
+    isLatin1(text) ? buildTextChunk(keyword, text) : buildInternationalTextChunk(keyword, text));
+  return new Blob([bytes.subarray(0, iendOffset), ...chunks, bytes.subarray(iendOffset)], { type: 'image/png' });
+};
+
+// Set the physical pixel size (pHYs) so the PNG opens at the intended print
+// size. Any existing pHYs chunk is replaced; the new one follows IHDR.
+export const setPngDpi = async (png: Blob, dpi: number): Promise<Blob> => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)]; // signature
+  const data = new Uint8Array(9);
+  const pixelsPerMetre = Math.round(dpi / 0.0254);
+  new DataView(data.buffer).setUint32(0, pixelsPerMetre);
+  new DataView(data.buffer).setUint32(4, pixelsPerMetre);
+  data[8] = 1; // unit: metre
+  for (let offset = 8; offset < bytes.length;) {
+    const end = offset + 12 + view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    if (type !== 'pHYs') parts.push(bytes.subarray(offset, end));
+    if (type === 'IHDR') parts.push(buildChunk('pHYs', data));
+    offset = end;
+  }
+  return new Blob(parts, { type: 'image/png' });
+};
@@ -0,0 +1,39 @@
+import { RgbaImage } from '../types';
+import { deflate } from './pdf';
+import { buildChunk } from './pngText';
+
+// PNG encoder for the processing core, so montages can be written without a
+// canvas. Pixels are stored as 8-bit RGB (figures are opaque) with no row
+// filters, which keeps the output a pure function of the pixels.
+
+const SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+export const encodePng = async (image: RgbaImage): Promise<Blob> => {
+  const { width, height, data } = image;
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header[8] = 8; // bits per sample
+  header[9] = 2; // colour type: RGB
+  // compression, filter method and interlace all 0
+
+  // Each scanline starts with its filter type (0: none)
+  const rowBytes = width * 3 + 1;
+  const raw = new Uint8Array(rowBytes * height);
+  for (let y = 0; y < height; y++) {
+    let j = y * rowBytes + 1;
+    for (let i = y * width * 4; i < (y + 1) * width * 4; i += 4) {
+      raw[j++] = data[i];
+      raw[j++] = data[i + 1];
+      raw[j++] = data[i + 2];
+    }
+  }
+
+  return new Blob([
+    SIGNATURE,
+    buildChunk('IHDR', header),
+    buildChunk('IDAT', await deflate(raw)),
+    buildChunk('IEND', new Uint8Array(0))
+  ], { type: 'image/png' });
+};
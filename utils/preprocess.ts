@@ -0,0 +1,264 @@
+import { PreprocessConfig, RawImage } from '../types';
+
+// Per-channel corrections of the source image, applied before the crop is
+// chosen and intensities are scaled so that every row of a channel gets the
+// same treatment. Stages run in a fixed order: offset, background, median,
+// Gaussian, unsharp mask. Results keep the source's sample type and range.
+
+export const DEFAULT_PREPROCESS: PreprocessConfig = {
+  offset: { enabled: false, value: 0 },
+  background: { enabled: false, method: 'rolling-ball', radius: 50, unit: 'px' },
+  median: { enabled: false, radius: 1 },
+  gaussian: { enabled: false, sigma: 1 },
+  unsharp: { enabled: false, sigma: 2, amount: 0.6 }
+};
+
+export const isPreprocessActive = (p: PreprocessConfig): boolean =>
+  p.offset.enabled || p.background.enabled || p.median.enabled || p.gaussian.enabled || p.unsharp.enabled;
+
+// Background radius in source pixels. Radii in µm fall back to pixels for
+// uncalibrated images.
+const backgroundRadiusPx = (p: PreprocessConfig, umPerPixel: number | null): number =>
+  p.background.unit === 'um' && umPerPixel ? p.background.radius / umPerPixel : p.background.radius;
+
+// Separable Gaussian blur, edges clamped
+const gaussianBlur = (data: Float32Array, width: number, height: number, sigma: number): Float32Array => {
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(radius * 2 + 1);
+  let sum = 0;
+  for (let i = -radius; i <= radius; i++) {
+    kernel[i + radius] = Math.exp(-(i * i) / (2 * sigma * sigma));
+    sum += kernel[i + radius];
+  }
+  for (let i = 0; i < kernel.length; i++) kernel[i] /= sum;
+
+  const pass = (src: Float32Array, dst: Float32Array, horizontal: boolean) => {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let v = 0;
+        for (let k = -radius; k <= radius; k++) {
+          const sx = horizontal ? Math.min(width - 1, Math.max(0, x + k)) : x;
+          const sy = horizontal ? y : Math.min(height - 1, Math.max(0, y + k));
+          v += src[sy * width + sx] * kernel[k + radius];
+        }
+        dst[y * width + x] = v;
+      }
+    }
+  };
+  const tmp = new Float32Array(data.length);
+  const out = new Float32Array(data.length);
+  pass(data, tmp, true);
+  pass(tmp, out, false);
+  return out;
+};
+
+// k-th smallest of the first n values, reordering them (quickselect)
+const select = (values: Float32Array, n: number, k: number): number => {
+  let lo = 0;
+  let hi = n - 1;
+  while (lo < hi) {
+    const pivot = values[(lo + hi) >> 1];
+    let i = lo;
+    let j = hi;
+    while (i <= j) {
+      while (values[i] < pivot) i++;
+      while (values[j] > pivot) j--;
+      if (i <= j) {
+        const t = values[i];
+        values[i++] = values[j];
+        values[j--] = t;
+      }
+    }
+    if (k <= j) hi = j;
+    else if (k >= i) lo = i;
+    else return values[k];
+  }
+  return values[k];
+};
+
+// Median over a (2r+1) x (2r+1) window, edges clamped
+const medianFilter = (data: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const out = new Float32Array(data.length);
+  const size = (radius * 2 + 1) ** 2;
+  const window = new Float32Array(size);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let n = 0;
+      for (let dy = -radius; dy <= radius; dy++) {
+        const row = Math.min(height - 1, Math.max(0, y + dy)) * width;
+        for (let dx = -radius; dx <= radius; dx++) window[n++] = data[row + Math.min(width - 1, Math.max(0, x + dx))];
+      }
+      out[y * width + x] = select(window, size, size >> 1);
+    }
+  }
+  return out;
+};
+
+// Lower envelope of parabolas: out[p] = min_q f[q] + c (p - q)^2, in linear
+// time (Felzenszwalb & Huttenlocher). Reads and writes `n` values `stride` apart.
+const parabolaEnvelope = (f: Float32Array, out: Float32Array, offset: number, stride: number, n: number, c: number,
+  v: Int32Array, z: Float64Array) => {
+  const at = (q: number) => f[offset + q * stride];
+  const intersect = (q: number, r: number) => ((at(q) + c * q * q) - (at(r) + c * r * r)) / (2 * c * (q - r));
+  let k = 0;
+  v[0] = 0;
+  z[0] = -Infinity;
+  z[1] = Infinity;
+  for (let q = 1; q < n; q++) {
+    let s = intersect(q, v[k]);
+    while (s <= z[k]) {
+      k--;
+      s = intersect(q, v[k]);
+    }
+    k++;
+    v[k] = q;
+    z[k] = s;
+    z[k + 1] = Infinity;
+  }
+  k = 0;
+  for (let p = 0; p < n; p++) {
+    while (z[k + 1] < p) k++;
+    const d = p - v[k];
+    out[offset + p * stride] = at(v[k]) + c * d * d;
+  }
+};
+
+// Grayscale opening with a paraboloid z = d^2 / (2 r), the curvature of a
+// ball of radius r at its apex. Paraboloids are separable, so erosion and
+// dilation each take one pass along rows and one along columns.
+const paraboloidBackground = (data: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const c = 1 / (2 * radius);
+  const longest = Math.max(width, height);
+  const v = new Int32Array(longest);
+  const z = new Float64Array(longest + 1);
+  const envelope = (src: Float32Array): Float32Array => {
+    const tmp = new Float32Array(src.length);
+    const out = new Float32Array(src.length);
+    for (let y = 0; y < height; y++) parabolaEnvelope(src, tmp, y * width, 1, width, c, v, z);
+    for (let x = 0; x < width; x++) parabolaEnvelope(tmp, out, x, width, height, c, v, z);
+    return out;
+  };
+  const eroded = envelope(data);
+  // Dilation is the erosion of the negated image, negated back
+  for (let i = 0; i < eroded.length; i++) eroded[i] = -eroded[i];
+  const dilated = envelope(eroded);
+  for (let i = 0; i < dilated.length; i++) dilated[i] = -dilated[i];
+  return dilated;
+};
+
+// Grayscale opening with a ball, as in ImageJ's rolling ball: the image is
+// first shrunk (block minimum) for large radii, and the background
+// interpolated back up to full size.
+const rollingBallBackground = (data: Float32Array, width: number, height: number, radius: number): Float32Array => {
+  const shrink = radius <= 10 ? 1 : radius <= 30 ? 2 : radius <= 100 ? 4 : 8;
+  const sw = Math.ceil(width / shrink);
+  const sh = Math.ceil(height / shrink);
+  const small = new Float32Array(sw * sh).fill(Infinity);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = Math.floor(y / shrink) * sw + Math.floor(x / shrink);
+      if (data[y * width + x] < small[i]) small[i] = data[y * width + x];
+    }
+  }
+
+  // Ball heights relative to its top, over the offsets it covers
+  const r = Math.max(1, radius / shrink);
+  const reach = Math.floor(r);
+  const offsets: { dx: number, dy: number, dz: number }[] = [];
+  for (let dy = -reach; dy <= reach; dy++) {
+    for (let dx = -reach; dx <= reach; dx++) {
+      const d2 = dx * dx + dy * dy;
+      if (d2 <= r * r) offsets.push({ dx, dy, dz: r - Math.sqrt(r * r - d2) });
+    }
+  }
+  const morph = (src: Float32Array, erode: boolean): Float32Array => {
+    const out = new Float32Array(src.length);
+    for (let y = 0; y < sh; y++) {
+      for (let x = 0; x < sw; x++) {
+        let best = erode ? Infinity : -Infinity;
+        for (const { dx, dy, dz } of offsets) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= sw || ny >= sh) continue;
+          const value = src[ny * sw + nx];
+          if (erode ? value + dz < best : value - dz > best) best = erode ? value + dz : value - dz;
+        }
+        out[y * sw + x] = best;
+      }
+    }
+    return out;
+  };
+  const opened = morph(morph(small, true), false);
+  if (shrink === 1) return opened;
+
+  // Bilinear enlargement from block centres
+  const out = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const fy = Math.min(sh - 1, Math.max(0, (y + 0.5) / shrink - 0.5));
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(sh - 1, y0 + 1);
+    const ty = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const fx = Math.min(sw - 1, Math.max(0, (x + 0.5) / shrink - 0.5));
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(sw - 1, x0 + 1);
+      const tx = fx - x0;
+      const top = opened[y0 * sw + x0] * (1 - tx) + opened[y0 * sw + x1] * tx;
+      const bottom = opened[y1 * sw + x0] * (1 - tx) + opened[y1 * sw + x1] * tx;
+      out[y * width + x] = top * (1 - ty) + bottom * ty;
+    }
+  }
+  return out;
+};
+
+// Back to the source's sample type; integer samples are rounded and clamped
+// to the bit depth's range
+const toSourceType = (data: Float32Array, img: RawImage): RawImage['data'] => {
+  if (img.bitDepth === 32) return data;
+  const max = (1 << img.bitDepth) - 1;
+  const out = img.data instanceof Uint8Array ? new Uint8Array(data.length) : new Uint16Array(data.length);
+  for (let i = 0; i < data.length; i++) out[i] = Math.max(0, Math.min(max, Math.round(data[i])));
+  return out;
+};
+
+export const preprocessImage = (img: RawImage, p: PreprocessConfig, umPerPixel: number | null): RawImage => {
+  if (!isPreprocessActive(p)) return img;
+  const { width, height } = img;
+  let data = Float32Array.from(img.data);
+
+  if (p.offset.enabled) {
+    for (let i = 0; i < data.length; i++) data[i] = Math.max(0, data[i] - p.offset.value);
+  }
+  const radius = backgroundRadiusPx(p, umPerPixel);
+  if (p.background.enabled && radius > 0) {
+    const background = p.background.method === 'rolling-ball'
+      ? rollingBallBackground(data, width, height, radius)
+      : paraboloidBackground(data, width, height, radius);
+    for (let i = 0; i < data.length; i++) data[i] = Math.max(0, data[i] - background[i]);
+  }
+  if (p.median.enabled && p.median.radius >= 1) {
+    data = medianFilter(data, width, height, Math.round(p.median.radius));
+  }
+  if (p.gaussian.enabled && p.gaussian.sigma > 0) {
+    data = gaussianBlur(data, width, height, p.gaussian.sigma);
+  }
+  if (p.unsharp.enabled && p.unsharp.sigma > 0) {
+    const blurred = gaussianBlur(data, width, height, p.unsharp.sigma);
+    for (let i = 0; i < data.length; i++) data[i] += p.unsharp.amount * (data[i] - blurred[i]);
+  }
+  return { ...img, data: toSourceType(data, img) };
+};
+
+// One-line summary of the enabled stages, for provenance records
+export const describePreprocess = (p: PreprocessConfig, umPerPixel: number | null): string | null => {
+  const stages: string[] = [];
+  if (p.offset.enabled) stages.push(`offset -${p.offset.value}`);
+  if (p.background.enabled) {
+    const unit = p.background.unit === 'um' && umPerPixel ? 'µm' : 'px';
+    stages.push(`${p.background.method} background, radius ${p.background.radius} ${unit}`);
+  }
+  if (p.median.enabled) stages.push(`median r=${Math.round(p.median.radius)} px`);
+  if (p.gaussian.enabled) stages.push(`Gaussian sigma=${p.gaussian.sigma} px`);
+  if (p.unsharp.enabled) stages.push(`unsharp mask sigma=${p.unsharp.sigma} px, amount ${p.unsharp.amount}`);
+  return stages.length > 0 ? stages.join(' -> ') : null;
+};
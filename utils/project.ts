@@ -0,0 +1,222 @@
+import { Annotation, ChannelSlot, ChannelTransform, HistorySnapshot, HistoryState, InsetRegion, ProcessedRow, ProcessingConfig, RawImage, RawStack, Rect, RoiStrategy, ShiftEstimate, StackSelection } from '../types';
+import { createEmptyChannel, createEmptyRow, MAX_CHANNELS } from './channels';
+import { withConfigDefaults } from './config';
+import { defaultStackSelection } from './imageProcessing';
+import { SOFTWARE } from './provenance';
+import { decodeTiffInWorker, projectStackInWorker } from './workerPool';
+import { createZip, readZip, ZipEntry } from './zip';
+
+// A project is a zip holding manifest.json plus every source TIFF once, under
+// images/. Rows in the manifest (and in the saved undo history) point at those
+// entries by path; decoded data and rendered canvases are rebuilt on open.
+
+export const PROJECT_FORMAT = 'confocalaligner-project';
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.cap.zip';
+
+const MANIFEST = 'manifest.json';
+
+export interface SlotManifest {
+  file: string | null; // where the source is stored: zip entry path or autosave key
+  name: string;
+  lastModified: number;
+  selection: StackSelection | null;
+  estimatedShift: ShiftEstimate | null;
+  shift: ChannelTransform | null;
+}
+
+interface RowManifest {
+  id: string;
+  rowLabel: string;
+  timestamp: number;
+  calibrationOverride: number | null;
+  roiOverride: Rect | null;
+  roiStrategy: RoiStrategy | null;
+  insets: InsetRegion[];
+  annotations: Annotation[];
+  channels: SlotManifest[];
+}
+
+interface SnapshotManifest {
+  rows: RowManifest[];
+  config: ProcessingConfig;
+}
+
+export interface ProjectManifest {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  software: string;
+  savedAt: string;
+  config: ProcessingConfig;
+  rows: RowManifest[];
+  history: { past: SnapshotManifest[], future: SnapshotManifest[] };
+}
+
+export interface Project {
+  rows: ProcessedRow[];
+  config: ProcessingConfig;
+  history: HistoryState;
+}
+
+// A parsed manifest of some version, before it is upgraded and checked
+type VersionedManifest = Record<string, unknown> & { format: typeof PROJECT_FORMAT, version: number };
+
+// Upgrades a manifest from the keyed version to the next one. Add an entry
+// whenever the saved shape changes; fields that are merely new are covered by
+// the defaults applied on open and need no migration.
+const MIGRATIONS: Record<number, (manifest: VersionedManifest) => Record<string, unknown>> = {};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isCurrent = (manifest: VersionedManifest): manifest is VersionedManifest & ProjectManifest =>
+  manifest.version === PROJECT_VERSION && Array.isArray(manifest.rows) && isObject(manifest.config);
+
+const migrate = (raw: unknown): ProjectManifest => {
+  if (!isObject(raw) || raw.format !== PROJECT_FORMAT) throw new Error('Not a ConfocalAligner project');
+  const version = raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error(`Project has no valid version (${JSON.stringify(version)})`);
+  }
+  if (version > PROJECT_VERSION) throw new Error(`Project version ${version} was saved by a newer release`);
+  let current: VersionedManifest = { ...raw, format: PROJECT_FORMAT, version };
+  while (current.version < PROJECT_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) throw new Error(`Cannot upgrade project version ${current.version}`);
+    current = { ...step(current), format: PROJECT_FORMAT, version: current.version + 1 };
+  }
+  if (!isCurrent(current)) throw new Error('Project manifest has no rows or settings');
+  return current;
+};
+
+// Zip-safe entry name for a source file
+const entryName = (index: number, name: string) => `images/${index + 1}-${name.replace(/[\\/:*?"<>|]/g, '_')}`;
+
+// Serializable description of the workspace. `fileRef` names where each
+// source file is stored (a zip path, or an IndexedDB key for autosave).
+export const toManifest = (
+  rows: ProcessedRow[],
+  config: ProcessingConfig,
+  history: HistoryState,
+  fileRef: (file: File) => string,
+  savedAt: Date = new Date()
+): ProjectManifest => {
+  const rowManifest = (row: ProcessedRow): RowManifest => ({
+    id: row.id,
+    rowLabel: row.rowLabel,
+    timestamp: row.timestamp,
+    calibrationOverride: row.calibrationOverride,
+    roiOverride: row.roiOverride,
+    roiStrategy: row.roiStrategy,
+    insets: row.insets,
+    annotations: row.annotations,
+    channels: row.channels.map(slot => ({
+      file: slot.file && slot.stack ? fileRef(slot.file) : null,
+      name: slot.file?.name ?? '',
+      lastModified: slot.file?.lastModified ?? 0,
+      selection: slot.selection,
+      estimatedShift: slot.estimatedShift,
+      shift: slot.shift
+    }))
+  });
+  const snapshotManifest = (snapshot: HistorySnapshot): SnapshotManifest =>
+    ({ rows: snapshot.rows.map(rowManifest), config: snapshot.config });
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    software: SOFTWARE,
+    savedAt: savedAt.toISOString(),
+    config,
+    rows: rows.map(rowManifest),
+    history: { past: history.past.map(snapshotManifest), future: history.future.map(snapshotManifest) }
+  };
+};
+
+// Rebuild the workspace from a (possibly older) manifest. `loadFile` returns
+// the source file stored under a slot's reference.
+export const fromManifest = async (
+  raw: unknown,
+  loadFile: (slot: SlotManifest) => File | Promise<File>
+): Promise<Project> => {
+  const manifest = migrate(raw);
+
+  // Decode every stored TIFF once and share stacks / projections between the
+  // current rows and the history snapshots
+  const decoded = new Map<string, Promise<{ file: File, stack: RawStack }>>();
+  const decode = (slot: SlotManifest) => {
+    const ref = slot.file!;
+    if (!decoded.has(ref)) {
+      decoded.set(ref, Promise.resolve(loadFile(slot)).then(async file => ({ file, stack: (await decodeTiffInWorker(file)).stack })));
+    }
+    return decoded.get(ref)!;
+  };
+  const projections = new Map<string, Promise<RawImage>>();
+
+  const restoreSlot = async (slot: SlotManifest | undefined): Promise<ChannelSlot> => {
+    if (!slot?.file) return createEmptyChannel();
+    const { file, stack } = await decode(slot);
+    const selection = slot.selection ?? defaultStackSelection(stack);
+    const key = `${slot.file}|${JSON.stringify(selection)}`;
+    if (!projections.has(key)) projections.set(key, projectStackInWorker(stack, selection));
+    return { file, stack, selection, image: await projections.get(key)!, estimatedShift: slot.estimatedShift ?? null, shift: slot.shift ?? null };
+  };
+
+  const restoreRow = async (row: RowManifest): Promise<ProcessedRow> => ({
+    ...createEmptyRow(),
+    id: row.id,
+    rowLabel: row.rowLabel ?? '',
+    timestamp: row.timestamp ?? Date.now(),
+    calibrationOverride: row.calibrationOverride ?? null,
+    roiOverride: row.roiOverride ?? null,
+    roiStrategy: row.roiStrategy ?? null,
+    insets: row.insets ?? [],
+    annotations: row.annotations ?? [],
+    channels: await Promise.all(Array.from({ length: MAX_CHANNELS }, (_, c) => restoreSlot(row.channels?.[c])))
+  });
+
+  const restoreSnapshot = async (snapshot: SnapshotManifest): Promise<HistorySnapshot> => ({
+    rows: await Promise.all(snapshot.rows.map(restoreRow)),
+    config: withConfigDefaults(snapshot.config)
+  });
+
+  return {
+    rows: await Promise.all(manifest.rows.map(restoreRow)),
+    config: withConfigDefaults(manifest.config),
+    history: {
+      past: await Promise.all((manifest.history?.past ?? []).map(restoreSnapshot)),
+      future: await Promise.all((manifest.history?.future ?? []).map(restoreSnapshot))
+    }
+  };
+};
+
+export const saveProject = async (rows: ProcessedRow[], config: ProcessingConfig, history: HistoryState): Promise<Blob> => {
+  // Each File is stored once, however many rows and snapshots refer to it
+  const paths = new Map<File, string>();
+  const pathOf = (file: File) => {
+    if (!paths.has(file)) paths.set(file, entryName(paths.size, file.name));
+    return paths.get(file)!;
+  };
+
+  const savedAt = new Date();
+  const manifest = toManifest(rows, config, history, pathOf, savedAt);
+  const entries: ZipEntry[] = [{ name: MANIFEST, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) }];
+  for (const [file, path] of paths) {
+    entries.push({ name: path, data: new Uint8Array(await file.arrayBuffer()) });
+  }
+  return createZip(entries, savedAt);
+};
+
+export const isProjectFile = (file: File): boolean =>
+  file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip';
+
+export const openProject = async (file: File): Promise<Project> => {
+  const entries = await readZip(file);
+  const raw = entries.get(MANIFEST);
+  if (!raw) throw new Error('Project has no manifest');
+  return fromManifest(JSON.parse(new TextDecoder().decode(raw)), slot => {
+    const bytes = entries.get(slot.file!);
+    if (!bytes) throw new Error(`Project is missing ${slot.file}`);
+    return new File([bytes], slot.name, { lastModified: slot.lastModified, type: 'image/tiff' });
+  });
+};
@@ -0,0 +1,181 @@
+import { ChannelTransform, DisplayRangeMode, IntensityMode, PreprocessConfig, ProcessedRow, ProcessingConfig, Rect, RoiStrategy, StackSelection } from '../types';
+import { lutName } from './channels';
+import { getRowLayout, resolveRoiStrategy, resolveUmPerPixel } from './imageProcessing';
+import { describePreprocess } from './preprocess';
+
+export const SOFTWARE = `${__APP_NAME__} ${__APP_VERSION__}`;
+
+export interface ChannelProvenance {
+  label: string;
+  lut: { name: string, color: string };
+  file: { name: string, size: number, lastModified: string, sha256: string };
+  source: { width: number, height: number, bitDepth: number, pages: number, hyperstackChannels: number };
+  selection: StackSelection | null;
+  registration: ChannelTransform | null;
+  preprocess: PreprocessConfig;
+  // How displayRange was set: per crop by `rangeMode` ('per-image'), as the
+  // union of every row's crop range measured by `rangeMode` ('linked-auto'),
+  // or the channel's manual range shared by all rows ('linked-manual', where
+  // `rangeMode` is null)
+  rangeSource: IntensityMode;
+  rangeMode: DisplayRangeMode | null;
+  saturated: number | null; // % clipped, for the 'percentile' mode
+  displayRange: { min: number, max: number };
+  scale: number; // display units per native unit
+  gamma: number; // 1 = linear
+  jitter: number; // random factor drawn for `randomness` (1 = none)
+}
+
+export interface RowProvenance {
+  row: number; // 1-based position in the montage
+  id: string; // seeds the random factor; a manifest row with this id draws the same
+  label: string;
+  roi: Rect & { mode: 'manual' | 'auto', strategy: RoiStrategy, score: number };
+  resize: { x: number, y: number }; // output pixels per source pixel
+  umPerPixel: { source: number | null, output: number | null };
+  insets: Rect[]; // magnified regions in source pixels, at config.insets.zoom
+  channels: ChannelProvenance[];
+}
+
+// Deliberately free of timestamps: the record is embedded in the PNG, and the
+// same inputs and config must export byte-identical files
+export interface ProvenanceOutput {
+  width: number;
+  height: number;
+  scale: number; // output size relative to the configured panel size
+  dpi: number;
+}
+
+export interface ProvenanceRecord {
+  software: string;
+  output: ProvenanceOutput;
+  rows: RowProvenance[];
+  config: ProcessingConfig;
+}
+
+// Hashes are computed once per loaded File
+const hashCache = new WeakMap<File, Promise<string>>();
+
+export const sha256Hex = (file: File): Promise<string> => {
+  let hash = hashCache.get(file);
+  if (!hash) {
+    hash = file.arrayBuffer()
+      .then(buffer => crypto.subtle.digest('SHA-256', buffer))
+      .then(digest => Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join(''));
+    hashCache.set(file, hash);
+  }
+  return hash;
+};
+
+// Everything needed to reproduce or audit the exported montage: inputs with
+// their hashes, and every geometric and intensity transformation per row.
+// Only rendered rows are included, in the order they appear in the figure.
+export const buildProvenance = async (
+  rows: ProcessedRow[],
+  config: ProcessingConfig,
+  output: ProvenanceOutput
+): Promise<ProvenanceRecord> => {
+  const { panelW, panelH } = getRowLayout(config, output.scale);
+  const rendered = rows.filter(r => r.renderInfo);
+  const records = await Promise.all(rendered.map(async (row, index): Promise<RowProvenance> => {
+    const info = row.renderInfo!;
+    const umPerPixel = resolveUmPerPixel(row);
+    const channels = await Promise.all(row.channels.slice(0, config.channelCount).map(async (slot, c): Promise<ChannelProvenance> => {
+      const file = slot.file!;
+      const stack = slot.stack!;
+      const applied = info.channels[c];
+      const rangeMode = config.intensityMode === 'linked-manual' ? null : config.channels[c].rangeMode;
+      return {
+        label: config.channels[c].label,
+        lut: { name: lutName(config.channels[c].color), color: config.channels[c].color },
+        file: { name: file.name, size: file.size, lastModified: new Date(file.lastModified).toISOString(), sha256: await sha256Hex(file) },
+        source: {
+          width: stack.pages[0].width,
+          height: stack.pages[0].height,
+          bitDepth: stack.pages[0].bitDepth,
+          pages: stack.pages.length,
+          hyperstackChannels: stack.channels
+        },
+        selection: slot.selection,
+        registration: slot.shift,
+        preprocess: config.channels[c].preprocess,
+        rangeSource: config.intensityMode,
+        rangeMode,
+        saturated: rangeMode === 'percentile' ? config.channels[c].saturated : null,
+        displayRange: { ...applied.range },
+        scale: applied.scale,
+        gamma: applied.gamma,
+        jitter: applied.jitter
+      };
+    }));
+    return {
+      row: index + 1,
+      id: row.id,
+      label: row.rowLabel,
+      roi: { ...info.roi, mode: row.roiOverride ? 'manual' : 'auto', strategy: resolveRoiStrategy(row, config), score: info.roiScore },
+      resize: { x: panelW / info.roi.w, y: panelH / info.roi.h },
+      umPerPixel: { source: umPerPixel, output: umPerPixel ? umPerPixel * (info.roi.w / panelW) : null },
+      insets: info.insets.map(rect => ({ ...rect })),
+      channels
+    };
+  }));
+
+  return { software: SOFTWARE, output, rows: records, config };
+};
+
+// Compact JSON with non-ASCII characters escaped, for 7-bit metadata such as
+// the TIFF ImageDescription tag
+export const provenanceAsciiJson = (record: ProvenanceRecord): string =>
+  JSON.stringify(record).replace(/[^\x00-\x7f]/g, ch => `\\u${ch.charCodeAt(0).toString(16).padStart(4, '0')}`);
+
+const fmt = (v: number) => Number.isInteger(v) ? String(v) : v.toPrecision(6);
+
+const describeRange = (ch: ChannelProvenance): string => {
+  if (ch.rangeSource === 'linked-manual' || !ch.rangeMode) return 'manual range linked across rows';
+  const mode = ch.rangeMode === 'percentile' ? `${fmt(ch.saturated!)}% saturated` : ch.rangeMode;
+  return ch.rangeSource === 'linked-auto' ? `linked across rows, union of each crop's ${mode} range` : `per crop, ${mode}`;
+};
+
+// Plain-text rendering of the record for methods sections and reviewers
+export const provenanceText = (record: ProvenanceRecord): string => {
+  const { config } = record;
+  const { output } = record;
+  const { panelW, panelH } = getRowLayout(config, output.scale);
+  const lines = [
+    `${record.software} — figure provenance`,
+    `Output: ${output.width} x ${output.height} px at ${fmt(output.dpi)} DPI, panels ${panelW} x ${panelH} px (x${fmt(output.scale)} of ${config.targetWidth} x ${config.targetHeight})`,
+    `Intensity mode: ${config.intensityMode}, target intensity ${config.targetIntensity}, randomness ${config.randomness} (seed ${config.seed})`,
+    `Bottom clip: ${config.clipBottom} px`,
+    ''
+  ];
+  record.rows.forEach(row => {
+    lines.push(`Row ${row.row}${row.label ? ` (${row.label})` : ''}, id ${row.id}`);
+    lines.push(`  ROI (${row.roi.mode}, ${row.roi.strategy}, score ${fmt(row.roi.score)}): x=${row.roi.x} y=${row.roi.y} w=${row.roi.w} h=${row.roi.h} source px`);
+    lines.push(`  Resize: x${fmt(row.resize.x)} horizontal, x${fmt(row.resize.y)} vertical (bilinear)`);
+    lines.push(`  Pixel size: ${row.umPerPixel.source ? `${fmt(row.umPerPixel.source)} µm/px source, ${fmt(row.umPerPixel.output!)} µm/px output` : 'uncalibrated'}`);
+    row.insets.forEach((rect, i) => {
+      lines.push(`  Inset ${i + 1} (x${fmt(config.insets.zoom)} ${config.insets.mode}, ${config.insets.interpolation}): x=${rect.x} y=${rect.y} w=${rect.w} h=${rect.h} source px`);
+    });
+    row.channels.forEach((ch, c) => {
+      lines.push(`  Channel ${c + 1} "${ch.label}" — LUT ${ch.lut.name} (${ch.lut.color})`);
+      lines.push(`    File: ${ch.file.name} (${ch.file.size} bytes, SHA-256 ${ch.file.sha256})`);
+      lines.push(`    Source: ${ch.source.width} x ${ch.source.height}, ${ch.source.bitDepth === 32 ? '32-bit float' : `${ch.source.bitDepth}-bit`}, ${ch.source.pages} page(s)`);
+      if (ch.selection) {
+        const s = ch.selection;
+        const planes = s.mode === 'slice' ? `slice ${s.slice + 1}` : `${s.mode} projection of slices ${s.start + 1}-${s.end + 1}`;
+        lines.push(`    Plane: ${planes}${ch.source.hyperstackChannels > 1 ? `, hyperstack channel ${s.channel + 1}` : ''}`);
+      }
+      const preprocess = describePreprocess(ch.preprocess, row.umPerPixel.source);
+      if (preprocess) lines.push(`    Preprocessing: ${preprocess}`);
+      if (ch.registration) {
+        lines.push(`    Registration: dx=${fmt(ch.registration.dx)} dy=${fmt(ch.registration.dy)} px, rotation ${fmt(ch.registration.rotationDeg)}°`);
+      }
+      lines.push(`    Display (${describeRange(ch)}): [${fmt(ch.displayRange.min)}, ${fmt(ch.displayRange.max)}] -> scale ${fmt(ch.scale)} per unit, random factor ${fmt(ch.jitter)}`);
+      if (ch.gamma !== 1) lines.push(`    Gamma: ${fmt(ch.gamma)} (nonlinear adjustment)`);
+    });
+    lines.push('');
+  });
+  lines.push('Full configuration:');
+  lines.push(JSON.stringify(config, null, 2));
+  return lines.join('\n') + '\n';
+};
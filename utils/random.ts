@@ -0,0 +1,30 @@
+// Deterministic pseudo-random numbers so a given seed always renders the same figure
+
+// 32-bit FNV-1a hash of a string
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32: small, fast and well distributed for non-cryptographic use
+export const mulberry32 = (seed: number) => {
+  let state = seed >>> 0;
+  return (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// One uniform [0, 1) draw per (seed, row, channel), independent of render
+// order and of how many times the row has been rendered before
+export const seededUniform = (seed: number, rowId: string, channel: number): number =>
+  mulberry32(hashString(`${seed >>> 0}:${rowId}:${channel}`))();
+
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296);
@@ -0,0 +1,147 @@
+import { OverlayItem, RgbaImage } from '../types';
+import { hexToRgb } from './channels';
+
+// RGBA buffers for the DOM-free processing core. Panels are rendered into
+// them and rows and figures assembled from them, identically in the browser
+// and on the command line; only the final drawing onto a canvas differs.
+
+const rgb255 = (hex: string): [number, number, number] =>
+  hexToRgb(hex).map(v => Math.round(v * 255)) as [number, number, number];
+
+export const createRgba = (width: number, height: number, fill = '#000000'): RgbaImage => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  const [r, g, b] = rgb255(fill);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = r;
+    data[i + 1] = g;
+    data[i + 2] = b;
+    data[i + 3] = 255;
+  }
+  return { width, height, data };
+};
+
+// Copy a w x h block at (sx, sy) of `src` to (dx, dy) of `dst`, clipped to both
+export const copyRgba = (
+  src: RgbaImage,
+  dst: RgbaImage,
+  dx: number,
+  dy: number,
+  sx = 0,
+  sy = 0,
+  w = src.width,
+  h = src.height
+) => {
+  const x0 = Math.max(0, -dx, -sx);
+  const x1 = Math.min(w, dst.width - dx, src.width - sx);
+  if (x1 <= x0) return;
+  for (let y = Math.max(0, -dy, -sy); y < Math.min(h, dst.height - dy, src.height - sy); y++) {
+    const from = ((sy + y) * src.width + sx + x0) * 4;
+    dst.data.set(src.data.subarray(from, from + (x1 - x0) * 4), ((dy + y) * dst.width + dx + x0) * 4);
+  }
+};
+
+// Block of an image as a new image
+export const cropRgba = (src: RgbaImage, x: number, y: number, width: number, height: number): RgbaImage => {
+  const out = createRgba(width, height);
+  copyRgba(src, out, 0, 0, x, y, width, height);
+  return out;
+};
+
+interface Shape {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  inside: (x: number, y: number) => boolean;
+  color: string;
+}
+
+const distanceToSegment = (px: number, py: number, x: number, y: number, dx: number, dy: number): number => {
+  const length2 = dx * dx + dy * dy;
+  const t = length2 > 0 ? Math.max(0, Math.min(1, ((px - x) * dx + (py - y) * dy) / length2)) : 0;
+  return Math.hypot(px - (x + t * dx), py - (y + t * dy));
+};
+
+// Area covered by an overlay item, as a point test over its bounds. Text has
+// no shape without a font renderer.
+const shapeOf = (item: OverlayItem): Shape | null => {
+  switch (item.kind) {
+    case 'rect':
+      return {
+        x0: item.x, y0: item.y, x1: item.x + item.width, y1: item.y + item.height, color: item.fill,
+        inside: () => true
+      };
+    case 'frame': {
+      const w = item.lineWidth;
+      return {
+        x0: item.x, y0: item.y, x1: item.x + item.width, y1: item.y + item.height, color: item.stroke,
+        inside: (x, y) => x < item.x + w || x >= item.x + item.width - w || y < item.y + w || y >= item.y + item.height - w
+      };
+    }
+    case 'line': {
+      const r = item.lineWidth / 2;
+      return {
+        x0: Math.min(item.x, item.x + item.dx) - r, y0: Math.min(item.y, item.y + item.dy) - r,
+        x1: Math.max(item.x, item.x + item.dx) + r, y1: Math.max(item.y, item.y + item.dy) + r, color: item.stroke,
+        inside: (x, y) => distanceToSegment(x, y, item.x, item.y, item.dx, item.dy) <= r
+      };
+    }
+    case 'circle': {
+      const r = item.lineWidth / 2;
+      const outer = item.radius + r;
+      return {
+        x0: item.x - outer, y0: item.y - outer, x1: item.x + outer, y1: item.y + outer, color: item.stroke,
+        inside: (x, y) => Math.abs(Math.hypot(x - item.x, y - item.y) - item.radius) <= r
+      };
+    }
+    case 'polygon': {
+      const xs = item.points.filter((_, i) => i % 2 === 0).map(v => item.x + v);
+      const ys = item.points.filter((_, i) => i % 2 === 1).map(v => item.y + v);
+      return {
+        x0: Math.min(...xs), y0: Math.min(...ys), x1: Math.max(...xs), y1: Math.max(...ys), color: item.fill,
+        // Even-odd crossing test
+        inside: (x, y) => {
+          let inside = false;
+          for (let i = 0, j = xs.length - 1; i < xs.length; j = i++) {
+            if ((ys[i] > y) !== (ys[j] > y) && x < xs[j] + (y - ys[j]) * (xs[i] - xs[j]) / (ys[i] - ys[j])) inside = !inside;
+          }
+          return inside;
+        }
+      };
+    }
+    case 'text':
+      return null;
+  }
+};
+
+// Samples per pixel side when measuring how much of a pixel a shape covers
+const SUBSAMPLES = 4;
+
+// Paint overlay shapes with anti-aliased edges: each pixel is blended by the
+// share of its subsamples inside the shape. Text items are skipped; labels
+// need a vector export when there is no canvas to draw them.
+export const rasterizeOverlays = (image: RgbaImage, items: OverlayItem[]) => {
+  items.forEach(item => {
+    const shape = shapeOf(item);
+    if (!shape) return;
+    const [r, g, b] = rgb255(shape.color);
+    for (let py = Math.max(0, Math.floor(shape.y0)); py < Math.min(image.height, Math.ceil(shape.y1)); py++) {
+      for (let px = Math.max(0, Math.floor(shape.x0)); px < Math.min(image.width, Math.ceil(shape.x1)); px++) {
+        let hits = 0;
+        for (let sy = 0; sy < SUBSAMPLES; sy++) {
+          for (let sx = 0; sx < SUBSAMPLES; sx++) {
+            const x = px + (sx + 0.5) / SUBSAMPLES;
+            const y = py + (sy + 0.5) / SUBSAMPLES;
+            if (x >= shape.x0 && x < shape.x1 && y >= shape.y0 && y < shape.y1 && shape.inside(x, y)) hits++;
+          }
+        }
+        if (hits === 0) continue;
+        const a = hits / (SUBSAMPLES * SUBSAMPLES);
+        const o = (py * image.width + px) * 4;
+        image.data[o] = Math.round(image.data[o] * (1 - a) + r * a);
+        image.data[o + 1] = Math.round(image.data[o + 1] * (1 - a) + g * a);
+        image.data[o + 2] = Math.round(image.data[o + 2] * (1 - a) + b * a);
+      }
+    }
+  });
+};
@@ -0,0 +1,272 @@
+import { ChannelSlot, ChannelTransform, ProcessedRow, ProcessingConfig, RawImage, RegistrationConfig, ShiftEstimate } from '../types';
+
+// Largest square window (power of two) used for phase correlation. Chromatic
+// offsets are a few pixels, so a central window is plenty and keeps it fast.
+const MAX_WINDOW = 512;
+
+// In-place iterative radix-2 FFT. n must be a power of two.
+const fft1d = (re: Float64Array, im: Float64Array, inverse: boolean) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (inverse ? 2 : -2) * Math.PI / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+};
+
+// 2D FFT of an n x n complex grid (rows then columns)
+const fft2d = (re: Float64Array, im: Float64Array, n: number, inverse: boolean) => {
+  const rowRe = new Float64Array(n);
+  const rowIm = new Float64Array(n);
+  for (let y = 0; y < n; y++) {
+    rowRe.set(re.subarray(y * n, (y + 1) * n));
+    rowIm.set(im.subarray(y * n, (y + 1) * n));
+    fft1d(rowRe, rowIm, inverse);
+    re.set(rowRe, y * n);
+    im.set(rowIm, y * n);
+  }
+  for (let x = 0; x < n; x++) {
+    for (let y = 0; y < n; y++) {
+      rowRe[y] = re[y * n + x];
+      rowIm[y] = im[y * n + x];
+    }
+    fft1d(rowRe, rowIm, inverse);
+    for (let y = 0; y < n; y++) {
+      re[y * n + x] = rowRe[y];
+      im[y * n + x] = rowIm[y];
+    }
+  }
+};
+
+const windowSize = (img: RawImage): number => {
+  let n = 1;
+  while (n * 2 <= Math.min(img.width, img.height, MAX_WINDOW)) n *= 2;
+  return n;
+};
+
+// Central n x n window, mean-subtracted and Hann-tapered to suppress edge effects
+const extractWindow = (img: RawImage, n: number): Float64Array => {
+  const x0 = Math.floor((img.width - n) / 2);
+  const y0 = Math.floor((img.height - n) / 2);
+  const out = new Float64Array(n * n);
+  let mean = 0;
+  for (let y = 0; y < n; y++) {
+    for (let x = 0; x < n; x++) {
+      const v = img.data[(y0 + y) * img.width + x0 + x];
+      out[y * n + x] = v;
+      mean += v;
+    }
+  }
+  mean /= n * n;
+  for (let y = 0; y < n; y++) {
+    const wy = 0.5 - 0.5 * Math.cos((2 * Math.PI * y) / (n - 1));
+    for (let x = 0; x < n; x++) {
+      const wx = 0.5 - 0.5 * Math.cos((2 * Math.PI * x) / (n - 1));
+      out[y * n + x] = (out[y * n + x] - mean) * wx * wy;
+    }
+  }
+  return out;
+};
+
+// Vertex offset of a parabola through three samples, in [-0.5, 0.5]
+const parabolicOffset = (left: number, center: number, right: number): number => {
+  const denom = left - 2 * center + right;
+  if (denom === 0) return 0;
+  return Math.max(-0.5, Math.min(0.5, 0.5 * (left - right) / denom));
+};
+
+// Displacement of `moving` relative to `reference` by phase correlation, with
+// parabolic sub-pixel refinement. `peak` is the normalized correlation height
+// (close to 1 for a clean match, near 0 for unrelated images).
+const phaseCorrelate = (reference: RawImage, moving: RawImage): { dx: number, dy: number, peak: number } => {
+  const n = windowSize(reference);
+  const refRe = extractWindow(reference, n);
+  const refIm = new Float64Array(n * n);
+  const movRe = extractWindow(moving, n);
+  const movIm = new Float64Array(n * n);
+  fft2d(refRe, refIm, n, false);
+  fft2d(movRe, movIm, n, false);
+
+  // Normalized cross-power spectrum: F_mov * conj(F_ref) / |...|
+  const crossRe = new Float64Array(n * n);
+  const crossIm = new Float64Array(n * n);
+  for (let i = 0; i < n * n; i++) {
+    const re = movRe[i] * refRe[i] + movIm[i] * refIm[i];
+    const im = movIm[i] * refRe[i] - movRe[i] * refIm[i];
+    const mag = Math.hypot(re, im) || 1;
+    crossRe[i] = re / mag;
+    crossIm[i] = im / mag;
+  }
+  fft2d(crossRe, crossIm, n, true);
+
+  let best = 0;
+  for (let i = 1; i < n * n; i++) {
+    if (crossRe[i] > crossRe[best]) best = i;
+  }
+  const px = best % n;
+  const py = Math.floor(best / n);
+  const at = (x: number, y: number) => crossRe[((y + n) % n) * n + ((x + n) % n)];
+
+  const subX = parabolicOffset(at(px - 1, py), at(px, py), at(px + 1, py));
+  const subY = parabolicOffset(at(px, py - 1), at(px, py), at(px, py + 1));
+  // Peaks past the midpoint wrap around to negative displacements
+  const dx = (px > n / 2 ? px - n : px) + subX;
+  const dy = (py > n / 2 ? py - n : py) + subY;
+  return { dx, dy, peak: crossRe[best] };
+};
+
+// Resample `img` so that output pixel p shows the input at
+// R(-θ)(p - c - t) + c, i.e. the image is rotated by θ about its center and
+// then translated by t. Integer types are rounded back to their native type.
+export const applyTransform = (img: RawImage, t: ChannelTransform): RawImage => {
+  const { width, height } = img;
+  const out = new (img.data.constructor as { new(n: number): RawImage['data'] })(width * height);
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+  const theta = (t.rotationDeg * Math.PI) / 180;
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  const round = !(out instanceof Float32Array);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const ux = x - cx - t.dx;
+      const uy = y - cy - t.dy;
+      const sx = cos * ux + sin * uy + cx;
+      const sy = -sin * ux + cos * uy + cy;
+      // Samples from outside the frame are left at zero
+      if (sx < 0 || sy < 0 || sx > width - 1 || sy > height - 1) continue;
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(width - 1, x0 + 1);
+      const y1 = Math.min(height - 1, y0 + 1);
+      const tx = sx - x0;
+      const ty = sy - y0;
+      const top = img.data[y0 * width + x0] * (1 - tx) + img.data[y0 * width + x1] * tx;
+      const bottom = img.data[y1 * width + x0] * (1 - tx) + img.data[y1 * width + x1] * tx;
+      const v = top * (1 - ty) + bottom * ty;
+      out[y * width + x] = round ? Math.round(v) : v;
+    }
+  }
+  return { width, height, bitDepth: img.bitDepth, data: out };
+};
+
+// Estimate the transform that aligns `moving` onto `reference`. With rotation
+// enabled, a coarse angle search picks the rotation with the strongest
+// correlation peak, refined by a parabola through its neighbours.
+export const estimateShift = (
+  reference: RawImage,
+  moving: RawImage,
+  allowRotation: boolean,
+  maxRotationDeg: number
+): ShiftEstimate => {
+  if (reference.width !== moving.width || reference.height !== moving.height) {
+    return { dx: 0, dy: 0, rotationDeg: 0, peak: 0, withRotation: allowRotation, maxRotationDeg };
+  }
+
+  // Correlate after applying a candidate correction rotation to `moving`
+  const correlateAt = (rotationDeg: number) => {
+    const rotated = rotationDeg === 0 ? moving : applyTransform(moving, { dx: 0, dy: 0, rotationDeg });
+    return phaseCorrelate(reference, rotated);
+  };
+
+  let rotationDeg = 0;
+  let result = correlateAt(0);
+
+  if (allowRotation && maxRotationDeg > 0) {
+    const step = 0.5;
+    const angles: number[] = [];
+    for (let a = -maxRotationDeg; a <= maxRotationDeg + 1e-9; a += step) angles.push(Math.round(a * 100) / 100);
+    const peaks = angles.map(a => a === 0 ? result : correlateAt(a));
+    let bestIdx = 0;
+    peaks.forEach((p, i) => { if (p.peak > peaks[bestIdx].peak) bestIdx = i; });
+    const refine = bestIdx > 0 && bestIdx < angles.length - 1
+      ? parabolicOffset(peaks[bestIdx - 1].peak, peaks[bestIdx].peak, peaks[bestIdx + 1].peak) * step
+      : 0;
+    rotationDeg = angles[bestIdx] + refine;
+    result = refine === 0 ? peaks[bestIdx] : correlateAt(rotationDeg);
+  }
+
+  // The correction moves the channel back by its measured displacement
+  return { dx: -result.dx, dy: -result.dy, rotationDeg, peak: result.peak, withRotation: allowRotation, maxRotationDeg };
+};
+
+// Transformed images are cached per source image so re-rendering on every
+// config change does not resample full frames again
+const transformCache = new WeakMap<RawImage, { key: string, image: RawImage }>();
+
+export const getAlignedImage = (img: RawImage, t: ChannelTransform | null): RawImage => {
+  if (!t || (t.dx === 0 && t.dy === 0 && t.rotationDeg === 0)) return img;
+  const key = `${t.dx}:${t.dy}:${t.rotationDeg}`;
+  const cached = transformCache.get(img);
+  if (cached && cached.key === key) return cached.image;
+  const image = applyTransform(img, t);
+  transformCache.set(img, { key, image });
+  return image;
+};
+
+// An estimate is current when it was measured with the search settings in
+// use. The rotation limit only matters while rotation is searched; estimates
+// saved before it was recorded are measured again.
+const isCurrentEstimate = (estimate: ShiftEstimate | null, { allowRotation, maxRotationDeg }: RegistrationConfig): boolean =>
+  !!estimate && estimate.withRotation === allowRotation && (!allowRotation || estimate.maxRotationDeg === maxRotationDeg);
+
+// Secondary channels of a complete row that lack an up-to-date estimate
+export const staleRegistrations = (row: ProcessedRow, config: ProcessingConfig): number[] => {
+  const used = row.channels.slice(0, config.channelCount);
+  if (used.length < 2 || used.some(c => !c.image)) return [];
+  return used.flatMap((slot, idx) => idx > 0 && !isCurrentEstimate(slot.estimatedShift, config.registration) ? [idx] : []);
+};
+
+// Store an estimate measured against channel 1. With autoApply it also
+// becomes the applied correction.
+export const withEstimate = (slot: ChannelSlot, estimatedShift: ShiftEstimate, autoApply: boolean): ChannelSlot => {
+  const { dx, dy, rotationDeg } = estimatedShift;
+  return { ...slot, estimatedShift, shift: autoApply ? { dx, dy, rotationDeg } : slot.shift };
+};
+
+// Measure the row's stale channels on this thread (the app runs them in its
+// worker pool instead)
+export const estimateRowRegistration = (row: ProcessedRow, config: ProcessingConfig): ChannelSlot[] => {
+  const stale = staleRegistrations(row, config);
+  const { allowRotation, maxRotationDeg, autoApply } = config.registration;
+  return row.channels.map((slot, idx) => stale.includes(idx)
+    ? withEstimate(slot, estimateShift(row.channels[0].image!, slot.image!, allowRotation, maxRotationDeg), autoApply)
+    : slot);
+};
+
+// Estimates are relative to channel 1, so they go stale when it changes
+export const clearRegistrationEstimates = (channels: ChannelSlot[]): ChannelSlot[] =>
+  channels.map(c => c.estimatedShift ? { ...c, estimatedShift: null } : c);
@@ -0,0 +1,124 @@
+import { HistoryState, ProcessedRow, ProcessingConfig } from '../types';
+import { fromManifest, Project, ProjectManifest, toManifest } from './project';
+
+// Autosave of the workspace to IndexedDB. Source files live in their own store
+// keyed by a per-File id, so an autosave only writes files that are new since
+// the previous one; the session record is the same manifest a project zip uses.
+
+const DB_NAME = 'confocalaligner';
+const DB_VERSION = 1;
+const FILES = 'files';
+const SESSION = 'session';
+const SESSION_KEY = 'current';
+
+export interface SavedSession {
+  savedAt: string;
+  rowCount: number; // rows with at least one source image
+  restore: () => Promise<Project>;
+}
+
+const fileIds = new WeakMap<File, string>();
+
+const fileId = (file: File): string => {
+  if (!fileIds.has(file)) fileIds.set(file, crypto.randomUUID());
+  return fileIds.get(file)!;
+};
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(FILES)) db.createObjectStore(FILES);
+    if (!db.objectStoreNames.contains(SESSION)) db.createObjectStore(SESSION);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+export const saveSession = async (rows: ProcessedRow[], config: ProcessingConfig, history: HistoryState): Promise<void> => {
+  const files = new Map<string, File>();
+  const manifest = toManifest(rows, config, history, file => {
+    const id = fileId(file);
+    files.set(id, file);
+    return id;
+  });
+
+  const db = await openDb();
+  try {
+    const tx = db.transaction([FILES, SESSION], 'readwrite');
+    const fileStore = tx.objectStore(FILES);
+    const stored = new Set((await promisify(fileStore.getAllKeys())).map(String));
+    // Write new sources and drop ones nothing refers to any more
+    files.forEach((file, id) => { if (!stored.has(id)) fileStore.put(file, id); });
+    stored.forEach(id => { if (!files.has(id)) fileStore.delete(id); });
+    tx.objectStore(SESSION).put(manifest, SESSION_KEY);
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+};
+
+// The autosaved session, if there is one worth offering to restore
+export const loadSession = async (): Promise<SavedSession | null> => {
+  const db = await openDb();
+  try {
+    const manifest: ProjectManifest | undefined = await promisify(db.transaction(SESSION).objectStore(SESSION).get(SESSION_KEY));
+    if (!manifest) return null;
+    const rowCount = manifest.rows.filter(r => r.channels.some(c => c.file)).length;
+    if (rowCount === 0) return null;
+    return {
+      savedAt: manifest.savedAt,
+      rowCount,
+      restore: async () => {
+        const restoreDb = await openDb();
+        try {
+          const store = restoreDb.transaction(FILES).objectStore(FILES);
+          const ids = new Set<string>();
+          manifest.rows.forEach(r => r.channels.forEach(c => { if (c.file) ids.add(c.file); }));
+          [...manifest.history.past, ...manifest.history.future].forEach(s =>
+            s.rows.forEach(r => r.channels.forEach(c => { if (c.file) ids.add(c.file); })));
+          // Read everything in one transaction before decoding starts
+          const loaded = new Map<string, File>();
+          await Promise.all([...ids].map(async id => {
+            const file: File | undefined = await promisify(store.get(id));
+            if (file) loaded.set(id, file);
+          }));
+          return fromManifest(manifest, slot => {
+            const file = loaded.get(slot.file!);
+            if (!file) throw new Error(`Autosave is missing ${slot.name}`);
+            // Keep the id so the next autosave does not store the file again
+            fileIds.set(file, slot.file!);
+            return file;
+          });
+        } finally {
+          restoreDb.close();
+        }
+      }
+    };
+  } finally {
+    db.close();
+  }
+};
+
+export const clearSession = async (): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction([FILES, SESSION], 'readwrite');
+    tx.objectStore(FILES).clear();
+    tx.objectStore(SESSION).clear();
+    await transactionDone(tx);
+  } finally {
+    db.close();
+  }
+};
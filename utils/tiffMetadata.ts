@@ -0,0 +1,87 @@
+import { PixelCalibration } from '../types';
+
+// Micrometres per unit for the length units we encounter in descriptions
+const UNIT_TO_UM: Record<string, number> = {
+  'nm': 0.001,
+  'nanometer': 0.001,
+  'um': 1,
+  'µm': 1,
+  'μm': 1,
+  'micron': 1,
+  'microns': 1,
+  'micrometer': 1,
+  'mm': 1000,
+  'millimeter': 1000,
+  'cm': 10000,
+  'centimeter': 10000,
+  'inch': 25400,
+  'in': 25400
+};
+
+const unitToUm = (unit: string | undefined): number | null => {
+  if (!unit) return null;
+  // ImageJ writes the micro sign escaped as \u00B5 in the description
+  const normalized = unit.trim().replace(/\\u00b5/i, 'µ').toLowerCase();
+  return UNIT_TO_UM[normalized] ?? null;
+};
+
+// Anything coarser than this is a screen DPI default (72/96 dpi), not a
+// microscope calibration
+const MAX_PLAUSIBLE_UM_PER_PIXEL = 100;
+
+const isPlausible = (umPerPixel: number) =>
+  isFinite(umPerPixel) && umPerPixel > 0 && umPerPixel <= MAX_PLAUSIBLE_UM_PER_PIXEL;
+
+// OME-XML: <Pixels PhysicalSizeX="0.1" PhysicalSizeXUnit="µm" PhysicalSizeZ="0.5" ...>
+const fromOmeXml = (description: string): PixelCalibration | null => {
+  if (!description.includes('<OME')) return null;
+  const attr = (name: string) => description.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+  const sizeX = parseFloat(attr('PhysicalSizeX') ?? '');
+  if (isNaN(sizeX)) return null;
+  // OME defaults the unit to micrometres when the attribute is absent
+  const xFactor = unitToUm(attr('PhysicalSizeXUnit') ?? 'µm');
+  if (xFactor === null || !isPlausible(sizeX * xFactor)) return null;
+
+  const calibration: PixelCalibration = { umPerPixel: sizeX * xFactor, source: 'ome' };
+  const sizeZ = parseFloat(attr('PhysicalSizeZ') ?? '');
+  const zFactor = unitToUm(attr('PhysicalSizeZUnit') ?? 'µm');
+  if (!isNaN(sizeZ) && zFactor !== null) calibration.zSpacingUm = sizeZ * zFactor;
+  return calibration;
+};
+
+// ImageJ stores the unit in ImageDescription and the scale in XResolution
+// (pixels per unit); "spacing=" is the z step in the same unit
+const fromImageJ = (description: string, xResolution: number | undefined): PixelCalibration | null => {
+  if (!description.startsWith('ImageJ=')) return null;
+  const unit = description.match(/^unit=(.*)$/m)?.[1];
+  const factor = unitToUm(unit);
+  if (factor === null || !xResolution) return null;
+  const umPerPixel = factor / xResolution;
+  if (!isPlausible(umPerPixel)) return null;
+
+  const calibration: PixelCalibration = { umPerPixel, source: 'imagej' };
+  const spacing = parseFloat(description.match(/^spacing=(.*)$/m)?.[1] ?? '');
+  if (!isNaN(spacing)) calibration.zSpacingUm = spacing * factor;
+  return calibration;
+};
+
+// Baseline TIFF: XResolution pixels per ResolutionUnit (2 = inch, 3 = cm)
+const fromResolutionTags = (xResolution: number | undefined, resolutionUnit: number): PixelCalibration | null => {
+  if (!xResolution) return null;
+  const factor = resolutionUnit === 2 ? 25400 : resolutionUnit === 3 ? 10000 : null;
+  if (factor === null) return null;
+  const umPerPixel = factor / xResolution;
+  return isPlausible(umPerPixel) ? { umPerPixel, source: 'tiff' } : null;
+};
+
+// Physical pixel size of a decoded IFD, preferring OME-XML, then ImageJ, then
+// the baseline resolution tags. Returns null when the file is uncalibrated.
+export const readCalibration = (ifd: any): PixelCalibration | null => {
+  const description: string = typeof ifd.t270?.[0] === 'string' ? ifd.t270[0] : '';
+  const xResolution: number | undefined = ifd.t282?.[0];
+  const resolutionUnit: number = ifd.t296 ? ifd.t296[0] : 2;
+
+  return fromOmeXml(description)
+    ?? fromImageJ(description, xResolution)
+    ?? fromResolutionTags(xResolution, resolutionUnit);
+};
@@ -0,0 +1,198 @@
+import { RgbaImage } from '../types';
+
+// Baseline RGB TIFF writer for print export. Strips are LZW-compressed and
+// the resolution tags carry the DPI, so layout software places the figure at
+// its intended physical size.
+
+export interface TiffOptions {
+  bitDepth: 8 | 16; // 16-bit widens each 8-bit sample (v * 257) for colour-managed editing
+  dpi: number;
+  software?: string;
+  description?: string; // ImageDescription; non-ASCII characters must already be escaped
+}
+
+const CLEAR = 256;
+const EOI = 257;
+const FIRST_CODE = 258;
+const TABLE_FULL = 4094; // libtiff resets one code early; other readers expect the same
+const STRIP_BYTES = 64 * 1024;
+
+// (prefix code << 8 | byte) -> code, 0 when absent. Shared between strips and
+// emptied entry by entry, which is far cheaper than reallocating it.
+let table: Uint16Array | null = null;
+const tableKeys = new Uint32Array(4096);
+
+// TIFF flavour of LZW: MSB-first codes of 9 to 12 bits, widening one code
+// early ("early change"), each strip starting with a Clear code
+const lzwEncode = (data: Uint8Array): Uint8Array => {
+  table ??= new Uint16Array(4096 * 256);
+  const dict = table;
+  const out = new Uint8Array(data.length * 2 + 16);
+  let pos = 0;
+  let acc = 0;
+  let bits = 0;
+  let width = 9;
+  let next = FIRST_CODE;
+
+  const put = (code: number) => {
+    acc = (acc << width) | code;
+    bits += width;
+    while (bits >= 8) {
+      bits -= 8;
+      out[pos++] = (acc >>> bits) & 0xff;
+    }
+    acc &= (1 << bits) - 1;
+  };
+  const reset = () => {
+    for (let code = FIRST_CODE; code < next; code++) dict[tableKeys[code]] = 0;
+    next = FIRST_CODE;
+    width = 9;
+  };
+  // The decoder adds a table entry for every code after the first, so the
+  // encoder widens its codes as soon as that entry would need the extra bit
+  const grow = () => {
+    if (++next === TABLE_FULL) {
+      put(CLEAR);
+      reset();
+    } else if (next === 1 << width) {
+      width++;
+    }
+  };
+
+  put(CLEAR);
+  if (data.length > 0) {
+    let prefix = data[0];
+    for (let i = 1; i < data.length; i++) {
+      const key = (prefix << 8) | data[i];
+      const code = dict[key];
+      if (code) {
+        prefix = code;
+        continue;
+      }
+      put(prefix);
+      dict[key] = next;
+      tableKeys[next] = key;
+      grow();
+      prefix = data[i];
+    }
+    put(prefix);
+    grow();
+  }
+  put(EOI);
+  if (bits > 0) out[pos++] = (acc << (8 - bits)) & 0xff;
+  reset();
+  return out.slice(0, pos);
+};
+
+// Field types: 2 ASCII, 3 SHORT, 4 LONG, 5 RATIONAL
+interface IfdEntry {
+  tag: number;
+  type: 2 | 3 | 4 | 5;
+  values: number[];
+}
+
+const TYPE_SIZE = { 2: 1, 3: 2, 4: 4, 5: 8 };
+
+const ascii = (tag: number, text: string): IfdEntry => ({
+  tag,
+  type: 2,
+  values: [...Array.from(text, ch => ch.charCodeAt(0) < 0x80 ? ch.charCodeAt(0) : 0x3f), 0]
+});
+
+// Interleaved RGB samples from canvas RGBA pixels, alpha dropped
+const rgbSamples = (rgba: Uint8ClampedArray, bitDepth: 8 | 16): Uint8Array => {
+  const bytesPerSample = bitDepth / 8;
+  const out = new Uint8Array((rgba.length / 4) * 3 * bytesPerSample);
+  for (let i = 0, j = 0; i < rgba.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      // v * 257 has both bytes equal to v, so byte order does not matter
+      for (let b = 0; b < bytesPerSample; b++) out[j++] = rgba[i + c];
+    }
+  }
+  return out;
+};
+
+export const encodeTiff = (image: RgbaImage, options: TiffOptions): Blob => {
+  const { width, height } = image;
+  const samples = rgbSamples(image.data, options.bitDepth);
+  const rowBytes = width * 3 * (options.bitDepth / 8);
+  const rowsPerStrip = Math.max(1, Math.floor(STRIP_BYTES / rowBytes));
+
+  const strips: Uint8Array[] = [];
+  for (let y = 0; y < height; y += rowsPerStrip) {
+    strips.push(lzwEncode(samples.subarray(y * rowBytes, Math.min(height, y + rowsPerStrip) * rowBytes)));
+  }
+  const stripOffsets: number[] = [];
+  let offset = 8; // image data follows the header
+  strips.forEach(strip => {
+    stripOffsets.push(offset);
+    offset += strip.length;
+  });
+
+  // Resolution as a rational with two decimals of the DPI
+  const resolution = [Math.round(options.dpi * 100), 100];
+  const entries: IfdEntry[] = [
+    { tag: 256, type: 4, values: [width] }, // ImageWidth
+    { tag: 257, type: 4, values: [height] }, // ImageLength
+    { tag: 258, type: 3, values: [options.bitDepth, options.bitDepth, options.bitDepth] }, // BitsPerSample
+    { tag: 259, type: 3, values: [5] }, // Compression: LZW
+    { tag: 262, type: 3, values: [2] }, // PhotometricInterpretation: RGB
+    ...(options.description ? [ascii(270, options.description)] : []), // ImageDescription
+    { tag: 273, type: 4, values: stripOffsets }, // StripOffsets
+    { tag: 277, type: 3, values: [3] }, // SamplesPerPixel
+    { tag: 278, type: 4, values: [rowsPerStrip] }, // RowsPerStrip
+    { tag: 279, type: 4, values: strips.map(s => s.length) }, // StripByteCounts
+    { tag: 282, type: 5, values: resolution }, // XResolution
+    { tag: 283, type: 5, values: resolution }, // YResolution
+    { tag: 284, type: 3, values: [1] }, // PlanarConfiguration: chunky
+    { tag: 296, type: 3, values: [2] }, // ResolutionUnit: inch
+    ...(options.software ? [ascii(305, options.software)] : []) // Software
+  ];
+
+  // Values that do not fit the 4-byte entry field go after the image data,
+  // word-aligned, followed by the IFD itself
+  const count = (e: IfdEntry) => e.type === 5 ? e.values.length / 2 : e.values.length;
+  const size = (e: IfdEntry) => count(e) * TYPE_SIZE[e.type];
+  const align = (n: number) => n + (n & 1);
+  const external = new Map<IfdEntry, number>();
+  offset = align(offset);
+  entries.forEach(e => {
+    if (size(e) <= 4) return;
+    external.set(e, offset);
+    offset = align(offset + size(e));
+  });
+  const ifdOffset = offset;
+  const total = ifdOffset + 2 + entries.length * 12 + 4;
+
+  const bytes = new Uint8Array(total);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49]); // "II": little-endian
+  view.setUint16(2, 42, true);
+  view.setUint32(4, ifdOffset, true);
+  strips.forEach((strip, i) => bytes.set(strip, stripOffsets[i]));
+
+  const writeValues = (e: IfdEntry, at: number) => {
+    e.values.forEach((v, i) => {
+      if (e.type === 2) view.setUint8(at + i, v);
+      else if (e.type === 3) view.setUint16(at + i * 2, v, true);
+      else view.setUint32(at + i * 4, v, true); // LONG, or one half of a RATIONAL
+    });
+  };
+  view.setUint16(ifdOffset, entries.length, true);
+  entries.forEach((e, i) => {
+    const at = ifdOffset + 2 + i * 12;
+    view.setUint16(at, e.tag, true);
+    view.setUint16(at + 2, e.type, true);
+    view.setUint32(at + 4, count(e), true);
+    const valueAt = external.get(e);
+    if (valueAt === undefined) {
+      writeValues(e, at + 8);
+    } else {
+      view.setUint32(at + 8, valueAt, true);
+      writeValues(e, valueAt);
+    }
+  });
+  view.setUint32(ifdOffset + 2 + entries.length * 12, 0, true); // no further IFDs
+
+  return new Blob([bytes], { type: 'image/tiff' });
+};
@@ -0,0 +1,241 @@
+import { DisplayRange, RawImage, RawStack, RowColocalization, RowRenderInfo, ShiftEstimate, StackSelection } from '../types';
+import { ColocalizationArgs, ImageJob, ImageJobResult, JobRequest, JobResponse, RegisterArgs, RenderRowArgs, RoiRangesArgs, runJob } from './imageJobs';
+import { projectStack } from './imageProcessing';
+
+// A small pool of image workers so decoding and rendering never block the UI.
+// Jobs are queued in order and go to the first idle worker, preferring one
+// that already holds the job's images. Images are copied to a worker once and
+// kept there (least recently used first out) until its cache budget is full.
+
+export interface JobOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number) => void;
+}
+
+interface Task {
+  id: number;
+  job: ImageJob;
+  images: RawImage[];
+  options: JobOptions;
+  resolve: (result: ImageJobResult) => void;
+  reject: (error: unknown) => void;
+}
+
+interface Runner {
+  post: (request: JobRequest) => void;
+  task: Task | null;
+  held: Map<number, { bytes: number, lastUsed: number }>;
+  heldBytes: number;
+}
+
+const POOL_SIZE = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+const CACHE_BYTES_PER_WORKER = 256 * 1024 * 1024;
+
+const imageKeys = new WeakMap<RawImage, number>();
+let nextImageKey = 1;
+const keyOf = (image: RawImage): number => {
+  if (!imageKeys.has(image)) imageKeys.set(image, nextImageKey++);
+  return imageKeys.get(image)!;
+};
+
+let runners: Runner[] | null = null;
+const queue: Task[] = [];
+let nextTaskId = 1;
+let clock = 0;
+
+const cancelled = () => new DOMException('Job cancelled', 'AbortError');
+
+const finish = (runner: Runner, response: JobResponse) => {
+  const task = runner.task;
+  if (!task || task.id !== response.id) return;
+  if (response.kind === 'progress') {
+    task.options.onProgress?.(response.done);
+    return;
+  }
+  runner.task = null;
+  if (response.kind === 'error') {
+    task.reject(new Error(response.message));
+  } else if (task.options.signal?.aborted) {
+    // Already rejected when it was cancelled; just free the result
+    if (response.result.type === 'render') response.result.bitmap.close();
+  } else {
+    task.resolve(response.result);
+  }
+  pump();
+};
+
+// Runs jobs on the main thread, for browsers that cannot start the worker
+const createInlineRunner = (): Runner => {
+  const cache = new Map<number, RawImage>();
+  const runner: Runner = {
+    post: ({ id, job, images, release }) => {
+      release.forEach(key => cache.delete(key));
+      images.forEach(({ key, image }) => cache.set(key, image));
+      setTimeout(() => {
+        runJob(job, cache, done => finish(runner, { id, kind: 'progress', done }))
+          .then(result => finish(runner, { id, kind: 'result', result }))
+          .catch(e => finish(runner, { id, kind: 'error', message: e instanceof Error ? e.message : String(e) }));
+      });
+    },
+    task: null,
+    held: new Map(),
+    heldBytes: 0
+  };
+  return runner;
+};
+
+const createWorkerRunner = (index: number): Runner => {
+  const worker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+  const runner: Runner = {
+    post: (request) => worker.postMessage(request),
+    task: null,
+    held: new Map(),
+    heldBytes: 0
+  };
+  worker.onmessage = (e: MessageEvent<JobResponse>) => finish(runner, e.data);
+  // A worker that fails to load or crashes is replaced by an inline runner
+  worker.onerror = (e) => {
+    e.preventDefault();
+    worker.terminate();
+    const task = runner.task;
+    runner.task = null;
+    runners![index] = createInlineRunner();
+    if (task) queue.unshift(task);
+    pump();
+  };
+  return runner;
+};
+
+const getRunners = (): Runner[] => {
+  if (!runners) {
+    runners = Array.from({ length: POOL_SIZE }, (_, i) => {
+      try {
+        return createWorkerRunner(i);
+      } catch {
+        return createInlineRunner();
+      }
+    });
+  }
+  return runners;
+};
+
+// Make room for `incoming` bytes, dropping least recently used images that
+// the current job does not need. Returns the keys to release.
+const evict = (runner: Runner, incoming: number, keep: Set<number>): number[] => {
+  const released: number[] = [];
+  const byAge = [...runner.held.entries()].filter(([key]) => !keep.has(key)).sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+  for (const [key, { bytes }] of byAge) {
+    if (runner.heldBytes + incoming <= CACHE_BYTES_PER_WORKER) break;
+    runner.held.delete(key);
+    runner.heldBytes -= bytes;
+    released.push(key);
+  }
+  return released;
+};
+
+const dispatch = (runner: Runner, task: Task) => {
+  const keys = task.images.map(keyOf);
+  const missing = task.images.filter((_, i) => !runner.held.has(keys[i]));
+  const incoming = missing.reduce((sum, img) => sum + img.data.byteLength, 0);
+  const release = evict(runner, incoming, new Set(keys));
+  task.images.forEach((image, i) => {
+    if (!runner.held.has(keys[i])) runner.heldBytes += image.data.byteLength;
+    runner.held.set(keys[i], { bytes: image.data.byteLength, lastUsed: ++clock });
+  });
+  runner.task = task;
+  runner.post({ id: task.id, job: task.job, images: missing.map(image => ({ key: keyOf(image), image })), release });
+};
+
+function pump() {
+  const pool = getRunners();
+  while (queue.length > 0) {
+    const idle = pool.filter(r => !r.task);
+    if (idle.length === 0) return;
+    const task = queue.shift()!;
+    const keys = task.images.map(keyOf);
+    const warmth = (r: Runner) => keys.reduce((sum, key) => sum + (r.held.get(key)?.bytes ?? 0), 0);
+    const runner = idle.reduce((best, r) => warmth(r) > warmth(best) ? r : best);
+    dispatch(runner, task);
+  }
+}
+
+const submit = (job: ImageJob, images: RawImage[], options: JobOptions): Promise<ImageJobResult> => {
+  const { signal } = options;
+  if (signal?.aborted) return Promise.reject(cancelled());
+  return new Promise((resolve, reject) => {
+    const task: Task = { id: nextTaskId++, job, images, options, resolve, reject };
+    // Queued jobs are dropped; a running one cannot be interrupted, so its
+    // result is discarded when it arrives
+    signal?.addEventListener('abort', () => {
+      const queued = queue.indexOf(task);
+      if (queued !== -1) queue.splice(queued, 1);
+      reject(cancelled());
+    }, { once: true });
+    queue.push(task);
+    pump();
+  });
+};
+
+// The decoded stack with its default selection, already projected
+export const decodeTiffInWorker = async (
+  file: File,
+  options: JobOptions = {}
+): Promise<{ stack: RawStack, selection: StackSelection, image: RawImage }> => {
+  const { stack, selection, image } = await submit({ type: 'decode', file }, [], options) as Extract<ImageJobResult, { type: 'decode' }>;
+  return { stack, selection, image };
+};
+
+// Single slices are picked here, so they stay the stack's own page
+export const projectStackInWorker = async (
+  stack: RawStack,
+  selection: StackSelection,
+  options: JobOptions = {}
+): Promise<RawImage> => {
+  if (selection.mode === 'slice') return projectStack(stack, selection);
+  const result = await submit({ type: 'project', imageKeys: stack.pages.map(keyOf), args: { channels: stack.channels, selection } }, stack.pages, options);
+  return (result as Extract<ImageJobResult, { type: 'project' }>).image;
+};
+
+// Correction that aligns `moving` onto `reference`
+export const registerInWorker = async (
+  reference: RawImage,
+  moving: RawImage,
+  args: RegisterArgs,
+  options: JobOptions = {}
+): Promise<ShiftEstimate> => {
+  const result = await submit({ type: 'register', imageKeys: [reference, moving].map(keyOf), args }, [reference, moving], options);
+  return (result as Extract<ImageJobResult, { type: 'register' }>).estimate;
+};
+
+export const renderRowInWorker = async (
+  images: RawImage[],
+  args: RenderRowArgs,
+  options: JobOptions = {}
+): Promise<{ canvas: HTMLCanvasElement, info: RowRenderInfo }> => {
+  const result = await submit({ type: 'render', imageKeys: images.map(keyOf), args }, images, options);
+  const { bitmap, info } = result as Extract<ImageJobResult, { type: 'render' }>;
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return { canvas, info };
+};
+
+export const roiRangesInWorker = async (
+  images: RawImage[],
+  args: RoiRangesArgs,
+  options: JobOptions = {}
+): Promise<DisplayRange[]> => {
+  const result = await submit({ type: 'roi-ranges', imageKeys: images.map(keyOf), args }, images, options);
+  return (result as Extract<ImageJobResult, { type: 'roi-ranges' }>).ranges;
+};
+
+export const colocalizationInWorker = async (
+  images: [RawImage, RawImage],
+  args: ColocalizationArgs,
+  options: JobOptions = {}
+): Promise<RowColocalization> => {
+  const result = await submit({ type: 'colocalization', imageKeys: images.map(keyOf), args }, images, options);
+  return (result as Extract<ImageJobResult, { type: 'colocalization' }>).stats;
+};
@@ -1,18 +1,27 @@
+import { readFileSync } from 'fs';
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const pkg = JSON.parse(readFileSync(path.resolve(__dirname, 'package.json'), 'utf8'));
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
       plugins: [react()],
+      worker: {
+        // The image worker is a module worker (it imports UTIF at runtime)
+        format: 'es',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Named in provenance records and file metadata
+        __APP_NAME__: JSON.stringify(pkg.name),
+        __APP_VERSION__: JSON.stringify(pkg.version)
       },
       resolve: {
         alias: {